@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { readFileSync } from "node:fs";
 import { resolve, join } from "node:path";
 import { mkdtempSync, rmSync } from "node:fs";
@@ -8,6 +8,10 @@ import type { Client } from "@libsql/client";
 import { createDatabase } from "./storage/sqlite.js";
 import { LocalStorage } from "./storage/local.js";
 import { createApiApp } from "./app.js";
+import { backfillSearchContent } from "./storage/search.js";
+import { FakeProvider } from "./llm/fake.js";
+import { LLMError } from "./llm/provider.js";
+import { UnavailableProvider } from "./llm/unavailable.js";
 
 const TEST_JWT_SECRET = "test-secret-key";
 const fixturesDir = resolve(import.meta.dirname, "../../../fixtures");
@@ -18,13 +22,15 @@ let tmpDir: string;
 let db: Client;
 let storage: LocalStorage;
 let app: ReturnType<typeof createApiApp>;
+let llm: FakeProvider;
 let authToken: string;
 
 beforeEach(async () => {
   tmpDir = mkdtempSync(join(tmpdir(), "opensoul-test-"));
   db = await createDatabase(`file:${join(tmpDir, "test.db")}`);
   storage = new LocalStorage(join(tmpDir, "registry"));
-  app = createApiApp(db, storage);
+  llm = new FakeProvider();
+  app = createApiApp(db, storage, { summarize: llm, generate: llm });
 
   process.env.JWT_SECRET = TEST_JWT_SECRET;
 
@@ -52,6 +58,11 @@ function authHeaders(): Record<string, string> {
   };
 }
 
+// Payloads of the `data:` events in an SSE body
+async function events(res: Response): Promise<string[]> {
+  return (await res.text()).split("\n\n").filter(Boolean).map((event) => event.replace(/^data: /, ""));
+}
+
 describe("Soul CRUD API", () => {
   it("rejects upload without auth", async () => {
     const res = await app.request("/api/v1/souls", {
@@ -74,6 +85,34 @@ describe("Soul CRUD API", () => {
     expect(data.hash).toHaveLength(64);
   });
 
+  it("names the soul from its title and tagline when summarizing fails", async () => {
+    vi.spyOn(llm, "complete").mockRejectedValueOnce(new Error("offline"));
+    const res = await app.request("/api/v1/souls", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: rideOrDie }),
+    });
+    vi.restoreAllMocks();
+
+    const { slug } = await res.json();
+    const detail = await (await app.request(`/api/v1/souls/${slug}`)).json();
+    expect(detail.name).toBe("Ride or Die");
+    expect(detail.description).toBe("You're not an assistant. You're the friend who actually shows up.");
+  });
+
+  it("names the soul with the summarize provider", async () => {
+    llm = new FakeProvider(JSON.stringify({ name: "Loyal Friend", description: "Has your back." }));
+    app = createApiApp(db, storage, { summarize: llm, generate: llm });
+    const res = await app.request("/api/v1/souls", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: rideOrDie }),
+    });
+
+    expect((await res.json()).name).toBe("Loyal Friend");
+    expect(llm.requests[0]).toMatchObject({ json: true, messages: [{ role: "user", content: rideOrDie }] });
+  });
+
   it("sets author from GitHub username", async () => {
     await app.request("/api/v1/souls", {
       method: "POST",
@@ -152,6 +191,478 @@ describe("Soul CRUD API", () => {
   });
 });
 
+describe("Content freshness", () => {
+  it("exposes the content hash in metadata and as an ETag", async () => {
+    const upload = await (await app.request("/api/v1/souls", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: rideOrDie }),
+    })).json();
+
+    const meta = await (await app.request(`/api/v1/souls/${upload.slug}`)).json();
+    expect(meta.hash).toBe(upload.hash);
+
+    const res = await app.request(`/api/v1/souls/${upload.slug}/content`);
+    expect(res.headers.get("ETag")).toBe(`"${upload.hash}"`);
+  });
+
+  it("answers 304 when the client's copy is current", async () => {
+    const upload = await (await app.request("/api/v1/souls", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: rideOrDie }),
+    })).json();
+
+    const fresh = await app.request(`/api/v1/souls/${upload.slug}/content`, {
+      headers: { "If-None-Match": `"${upload.hash}"` },
+    });
+    expect(fresh.status).toBe(304);
+
+    await app.request(`/api/v1/souls/${upload.slug}/content`, {
+      method: "PUT",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: chaosGoblin }),
+    });
+    const stale = await app.request(`/api/v1/souls/${upload.slug}/content`, {
+      headers: { "If-None-Match": `"${upload.hash}"` },
+    });
+    expect(stale.status).toBe(200);
+    expect(await stale.text()).toBe(chaosGoblin);
+  });
+});
+
+describe("Content formats", () => {
+  async function uploadSoul(): Promise<string> {
+    const res = await app.request("/api/v1/souls", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: rideOrDie }),
+    });
+    return (await res.json()).slug;
+  }
+
+  it("exports the soul in another format", async () => {
+    const slug = await uploadSoul();
+
+    const res = await app.request(`/api/v1/souls/${slug}/content?format=openai-messages`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toContain("application/json");
+    const body = await res.json();
+    expect(body.messages[0].role).toBe("system");
+    expect(body.messages[0].content).toContain("## Core Truths");
+
+    const prompt = await app.request(`/api/v1/souls/${slug}/content?format=system-prompt`);
+    expect(prompt.headers.get("Content-Type")).toContain("text/plain");
+    expect(prompt.headers.get("ETag")).toMatch(/-system-prompt"$/);
+  });
+
+  it("serves the SOUL.md for format=soul and rejects unknown formats", async () => {
+    const slug = await uploadSoul();
+
+    expect(await (await app.request(`/api/v1/souls/${slug}/content?format=soul`)).text()).toBe(rideOrDie);
+    const res = await app.request(`/api/v1/souls/${slug}/content?format=pdf`);
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toContain("character-card");
+  });
+
+  it("answers 422 when stored content can't be parsed for export", async () => {
+    const slug = await uploadSoul();
+    await storage.saveSoul(slug, "---\nname: [\n---\n# Legacy\n");
+
+    const res = await app.request(`/api/v1/souls/${slug}/content?format=system-prompt`);
+    expect(res.status).toBe(422);
+    expect((await res.json()).error).toContain("can't be parsed");
+  });
+});
+
+describe("Soul generation", () => {
+  it("streams the generate provider's reply as SSE", async () => {
+    const res = await app.request("/api/v1/souls/generate", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ prompt: "a lighthouse keeper" }),
+    });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("text/event-stream");
+
+    const data = await events(res);
+    expect(data.at(-1)).toBe("[DONE]");
+    const text = data.slice(0, -1).map((d) => JSON.parse(d).text).join("");
+    expect(text).toContain("# SOUL.md - Stub");
+    expect(text).toContain("> a lighthouse keeper");
+    expect(llm.requests[0].system).toContain("You write SOUL.md files");
+  });
+
+  it("sends provider failures as an error event", async () => {
+    llm = new FakeProvider(() => {
+      throw new LLMError("openai request failed (429): slow down", 429, "slow down");
+    });
+    app = createApiApp(db, storage, { summarize: llm, generate: llm });
+    const res = await app.request("/api/v1/souls/generate", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ prompt: "a lighthouse keeper" }),
+    });
+
+    expect(await events(res)).toEqual([JSON.stringify({ error: "Generation failed (429): slow down" })]);
+  });
+
+  it("answers 503 when the generate provider is misconfigured, without breaking uploads", async () => {
+    const unavailable = new UnavailableProvider(new LLMError("LLM_BASE_URL is required"));
+    app = createApiApp(db, storage, { summarize: unavailable, generate: unavailable });
+    const res = await app.request("/api/v1/souls/generate", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ prompt: "a lighthouse keeper" }),
+    });
+    expect(res.status).toBe(503);
+
+    const upload = await app.request("/api/v1/souls", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: rideOrDie }),
+    });
+    expect(upload.status).toBe(201);
+  });
+
+  it("requires a prompt", async () => {
+    const res = await app.request("/api/v1/souls/generate", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ prompt: "  " }),
+    });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("Soul refinement", () => {
+  const withFrontmatter = `---\nname: Ride or Die\nauthor: testuser\n---\n${rideOrDie}`;
+
+  // Stands in for a model: edits one section and adds another
+  function reviser(): FakeProvider {
+    return new FakeProvider((request) => {
+      const body = request.messages[0].content.match(/<soul>\n([\s\S]*)\n<\/soul>/)![1];
+      return body
+        .replace("Full stop.", "Full stop, always.")
+        .replace("## Continuity", "## Money\n\nNo financial advice. Ever.\n\n## Continuity");
+    });
+  }
+
+  it("streams a revision of unsaved content with a section summary", async () => {
+    llm = reviser();
+    app = createApiApp(db, storage, { summarize: llm, generate: llm });
+    const res = await app.request("/api/v1/souls/refine", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: withFrontmatter, instruction: "add a boundary about finance" }),
+    });
+    expect(res.status).toBe(200);
+
+    const data = (await events(res)).map((d) => (d === "[DONE]" ? d : JSON.parse(d)));
+    expect(data.at(-1)).toBe("[DONE]");
+    expect(data.at(-2)).toEqual({
+      summary: [
+        { type: "modified", heading: "Boundaries" },
+        { type: "added", heading: "Money" },
+      ],
+    });
+    const revised = data.slice(0, -2).map((d) => d.text).join("");
+    expect(revised.startsWith("---\nname: Ride or Die\nauthor: testuser\n---\n# SOUL.md - Ride or Die")).toBe(true);
+    expect(revised).toContain("## Money");
+
+    // The model only sees the body, plus the instruction
+    expect(llm.requests[0].messages[0].content).not.toContain("author: testuser");
+    expect(llm.requests[0].messages[0].content).toContain("Instruction: add a boundary about finance");
+  });
+
+  it("refines a published soul by slug or label", async () => {
+    llm = reviser();
+    app = createApiApp(db, storage, { summarize: llm, generate: llm });
+    const upload = await app.request("/api/v1/souls", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: withFrontmatter }),
+    });
+    const { label } = await upload.json();
+
+    const res = await app.request(`/api/v1/souls/${label}/refine`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ instruction: "add a boundary about finance" }),
+    });
+    const data = await events(res);
+    expect(JSON.parse(data.at(-2)!).summary).toHaveLength(2);
+
+    const missing = await app.request("/api/v1/souls/nope/refine", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ instruction: "drier" }),
+    });
+    expect(missing.status).toBe(404);
+  });
+
+  it("requires auth, content and an instruction", async () => {
+    const anonymous = await app.request("/api/v1/souls/refine", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ content: rideOrDie, instruction: "drier" }),
+    });
+    expect(anonymous.status).toBe(401);
+
+    const noInstruction = await app.request("/api/v1/souls/refine", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: rideOrDie, instruction: " " }),
+    });
+    expect(noInstruction.status).toBe(400);
+    expect((await noInstruction.json()).error).toBe("Instruction is required");
+
+    const noContent = await app.request("/api/v1/souls/refine", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ instruction: "drier" }),
+    });
+    expect(noContent.status).toBe(400);
+  });
+});
+
+describe("Drafts", () => {
+  async function createDraft(body: Record<string, unknown>) {
+    return app.request("/api/v1/drafts", { method: "POST", headers: authHeaders(), body: JSON.stringify(body) });
+  }
+
+  it("saves generated souls as a draft with their prompt", async () => {
+    const res = await app.request("/api/v1/souls/generate", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ prompt: "a lighthouse keeper" }),
+    });
+    const data = await events(res);
+    const { draft } = JSON.parse(data.at(-2)!);
+    const text = data.slice(0, -2).map((d) => JSON.parse(d).text).join("");
+
+    const saved = await (await app.request(`/api/v1/drafts/${draft.id}`, { headers: authHeaders() })).json();
+    expect(saved).toMatchObject({ name: "Stub", prompt: "a lighthouse keeper", content: text });
+  });
+
+  it("does not save a draft when generation fails", async () => {
+    llm = new FakeProvider(() => {
+      throw new LLMError("boom");
+    });
+    app = createApiApp(db, storage, { summarize: llm, generate: llm });
+    await app.request("/api/v1/souls/generate", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ prompt: "a lighthouse keeper" }),
+    });
+    const list = await (await app.request("/api/v1/drafts", { headers: authHeaders() })).json();
+    expect(list.data).toEqual([]);
+  });
+
+  it("creates, lists, updates and deletes drafts", async () => {
+    const created = await createDraft({ content: "# SOUL.md - Half Done\n" });
+    expect(created.status).toBe(201);
+    const { id } = await created.json();
+
+    const patch = await app.request(`/api/v1/drafts/${id}`, {
+      method: "PATCH",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: rideOrDie, prompt: "loyal friend" }),
+    });
+    expect(await patch.json()).toMatchObject({ name: "Ride or Die", prompt: "loyal friend", content: rideOrDie });
+
+    const list = await (await app.request("/api/v1/drafts", { headers: authHeaders() })).json();
+    expect(list.data).toHaveLength(1);
+    expect(list.data[0]).toMatchObject({ id, name: "Ride or Die" });
+    expect(list.data[0].content).toBeUndefined();
+
+    const del = await app.request(`/api/v1/drafts/${id}`, { method: "DELETE", headers: authHeaders() });
+    expect(del.status).toBe(200);
+    const gone = await app.request(`/api/v1/drafts/${id}`, { headers: authHeaders() });
+    expect(gone.status).toBe(404);
+  });
+
+  it("keeps drafts private to their author", async () => {
+    const { id } = await (await createDraft({ content: rideOrDie })).json();
+    await db.execute({
+      sql: "INSERT INTO users (github_id, github_username) VALUES (?, ?)",
+      args: [999, "someoneelse"],
+    });
+    const otherToken = await sign(
+      { id: 2, github_id: 999, github_username: "someoneelse", exp: Math.floor(Date.now() / 1000) + 3600 },
+      TEST_JWT_SECRET,
+    );
+    const headers = { "Content-Type": "application/json", Authorization: `Bearer ${otherToken}` };
+
+    expect((await app.request(`/api/v1/drafts/${id}`, { headers })).status).toBe(404);
+    expect((await app.request(`/api/v1/drafts/${id}`, { method: "DELETE", headers })).status).toBe(404);
+    expect((await (await app.request("/api/v1/drafts", { headers })).json()).data).toEqual([]);
+  });
+
+  it("promotes a draft to a published soul and removes it", async () => {
+    const { id } = await (await createDraft({ content: "# SOUL.md - Unfinished\n" })).json();
+    const res = await app.request(`/api/v1/drafts/${id}/promote`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: rideOrDie }),
+    });
+    expect(res.status).toBe(201);
+    const { slug, version } = await res.json();
+    expect(version).toBe(1);
+
+    const content = await app.request(`/api/v1/souls/${slug}/content`);
+    expect(await content.text()).toBe(rideOrDie);
+    expect((await app.request(`/api/v1/drafts/${id}`, { headers: authHeaders() })).status).toBe(404);
+  });
+
+  it("keeps an invalid draft and its latest content when promotion fails", async () => {
+    const { id } = await (await createDraft({ content: rideOrDie })).json();
+    const res = await app.request(`/api/v1/drafts/${id}/promote`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: "just some words" }),
+    });
+    expect(res.status).toBe(422);
+    expect((await res.json()).diagnostics.length).toBeGreaterThan(0);
+
+    const draft = await (await app.request(`/api/v1/drafts/${id}`, { headers: authHeaders() })).json();
+    expect(draft.content).toBe("just some words");
+  });
+});
+
+describe("Importing other formats", () => {
+  const card = readFileSync(resolve(fixturesDir, "import/captain-redbeard.card.json"), "utf-8");
+
+  it("converts a character card on upload", async () => {
+    const res = await app.request("/api/v1/souls", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: card, format: "character-card" }),
+    });
+    expect(res.status).toBe(201);
+    const { slug, name } = await res.json();
+    expect(name).toBe("Captain Redbeard");
+
+    const content = await (await app.request(`/api/v1/souls/${slug}/content`)).text();
+    expect(content).toContain("# SOUL.md - Captain Redbeard");
+    expect(content).toContain("## Scenario");
+  });
+
+  it("returns the converted SOUL.md from validate", async () => {
+    const res = await app.request("/api/v1/souls/validate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ content: "You are Ada, a code reviewer.\nNever approve what you don't understand.", format: "system-prompt" }),
+    });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.valid).toBe(true);
+    expect(body.content).toContain("## What You Won't Do");
+  });
+
+  it("rejects unknown formats and unreadable files", async () => {
+    const unknown = await app.request("/api/v1/souls", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: card, format: "pdf" }),
+    });
+    expect(unknown.status).toBe(400);
+    expect((await unknown.json()).error).toContain("agents-md");
+
+    const broken = await app.request("/api/v1/souls", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: "{ not json", format: "character-card" }),
+    });
+    expect(broken.status).toBe(400);
+    expect((await broken.json()).error).toContain("not valid JSON");
+
+    const badFrontmatter = await app.request("/api/v1/souls/validate", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: "---\nname: [\n---\n# x", format: "agents-md" }),
+    });
+    expect(badFrontmatter.status).toBe(400);
+    expect((await badFrontmatter.json()).error).toContain("Invalid frontmatter");
+  });
+});
+
+describe("Forks and lineage", () => {
+  async function uploadSoul(content: string): Promise<string> {
+    const res = await app.request("/api/v1/souls", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content }),
+    });
+    return (await res.json()).slug;
+  }
+
+  async function fork(slug: string, body: Record<string, unknown> = {}) {
+    return app.request(`/api/v1/souls/${slug}/fork`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("copies content and metadata into a new soul that points back at the original", async () => {
+    const original = await uploadSoul(rideOrDie);
+    const res = await fork(original, { name: "Ride or Die Remix" });
+    expect(res.status).toBe(201);
+    const created = await res.json();
+    expect(created).toMatchObject({ label: "ride-or-die-remix", version: 1, forked_from: { slug: original } });
+
+    const content = await app.request(`/api/v1/souls/${created.slug}/content`);
+    expect(await content.text()).toBe(rideOrDie);
+
+    const detail = await (await app.request(`/api/v1/souls/${created.slug}`)).json();
+    expect(detail.parent).toMatchObject({ slug: original, name: "Ride or Die", author: "testuser" });
+    const versions = await (await app.request(`/api/v1/souls/${created.slug}/versions`)).json();
+    expect(versions.data[0].changelog).toBe("Forked from ride-or-die");
+
+    const parent = await (await app.request(`/api/v1/souls/${original}`)).json();
+    expect(parent).toMatchObject({ parent: null, forks_count: 1 });
+  });
+
+  it("lists forks and walks ancestors back to the original", async () => {
+    const original = await uploadSoul(rideOrDie);
+    const child = (await (await fork(original, { name: "Child" })).json()).slug;
+    const grandchild = (await (await fork(child, { name: "Grandchild" })).json()).slug;
+
+    const forks = await (await app.request(`/api/v1/souls/${original}/forks`)).json();
+    expect(forks.data.map((s: { slug: string }) => s.slug)).toEqual([child]);
+    expect(forks.pagination.total).toBe(1);
+
+    const lineage = await (await app.request(`/api/v1/souls/${grandchild}/lineage`)).json();
+    expect(lineage.data.map((s: { name: string }) => s.name)).toEqual(["Child", "Ride or Die"]);
+    const root = await (await app.request(`/api/v1/souls/${original}/lineage`)).json();
+    expect(root.data).toEqual([]);
+  });
+
+  it("records forked_from declared in frontmatter on upload", async () => {
+    const original = await uploadSoul(rideOrDie);
+    const remix = await uploadSoul(`---\nname: Ride Forever\nforked_from: ride-or-die\n---\n${rideOrDie}`);
+
+    const detail = await (await app.request(`/api/v1/souls/${remix}`)).json();
+    expect(detail.parent).toMatchObject({ slug: original });
+  });
+
+  it("keeps forks when their parent is deleted", async () => {
+    const original = await uploadSoul(rideOrDie);
+    const child = (await (await fork(original)).json()).slug;
+    await app.request(`/api/v1/souls/${original}`, { method: "DELETE", headers: authHeaders() });
+
+    const detail = await (await app.request(`/api/v1/souls/${child}`)).json();
+    expect(detail).toMatchObject({ forked_from: null, parent: null });
+  });
+
+  it("404s for unknown souls", async () => {
+    expect((await fork("nope")).status).toBe(404);
+    expect((await app.request("/api/v1/souls/nope/forks")).status).toBe(404);
+    expect((await app.request("/api/v1/souls/nope/lineage")).status).toBe(404);
+  });
+});
+
 describe("Soul Rating API", () => {
   it("rejects rating without auth", async () => {
     const res = await app.request("/api/v1/souls/some-soul/rate", {
@@ -205,3 +716,562 @@ describe("Soul Rating API", () => {
     expect(res.status).toBe(400);
   });
 });
+
+describe("Soul Version API", () => {
+  async function uploadSoul(content: string): Promise<string> {
+    const res = await app.request("/api/v1/souls", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content }),
+    });
+    return (await res.json()).slug;
+  }
+
+  it("records the upload as version 1", async () => {
+    const slug = await uploadSoul(rideOrDie);
+
+    const res = await app.request(`/api/v1/souls/${slug}/versions`);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data).toHaveLength(1);
+    expect(body.data[0].version).toBe(1);
+    expect(body.data[0].hash).toHaveLength(64);
+    expect(body.data[0].author).toBe("testuser");
+  });
+
+  it("keeps every content update as a new version", async () => {
+    const slug = await uploadSoul(rideOrDie);
+
+    const res = await app.request(`/api/v1/souls/${slug}/content`, {
+      method: "PUT",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: chaosGoblin, changelog: "Swap the voice" }),
+    });
+    expect(res.status).toBe(200);
+    expect((await res.json()).version).toBe(2);
+
+    const listRes = await app.request(`/api/v1/souls/${slug}/versions`);
+    const list = await listRes.json();
+    expect(list.data.map((v: { version: number }) => v.version)).toEqual([2, 1]);
+    expect(list.data[0].changelog).toBe("Swap the voice");
+
+    const v1 = await app.request(`/api/v1/souls/${slug}/versions/1/content`);
+    expect(await v1.text()).toBe(rideOrDie);
+    const v2 = await app.request(`/api/v1/souls/${slug}/versions/2/content`);
+    expect(await v2.text()).toBe(chaosGoblin);
+  });
+
+  it("does not create a version when content is unchanged", async () => {
+    const slug = await uploadSoul(rideOrDie);
+
+    const res = await app.request(`/api/v1/souls/${slug}/content`, {
+      method: "PUT",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: rideOrDie }),
+    });
+    expect((await res.json()).version).toBe(1);
+  });
+
+  it("restores an older version as a new version", async () => {
+    const slug = await uploadSoul(rideOrDie);
+    await app.request(`/api/v1/souls/${slug}/content`, {
+      method: "PUT",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: chaosGoblin }),
+    });
+
+    const res = await app.request(`/api/v1/souls/${slug}/versions/1/restore`, {
+      method: "POST",
+      headers: authHeaders(),
+    });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.version).toBe(3);
+    expect(body.restored).toBe(1);
+
+    const content = await app.request(`/api/v1/souls/${slug}/content`);
+    expect(await content.text()).toBe(rideOrDie);
+
+    const listRes = await app.request(`/api/v1/souls/${slug}/versions`);
+    const list = await listRes.json();
+    expect(list.data[0].changelog).toBe("Restored version 1");
+  });
+
+  it("restores the metadata in the restored version's frontmatter", async () => {
+    const slug = await uploadSoul(`---\nname: Ride or Die\ntags: [loyal]\n---\n${rideOrDie}`);
+    await app.request(`/api/v1/souls/${slug}/content`, {
+      method: "PUT",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: `---\nname: Chaos Goblin\ntags: [chaos]\n---\n${chaosGoblin}` }),
+    });
+
+    await app.request(`/api/v1/souls/${slug}/versions/1/restore`, { method: "POST", headers: authHeaders() });
+    const detail = await (await app.request(`/api/v1/souls/${slug}`)).json();
+    expect(detail.name).toBe("Ride or Die");
+    expect(detail.tags).toEqual(["loyal"]);
+  });
+
+  it("refuses to restore a version that can't be parsed", async () => {
+    const slug = await uploadSoul(rideOrDie);
+    await storage.saveSoulVersion(slug, 1, "---\nname: [\n---\n# Legacy\n");
+
+    const res = await app.request(`/api/v1/souls/${slug}/versions/1/restore`, { method: "POST", headers: authHeaders() });
+    expect(res.status).toBe(422);
+    expect(await (await app.request(`/api/v1/souls/${slug}/content`)).text()).toBe(rideOrDie);
+  });
+
+  it("answers 503 when a version can't be read for restore", async () => {
+    const slug = await uploadSoul(rideOrDie);
+    vi.spyOn(storage, "getSoulVersion").mockRejectedValue(new Error("S3 GET failed (500)"));
+
+    const res = await app.request(`/api/v1/souls/${slug}/versions/1/restore`, {
+      method: "POST",
+      headers: authHeaders(),
+    });
+    expect(res.status).toBe(503);
+  });
+
+  it("backfills the original content for souls without history", async () => {
+    const slug = await uploadSoul(rideOrDie);
+    await db.execute("DELETE FROM soul_versions");
+
+    await app.request(`/api/v1/souls/${slug}/content`, {
+      method: "PUT",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: chaosGoblin }),
+    });
+
+    const v1 = await app.request(`/api/v1/souls/${slug}/versions/1/content`);
+    expect(await v1.text()).toBe(rideOrDie);
+  });
+
+  it("rejects restore from a non-owner", async () => {
+    const slug = await uploadSoul(rideOrDie);
+    await db.execute({
+      sql: "INSERT INTO users (github_id, github_username) VALUES (?, ?)",
+      args: [67890, "otheruser"],
+    });
+    const otherToken = await sign(
+      { id: 2, github_id: 67890, github_username: "otheruser", exp: Math.floor(Date.now() / 1000) + 3600 },
+      TEST_JWT_SECRET
+    );
+
+    const res = await app.request(`/api/v1/souls/${slug}/versions/1/restore`, {
+      method: "POST",
+      headers: { ...authHeaders(), Authorization: `Bearer ${otherToken}` },
+    });
+    expect(res.status).toBe(403);
+  });
+
+  it("diffs the latest version against the previous one", async () => {
+    const slug = await uploadSoul(rideOrDie);
+    const edited = rideOrDie.replace("## Vibe", "## How You Sound");
+    await app.request(`/api/v1/souls/${slug}/content`, {
+      method: "PUT",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: edited }),
+    });
+
+    const res = await app.request(`/api/v1/souls/${slug}/diff`);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.from).toBe(1);
+    expect(body.to).toBe(2);
+    expect(body.identical).toBe(false);
+    expect(body.sections).toEqual([{ type: "renamed", from: "Vibe", to: "How You Sound", hunks: [] }]);
+
+    const same = await app.request(`/api/v1/souls/${slug}/diff?from=2&to=2`);
+    expect((await same.json()).identical).toBe(true);
+  });
+
+  it("answers 422 when a version can't be parsed for diff", async () => {
+    const slug = await uploadSoul(rideOrDie);
+    await app.request(`/api/v1/souls/${slug}/content`, {
+      method: "PUT",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: chaosGoblin }),
+    });
+    await storage.saveSoulVersion(slug, 1, "---\nname: [\n---\n# Legacy\n");
+
+    const res = await app.request(`/api/v1/souls/${slug}/diff`);
+    expect(res.status).toBe(422);
+    expect((await res.json()).error).toBe("Version 1 can't be parsed for diff");
+  });
+
+  it("rejects diffs of bad or missing versions", async () => {
+    const slug = await uploadSoul(rideOrDie);
+
+    expect((await app.request(`/api/v1/souls/${slug}/diff?from=abc`)).status).toBe(400);
+    expect((await app.request(`/api/v1/souls/${slug}/diff?from=1&to=5`)).status).toBe(404);
+    expect((await app.request(`/api/v1/souls/nope/diff`)).status).toBe(404);
+  });
+
+  it("returns 404 for a missing version", async () => {
+    const slug = await uploadSoul(rideOrDie);
+    const res = await app.request(`/api/v1/souls/${slug}/versions/9/content`);
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("Upload validation", () => {
+  const withFrontmatter = `---
+name: Frontmatter Soul
+author: testuser
+description: Declared in frontmatter
+tags: [calm, focused]
+license: CC-BY-4.0
+---
+${rideOrDie}`;
+
+  it("rejects content without sections with a 422 listing problems", async () => {
+    const res = await app.request("/api/v1/souls", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: "Just some text with no headings." }),
+    });
+    expect(res.status).toBe(422);
+    const body = await res.json();
+    expect(body.diagnostics.map((d: { rule: string }) => d.rule)).toContain("require-sections");
+  });
+
+  it("rejects oversized content", async () => {
+    const res = await app.request("/api/v1/souls", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: `${rideOrDie}\n${"x".repeat(60_000)}` }),
+    });
+    expect(res.status).toBe(422);
+    const body = await res.json();
+    expect(body.diagnostics.map((d: { rule: string }) => d.rule)).toContain("max-length");
+  });
+
+  it("uses frontmatter metadata when present", async () => {
+    const res = await app.request("/api/v1/souls", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: withFrontmatter }),
+    });
+    expect(res.status).toBe(201);
+    const { slug, label } = await res.json();
+    expect(label).toBe("frontmatter-soul");
+
+    const detail = await (await app.request(`/api/v1/souls/${slug}`)).json();
+    expect(detail.name).toBe("Frontmatter Soul");
+    expect(detail.description).toBe("Declared in frontmatter");
+    expect(detail.tags).toEqual(["calm", "focused"]);
+    expect(detail.license).toBe("CC-BY-4.0");
+  });
+
+  it("validates content updates", async () => {
+    const upload = await app.request("/api/v1/souls", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: rideOrDie }),
+    });
+    const { slug } = await upload.json();
+
+    const res = await app.request(`/api/v1/souls/${slug}/content`, {
+      method: "PUT",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: "## Empty\n" }),
+    });
+    expect(res.status).toBe(422);
+
+    const content = await app.request(`/api/v1/souls/${slug}/content`);
+    expect(await content.text()).toBe(rideOrDie);
+  });
+
+  it("validates without saving", async () => {
+    const res = await app.request("/api/v1/souls/validate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ content: rideOrDie }),
+    });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.valid).toBe(true);
+  });
+});
+
+describe("Tag API", () => {
+  async function uploadWithTags(content: string, tags: string[]): Promise<string> {
+    const res = await app.request("/api/v1/souls", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content }),
+    });
+    const { slug } = await res.json();
+    await app.request(`/api/v1/souls/${slug}`, {
+      method: "PATCH",
+      headers: authHeaders(),
+      body: JSON.stringify({ tags }),
+    });
+    return slug;
+  }
+
+  it("normalizes tags set by the owner", async () => {
+    const slug = await uploadWithTags(rideOrDie, ["Loyal Friend", "loyal-friend", "  Blunt! "]);
+    const detail = await (await app.request(`/api/v1/souls/${slug}`)).json();
+    expect(detail.tags).toEqual(["loyal-friend", "blunt"]);
+  });
+
+  it("rejects too many tags", async () => {
+    const slug = await uploadWithTags(rideOrDie, []);
+    const res = await app.request(`/api/v1/souls/${slug}`, {
+      method: "PATCH",
+      headers: authHeaders(),
+      body: JSON.stringify({ tags: Array.from({ length: 11 }, (_, i) => `tag-${i}`) }),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("returns tag counts for faceting", async () => {
+    await uploadWithTags(rideOrDie, ["loyal", "blunt"]);
+    await uploadWithTags(chaosGoblin, ["chaotic", "blunt"]);
+
+    const res = await app.request("/api/v1/tags");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data).toEqual([
+      { tag: "blunt", count: 2 },
+      { tag: "chaotic", count: 1 },
+      { tag: "loyal", count: 1 },
+    ]);
+
+    const prefixed = await (await app.request("/api/v1/tags?q=ch")).json();
+    expect(prefixed.data).toEqual([{ tag: "chaotic", count: 1 }]);
+  });
+
+  it("filters souls by all or any of several tags", async () => {
+    await uploadWithTags(rideOrDie, ["loyal", "blunt"]);
+    await uploadWithTags(chaosGoblin, ["chaotic", "blunt"]);
+
+    const all = await (await app.request("/api/v1/souls?tag=blunt,loyal")).json();
+    expect(all.data).toHaveLength(1);
+    expect(all.pagination.total).toBe(1);
+
+    const any = await (await app.request("/api/v1/souls?tag=chaotic&tag=loyal&match=any")).json();
+    expect(any.data).toHaveLength(2);
+
+    const single = await (await app.request("/api/v1/souls?tag=Blunt")).json();
+    expect(single.data).toHaveLength(2);
+  });
+});
+
+describe("Search API", () => {
+  async function upload(content: string): Promise<string> {
+    const res = await app.request("/api/v1/souls", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ content }),
+    });
+    return (await res.json()).slug;
+  }
+
+  it("matches words in the soul body and returns highlighted snippets", async () => {
+    await upload(rideOrDie);
+    await upload(chaosGoblin);
+
+    const res = await app.request("/api/v1/souls?search=spreadsheets");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data).toHaveLength(1);
+    expect(body.data[0].snippet).toContain("<mark>spreadsheets</mark>");
+  });
+
+  it("treats the last word as a prefix", async () => {
+    await upload(chaosGoblin);
+    const body = await (await app.request("/api/v1/souls?search=sacred%20co")).json();
+    expect(body.data).toHaveLength(1);
+  });
+
+  it("ranks by relevance with sort=relevance", async () => {
+    await upload(rideOrDie);
+    await upload(chaosGoblin);
+
+    const body = await (await app.request("/api/v1/souls?search=chaos&sort=relevance")).json();
+    expect(body.data.length).toBeGreaterThan(0);
+    expect(body.data[0].name).toMatch(/chaos/i);
+  });
+
+  it("keeps the index in sync on content update and delete", async () => {
+    const slug = await upload(chaosGoblin);
+
+    await app.request(`/api/v1/souls/${slug}/content`, {
+      method: "PUT",
+      headers: authHeaders(),
+      body: JSON.stringify({ content: chaosGoblin.replace("spreadsheets", "quarterly reports") }),
+    });
+    let body = await (await app.request("/api/v1/souls?search=spreadsheets")).json();
+    expect(body.data).toHaveLength(0);
+    body = await (await app.request("/api/v1/souls?search=quarterly")).json();
+    expect(body.data).toHaveLength(1);
+
+    await app.request(`/api/v1/souls/${slug}`, { method: "DELETE", headers: authHeaders() });
+    body = await (await app.request("/api/v1/souls?search=quarterly")).json();
+    expect(body.data).toHaveLength(0);
+  });
+
+  it("indexes tags set after upload", async () => {
+    const slug = await upload(rideOrDie);
+    await app.request(`/api/v1/souls/${slug}`, {
+      method: "PATCH",
+      headers: authHeaders(),
+      body: JSON.stringify({ tags: ["wingman"] }),
+    });
+    const body = await (await app.request("/api/v1/souls?search=wingman")).json();
+    expect(body.data).toHaveLength(1);
+  });
+
+  it("backfills content for souls indexed by metadata only, in batches", async () => {
+    await upload(rideOrDie);
+    await upload(chaosGoblin);
+    await db.execute("UPDATE souls_fts SET headings = NULL, content = NULL");
+
+    expect(await backfillSearchContent(db, storage, 1)).toBe(false);
+    expect(await backfillSearchContent(db, storage, 1)).toBe(false);
+    expect(await backfillSearchContent(db, storage, 1)).toBe(true);
+    const body = await (await app.request("/api/v1/souls?search=spreadsheets")).json();
+    expect(body.data).toHaveLength(1);
+  });
+});
+
+describe("Access tokens", () => {
+  async function createToken(body: Record<string, unknown>) {
+    return app.request("/api/v1/tokens", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify(body),
+    });
+  }
+
+  function tokenHeaders(token: string): Record<string, string> {
+    return { "Content-Type": "application/json", Authorization: `Bearer ${token}` };
+  }
+
+  it("creates a token that authenticates API calls and shows it only once", async () => {
+    const res = await createToken({ name: "ci", scopes: ["publish"] });
+    expect(res.status).toBe(201);
+    const created = await res.json();
+    expect(created.token).toMatch(/^soul_/);
+    expect(created.scopes).toEqual(["publish"]);
+
+    const upload = await app.request("/api/v1/souls", {
+      method: "POST",
+      headers: tokenHeaders(created.token),
+      body: JSON.stringify({ content: rideOrDie }),
+    });
+    expect(upload.status).toBe(201);
+
+    const list = await (await app.request("/api/v1/tokens", { headers: authHeaders() })).json();
+    expect(list.data).toHaveLength(1);
+    expect(list.data[0].token).toBeUndefined();
+    expect(list.data[0].last_used_at).not.toBeNull();
+  });
+
+  it("enforces token scopes", async () => {
+    const { token } = await (await createToken({ name: "rater", scopes: ["rate"] })).json();
+    const res = await app.request("/api/v1/souls", {
+      method: "POST",
+      headers: tokenHeaders(token),
+      body: JSON.stringify({ content: rideOrDie }),
+    });
+    expect(res.status).toBe(403);
+  });
+
+  it("rejects unknown scopes", async () => {
+    const res = await createToken({ name: "bad", scopes: ["admin"] });
+    expect(res.status).toBe(400);
+  });
+
+  it("stops accepting a revoked token", async () => {
+    const { id, token } = await (await createToken({ name: "old" })).json();
+    const del = await app.request(`/api/v1/tokens/${id}`, { method: "DELETE", headers: authHeaders() });
+    expect(del.status).toBe(200);
+
+    const me = await app.request("/api/v1/auth/me", { headers: tokenHeaders(token) });
+    expect(me.status).toBe(401);
+  });
+
+  it("does not let a token manage tokens", async () => {
+    const { token } = await (await createToken({ name: "cli" })).json();
+    const res = await app.request("/api/v1/tokens", { headers: tokenHeaders(token) });
+    expect(res.status).toBe(403);
+  });
+
+  it("revokes the presented token on logout", async () => {
+    const { token } = await (await createToken({ name: "cli" })).json();
+    await app.request("/api/v1/auth/logout", { method: "POST", headers: tokenHeaders(token) });
+    const me = await app.request("/api/v1/auth/me", { headers: tokenHeaders(token) });
+    expect(me.status).toBe(401);
+  });
+});
+
+describe("Device login", () => {
+  async function startDevice() {
+    const res = await app.request("/api/v1/auth/device/code", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "laptop", scopes: "read publish" }),
+    });
+    expect(res.status).toBe(200);
+    return res.json();
+  }
+
+  async function poll(deviceCode: string) {
+    return app.request("/api/v1/auth/device/token", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ device_code: deviceCode }),
+    });
+  }
+
+  it("issues a token once the user approves the code", async () => {
+    const device = await startDevice();
+    expect(device.user_code).toMatch(/^[A-Z]{4}-[A-Z]{4}$/);
+    expect(device.verification_uri_complete).toContain(device.user_code);
+
+    const pending = await poll(device.device_code);
+    expect(pending.status).toBe(400);
+    expect((await pending.json()).error).toBe("authorization_pending");
+
+    const lookup = await app.request(`/api/v1/auth/device/${device.user_code.toLowerCase()}`, { headers: authHeaders() });
+    expect((await lookup.json()).name).toBe("laptop");
+
+    const approve = await app.request("/api/v1/auth/device/approve", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ user_code: device.user_code, approve: true }),
+    });
+    expect(approve.status).toBe(200);
+
+    const res = await poll(device.device_code);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.username).toBe("testuser");
+    expect(body.scope).toBe("read publish");
+
+    const me = await app.request("/api/v1/auth/me", { headers: { Authorization: `Bearer ${body.access_token}` } });
+    expect(me.status).toBe(200);
+    expect((await me.json()).via).toBe("token");
+
+    // Device codes are single-use
+    expect((await (await poll(device.device_code)).json()).error).toBe("invalid_grant");
+  });
+
+  it("asks clients that poll too fast to slow down", async () => {
+    const device = await startDevice();
+    await poll(device.device_code);
+    expect((await (await poll(device.device_code)).json()).error).toBe("slow_down");
+  });
+
+  it("reports denied codes", async () => {
+    const device = await startDevice();
+    await app.request("/api/v1/auth/device/approve", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ user_code: device.user_code, approve: false }),
+    });
+    expect((await (await poll(device.device_code)).json()).error).toBe("access_denied");
+  });
+});
@@ -5,11 +5,16 @@ import type { Client } from "@libsql/client";
 import { soulRoutes } from "./routes/soul.js";
 import { authRoutes } from "./routes/auth.js";
 import { userRoutes } from "./routes/user.js";
+import { tagRoutes } from "./routes/tags.js";
+import { tokenRoutes } from "./routes/tokens.js";
+import { draftRoutes } from "./routes/drafts.js";
 import type { StorageInterface } from "./storage/local.js";
+import { createProviders, type LLMProviders } from "./llm/config.js";
 
 export function createApiApp(
   db: Client,
-  storage: StorageInterface
+  storage: StorageInterface,
+  llm: LLMProviders = createProviders(),
 ) {
   const app = new Hono();
 
@@ -21,8 +26,11 @@ export function createApiApp(
   });
 
   app.route("/api/v1/auth", authRoutes(db));
-  app.route("/api/v1/souls", soulRoutes(db, storage));
+  app.route("/api/v1/souls", soulRoutes(db, storage, llm));
   app.route("/api/v1/users", userRoutes(db));
+  app.route("/api/v1/tags", tagRoutes(db));
+  app.route("/api/v1/tokens", tokenRoutes(db));
+  app.route("/api/v1/drafts", draftRoutes(db, storage, llm));
 
   return app;
 }
@@ -1,11 +1,13 @@
 import { serve } from "@hono/node-server";
 import { createDatabase } from "./storage/sqlite.js";
 import { LocalStorage } from "./storage/local.js";
+import { backfillSearchContent } from "./storage/search.js";
 import { createApiApp } from "./app.js";
 
 async function main() {
   const db = await createDatabase();
   const storage = new LocalStorage();
+  await backfillSearchContent(db, storage);
 
   const app = createApiApp(db, storage);
 
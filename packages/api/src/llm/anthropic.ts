@@ -0,0 +1,74 @@
+import { LLMError, failedResponse, parseEvent, readSse, type ChatRequest, type LLMProvider } from "./provider.js";
+
+const ANTHROPIC_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_MAX_TOKENS = 4096;
+
+export interface AnthropicProviderOptions {
+  model: string;
+  apiKey?: string;
+}
+
+interface MessageResponse {
+  content?: { type: string; text?: string }[];
+}
+
+interface StreamEvent {
+  type: string;
+  delta?: { type: string; text?: string };
+  error?: { message?: string };
+}
+
+/**
+ * Anthropic's Messages API. It has no JSON mode, so JSON requests prefill
+ * the reply with `{` and put it back in front of what the model writes.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic";
+  readonly model: string;
+  private readonly apiKey?: string;
+
+  constructor(options: AnthropicProviderOptions) {
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+  }
+
+  private async post(request: ChatRequest, stream: boolean): Promise<Response> {
+    const res = await fetch(ANTHROPIC_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.apiKey ?? "",
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(stream ? { stream: true } : {}),
+        ...(request.system ? { system: request.system } : {}),
+        messages: request.json ? [...request.messages, { role: "assistant", content: "{" }] : request.messages,
+      }),
+    });
+    if (!res.ok) throw await failedResponse(this.name, res);
+    return res;
+  }
+
+  async complete(request: ChatRequest): Promise<string> {
+    const data = (await (await this.post(request, false)).json()) as MessageResponse;
+    if (!Array.isArray(data.content)) throw new LLMError(`${this.name} returned no message`);
+    const text = data.content.map((block) => (block.type === "text" ? block.text ?? "" : "")).join("");
+    return request.json ? `{${text}` : text;
+  }
+
+  async *stream(request: ChatRequest): AsyncGenerator<string> {
+    const res = await this.post(request, true);
+    if (!res.body) throw new LLMError(`${this.name} returned an empty stream`);
+    if (request.json) yield "{";
+    for await (const data of readSse(res.body)) {
+      const event = parseEvent<StreamEvent>(data);
+      if (event?.type === "content_block_delta" && event.delta?.text) yield event.delta.text;
+      // Overloads and the like can arrive mid-stream after a 200
+      if (event?.type === "error") throw new LLMError(`${this.name} stream failed: ${event.error?.message ?? data}`, undefined, data);
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { AnthropicProvider } from "./anthropic.js";
+import { FakeProvider } from "./fake.js";
+import { OpenAIProvider } from "./openai.js";
+import { LLMError, type LLMProvider } from "./provider.js";
+import { UnavailableProvider } from "./unavailable.js";
+
+export type ProviderKind = "openai" | "anthropic" | "openai-compatible" | "fake";
+
+/** What the API uses a model for. Each task can have its own provider and model. */
+export type LLMTask = "summarize" | "generate";
+
+export type LLMProviders = Record<LLMTask, LLMProvider>;
+
+type LLMEnv = Record<string, string | undefined>;
+
+const PROVIDER_KINDS: ProviderKind[] = ["openai", "anthropic", "openai-compatible", "fake"];
+
+// Summaries have always come from OpenAI and generation from Anthropic
+const DEFAULT_PROVIDERS: Record<LLMTask, ProviderKind> = {
+  summarize: "openai",
+  generate: "anthropic",
+};
+
+const DEFAULT_MODELS: Record<Exclude<ProviderKind, "openai-compatible">, Record<LLMTask, string>> = {
+  openai: { summarize: "gpt-4o-mini", generate: "gpt-4o" },
+  anthropic: { summarize: "claude-haiku-4-5", generate: "claude-sonnet-4-5-20250929" },
+  fake: { summarize: "fake", generate: "fake" },
+};
+
+function isProviderKind(kind: string): kind is ProviderKind {
+  return (PROVIDER_KINDS as string[]).includes(kind);
+}
+
+/**
+ * Build the provider for one task from the environment:
+ *
+ * - `LLM_<TASK>_PROVIDER`, else `LLM_PROVIDER`: openai, anthropic,
+ *   openai-compatible or fake
+ * - `LLM_<TASK>_MODEL`, else `LLM_MODEL`, else the provider's default
+ * - `OPENAI_API_KEY` and `ANTHROPIC_API_KEY` for those providers;
+ *   `LLM_BASE_URL` and `LLM_API_KEY` for openai-compatible, which has no
+ *   default model
+ */
+export function createProvider(task: LLMTask, env: LLMEnv = process.env): LLMProvider {
+  const prefix = `LLM_${task.toUpperCase()}`;
+  const kind = env[`${prefix}_PROVIDER`] || env.LLM_PROVIDER || DEFAULT_PROVIDERS[task];
+  if (!isProviderKind(kind)) {
+    throw new LLMError(`Unknown LLM provider '${kind}'. Use one of: ${PROVIDER_KINDS.join(", ")}`);
+  }
+  const model = env[`${prefix}_MODEL`] || env.LLM_MODEL;
+
+  switch (kind) {
+    case "openai":
+      return new OpenAIProvider({ model: model ?? DEFAULT_MODELS.openai[task], apiKey: env.OPENAI_API_KEY });
+    case "anthropic":
+      return new AnthropicProvider({ model: model ?? DEFAULT_MODELS.anthropic[task], apiKey: env.ANTHROPIC_API_KEY });
+    case "openai-compatible":
+      if (!env.LLM_BASE_URL) throw new LLMError("LLM_BASE_URL is required for the openai-compatible provider");
+      if (!model) throw new LLMError(`${prefix}_MODEL or LLM_MODEL is required for the openai-compatible provider`);
+      return new OpenAIProvider({ name: kind, model, baseUrl: env.LLM_BASE_URL, apiKey: env.LLM_API_KEY });
+    case "fake":
+      return new FakeProvider(undefined, model ?? DEFAULT_MODELS.fake[task]);
+  }
+}
+
+/**
+ * Providers for every task. A task whose configuration is invalid gets an
+ * UnavailableProvider instead of throwing, so only the AI endpoints fail.
+ */
+export function createProviders(env: LLMEnv = process.env): LLMProviders {
+  return {
+    summarize: createProviderOrUnavailable("summarize", env),
+    generate: createProviderOrUnavailable("generate", env),
+  };
+}
+
+function createProviderOrUnavailable(task: LLMTask, env: LLMEnv): LLMProvider {
+  try {
+    return createProvider(task, env);
+  } catch (err) {
+    const error = err instanceof LLMError ? err : new LLMError((err as Error).message);
+    console.error(`[LLM] ${task} provider unavailable: ${error.message}`);
+    return new UnavailableProvider(error);
+  }
+}
@@ -0,0 +1,60 @@
+import type { ChatRequest, LLMProvider } from "./provider.js";
+
+export type FakeReply = string | ((request: ChatRequest) => string);
+
+// A soul that passes upload validation, so the whole generate-then-publish
+// flow works offline
+function stubSoul(request: ChatRequest): string {
+  const prompt = request.messages.at(-1)?.content.trim() ?? "";
+  return `# SOUL.md - Stub
+
+_A placeholder soul from the fake LLM provider._
+
+## Who You Are
+
+You were written offline, without a model, from this prompt:
+
+> ${prompt.replace(/\n/g, "\n> ")}
+
+## What You Won't Do
+
+- Pretend a real model wrote you.
+
+## Continuity
+
+Each session starts fresh. Read your files.
+`;
+}
+
+function defaultReply(request: ChatRequest): string {
+  return request.json ? "{}" : stubSoul(request);
+}
+
+/**
+ * Deterministic provider for tests and offline development. Replies with
+ * `reply` (or a stub soul, and `{}` for JSON requests) and streams it a
+ * word at a time. Every request is kept in `requests`.
+ */
+export class FakeProvider implements LLMProvider {
+  readonly name = "fake";
+  readonly model: string;
+  readonly requests: ChatRequest[] = [];
+  private readonly reply: FakeReply;
+
+  constructor(reply: FakeReply = defaultReply, model = "fake") {
+    this.reply = reply;
+    this.model = model;
+  }
+
+  async complete(request: ChatRequest): Promise<string> {
+    this.requests.push(request);
+    return typeof this.reply === "function" ? this.reply(request) : this.reply;
+  }
+
+  async *stream(request: ChatRequest): AsyncGenerator<string> {
+    const text = await this.complete(request);
+    for (const chunk of text.match(/\s*\S+\s*/g) ?? []) {
+      yield chunk;
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { LLMError, failedResponse, parseEvent, readSse, type ChatRequest, type LLMProvider } from "./provider.js";
+
+export const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+export interface OpenAIProviderOptions {
+  model: string;
+  apiKey?: string;
+  /** Any server speaking the chat completions API, e.g. `http://localhost:11434/v1` */
+  baseUrl?: string;
+  /** Reported as the provider's name */
+  name?: string;
+}
+
+interface CompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+interface CompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+}
+
+/** OpenAI's chat completions API, or a self-hosted server compatible with it. */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private readonly apiKey?: string;
+  private readonly url: string;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name ?? "openai";
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+    this.url = `${(options.baseUrl ?? OPENAI_BASE_URL).replace(/\/+$/, "")}/chat/completions`;
+  }
+
+  private async post(request: ChatRequest, stream: boolean): Promise<Response> {
+    const res = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+        ...(request.json ? { response_format: { type: "json_object" } } : {}),
+        ...(stream ? { stream: true } : {}),
+        messages: [
+          ...(request.system ? [{ role: "system", content: request.system }] : []),
+          ...request.messages,
+        ],
+      }),
+    });
+    if (!res.ok) throw await failedResponse(this.name, res);
+    return res;
+  }
+
+  async complete(request: ChatRequest): Promise<string> {
+    const data = (await (await this.post(request, false)).json()) as CompletionResponse;
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== "string") throw new LLMError(`${this.name} returned no message`);
+    return content;
+  }
+
+  async *stream(request: ChatRequest): AsyncGenerator<string> {
+    const res = await this.post(request, true);
+    if (!res.body) throw new LLMError(`${this.name} returned an empty stream`);
+    for await (const data of readSse(res.body)) {
+      if (data === "[DONE]") return;
+      const text = parseEvent<CompletionChunk>(data)?.choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+}
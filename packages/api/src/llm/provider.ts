@@ -0,0 +1,74 @@
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ChatRequest {
+  system?: string;
+  messages: ChatMessage[];
+  maxTokens?: number;
+  /** Ask for a single JSON object as the reply; callers still parse it */
+  json?: boolean;
+}
+
+/**
+ * A chat model behind some HTTP API. Each provider is created for one
+ * model, so the routes never name models or read API keys themselves.
+ */
+export interface LLMProvider {
+  /** Provider kind, e.g. "openai" or "fake" */
+  readonly name: string;
+  readonly model: string;
+  complete(request: ChatRequest): Promise<string>;
+  /** The reply as it is generated, one text delta at a time */
+  stream(request: ChatRequest): AsyncIterable<string>;
+}
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status from the provider, when it answered at all */
+    readonly status?: number,
+    /** Response body from the provider */
+    readonly detail?: string,
+  ) {
+    super(message);
+    this.name = "LLMError";
+  }
+}
+
+export async function failedResponse(provider: string, res: Response): Promise<LLMError> {
+  const detail = await res.text().catch(() => "");
+  return new LLMError(`${provider} request failed (${res.status}): ${detail}`, res.status, detail);
+}
+
+/** The `data:` payloads of a server-sent event stream, in order. */
+export async function* readSse(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line.startsWith("data: ")) yield line.slice(6).trimEnd();
+      }
+    }
+    if (buffer.startsWith("data: ")) yield buffer.slice(6).trimEnd();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Stream payloads are JSON; anything else (keep-alives, comments) is skipped
+export function parseEvent<T>(data: string): T | null {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return null;
+  }
+}
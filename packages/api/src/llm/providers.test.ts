@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { OpenAIProvider } from "./openai.js";
+import { AnthropicProvider } from "./anthropic.js";
+import { FakeProvider } from "./fake.js";
+import { createProvider, createProviders } from "./config.js";
+import { LLMError, readSse } from "./provider.js";
+
+// A response body delivered in the given chunks, to exercise events split across reads
+function chunked(chunks: string[], init?: ResponseInit): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  return new Response(body, init);
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const out: string[] = [];
+  for await (const item of stream) out.push(item);
+  return out;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("readSse", () => {
+  it("yields data payloads across chunk boundaries", async () => {
+    const res = chunked(["data: one\n\nda", "ta: two\n\n: keep-alive\n\nevent: x\ndata: three"]);
+    expect(await collect(readSse(res.body!))).toEqual(["one", "two", "three"]);
+  });
+});
+
+describe("OpenAIProvider", () => {
+  it("sends a system message and JSON mode to the base URL", async () => {
+    const fetch = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      Response.json({ choices: [{ message: { content: '{"name":"Ada"}' } }] }),
+    );
+    const provider = new OpenAIProvider({ model: "llama3", baseUrl: "http://localhost:11434/v1/", apiKey: "k" });
+
+    const reply = await provider.complete({ system: "Be brief.", messages: [{ role: "user", content: "hi" }], json: true });
+
+    expect(reply).toBe('{"name":"Ada"}');
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe("http://localhost:11434/v1/chat/completions");
+    expect((init!.headers as Record<string, string>).Authorization).toBe("Bearer k");
+    expect(JSON.parse(init!.body as string)).toEqual({
+      model: "llama3",
+      response_format: { type: "json_object" },
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "hi" },
+      ],
+    });
+  });
+
+  it("streams content deltas until [DONE]", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      chunked([
+        'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n',
+        'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choices":[{"delta":{"content":"lo"}}]}\n\n',
+        "data: [DONE]\n\n",
+      ]),
+    );
+    const provider = new OpenAIProvider({ model: "gpt-4o" });
+    expect(await collect(provider.stream({ messages: [{ role: "user", content: "hi" }] }))).toEqual(["Hel", "lo"]);
+  });
+
+  it("throws an LLMError with the status and body", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("bad key", { status: 401 }));
+    const provider = new OpenAIProvider({ model: "gpt-4o" });
+    const error = await provider.complete({ messages: [] }).catch((err) => err);
+    expect(error).toBeInstanceOf(LLMError);
+    expect(error).toMatchObject({ status: 401, detail: "bad key" });
+  });
+});
+
+describe("AnthropicProvider", () => {
+  it("prefills a brace for JSON requests", async () => {
+    const fetch = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      Response.json({ content: [{ type: "text", text: '"name":"Ada"}' }] }),
+    );
+    const provider = new AnthropicProvider({ model: "claude-haiku-4-5", apiKey: "k" });
+
+    expect(await provider.complete({ messages: [{ role: "user", content: "hi" }], json: true })).toBe('{"name":"Ada"}');
+    const body = JSON.parse(fetch.mock.calls[0][1]!.body as string);
+    expect(body.messages.at(-1)).toEqual({ role: "assistant", content: "{" });
+    expect(body.max_tokens).toBe(4096);
+  });
+
+  it("streams text deltas and surfaces error events", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      chunked([
+        'data: {"type":"message_start"}\n\n',
+        'data: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Hi"}}\n\n',
+        'data: {"type":"error","error":{"message":"Overloaded"}}\n\n',
+      ]),
+    );
+    const provider = new AnthropicProvider({ model: "claude-sonnet-4-5-20250929" });
+    const seen: string[] = [];
+    const error = await (async () => {
+      for await (const text of provider.stream({ messages: [{ role: "user", content: "hi" }] })) seen.push(text);
+    })().catch((err) => err);
+
+    expect(seen).toEqual(["Hi"]);
+    expect(error.message).toContain("Overloaded");
+  });
+});
+
+describe("FakeProvider", () => {
+  it("streams its reply word by word and records requests", async () => {
+    const provider = new FakeProvider("one two  three");
+    expect(await collect(provider.stream({ messages: [{ role: "user", content: "x" }] }))).toEqual([
+      "one ",
+      "two  ",
+      "three",
+    ]);
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it("answers JSON requests with an empty object by default", async () => {
+    expect(await new FakeProvider().complete({ messages: [], json: true })).toBe("{}");
+  });
+});
+
+describe("createProviders", () => {
+  it("keeps OpenAI for summaries and Anthropic for generation by default", () => {
+    const llm = createProviders({});
+    expect([llm.summarize.name, llm.summarize.model]).toEqual(["openai", "gpt-4o-mini"]);
+    expect([llm.generate.name, llm.generate.model]).toEqual(["anthropic", "claude-sonnet-4-5-20250929"]);
+  });
+
+  it("lets each task pick its own provider and model", () => {
+    const llm = createProviders({ LLM_PROVIDER: "fake", LLM_GENERATE_PROVIDER: "openai", LLM_GENERATE_MODEL: "gpt-4.1" });
+    expect(llm.summarize.name).toBe("fake");
+    expect([llm.generate.name, llm.generate.model]).toEqual(["openai", "gpt-4.1"]);
+  });
+
+  it("needs a base URL and model for openai-compatible", () => {
+    expect(() => createProvider("generate", { LLM_PROVIDER: "openai-compatible", LLM_MODEL: "qwen" })).toThrow("LLM_BASE_URL");
+    expect(() => createProvider("generate", { LLM_PROVIDER: "openai-compatible", LLM_BASE_URL: "http://x/v1" })).toThrow(
+      "LLM_GENERATE_MODEL",
+    );
+    const provider = createProvider("generate", {
+      LLM_PROVIDER: "openai-compatible",
+      LLM_BASE_URL: "http://x/v1",
+      LLM_MODEL: "qwen",
+    });
+    expect([provider.name, provider.model]).toEqual(["openai-compatible", "qwen"]);
+  });
+
+  it("rejects unknown providers", () => {
+    expect(() => createProvider("generate", { LLM_PROVIDER: "olama" })).toThrow("Unknown LLM provider 'olama'");
+  });
+
+  it("swaps a misconfigured provider for one that rejects instead of throwing", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const llm = createProviders({ LLM_PROVIDER: "fake", LLM_GENERATE_PROVIDER: "olama" });
+    expect(llm.summarize.name).toBe("fake");
+    expect(llm.generate.name).toBe("unavailable");
+    await expect(llm.generate.complete({ messages: [] })).rejects.toThrow("Unknown LLM provider 'olama'");
+  });
+});
@@ -0,0 +1,20 @@
+import { LLMError, type ChatRequest, type LLMProvider } from "./provider.js";
+
+/**
+ * Stands in for a provider whose configuration is broken, so the rest of
+ * the API keeps working. Every request rejects with the configuration error.
+ */
+export class UnavailableProvider implements LLMProvider {
+  readonly name = "unavailable";
+  readonly model = "";
+
+  constructor(readonly error: LLMError) {}
+
+  async complete(_request: ChatRequest): Promise<string> {
+    throw this.error;
+  }
+
+  async *stream(_request: ChatRequest): AsyncGenerator<string> {
+    throw this.error;
+  }
+}
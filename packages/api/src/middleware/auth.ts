@@ -1,10 +1,17 @@
 import { createMiddleware } from "hono/factory";
 import { verify } from "hono/jwt";
+import type { Client } from "@libsql/client";
+import { hashToken, TOKEN_PREFIX, TOKEN_SCOPES, type TokenScope } from "../storage/tokens.js";
 
 export interface AuthUser {
   id: number;
   github_id: number;
   github_username: string;
+  /** Web sessions carry every scope; access tokens only those they were issued with */
+  scopes: TokenScope[];
+  via: "session" | "token";
+  /** Set when authenticated with an access token */
+  token_id?: number;
 }
 
 type AuthEnv = {
@@ -13,27 +20,80 @@ type AuthEnv = {
   };
 };
 
-export const requireAuth = createMiddleware<AuthEnv>(async (c, next) => {
-  const jwtSecret = process.env.JWT_SECRET;
-  if (!jwtSecret) {
-    return c.json({ error: "Server misconfigured: JWT_SECRET not set" }, 500);
-  }
+async function authenticateToken(db: Client, token: string): Promise<AuthUser | null> {
+  const result = await db.execute({
+    sql: `SELECT t.id, t.user_id, t.scopes, u.github_id, u.github_username
+          FROM access_tokens t JOIN users u ON t.user_id = u.id
+          WHERE t.token_hash = ? AND t.revoked_at IS NULL
+            AND (t.expires_at IS NULL OR t.expires_at > datetime('now'))`,
+    args: [hashToken(token)],
+  });
+  const row = result.rows[0];
+  if (!row) return null;
 
-  const authHeader = c.req.header("Authorization");
-  if (!authHeader?.startsWith("Bearer ")) {
-    return c.json({ error: "Authentication required" }, 401);
-  }
+  await db.execute({
+    sql: "UPDATE access_tokens SET last_used_at = datetime('now') WHERE id = ?",
+    args: [row.id],
+  });
+  return {
+    id: row.user_id as number,
+    github_id: row.github_id as number,
+    github_username: row.github_username as string,
+    scopes: JSON.parse(row.scopes as string),
+    via: "token",
+    token_id: row.id as number,
+  };
+}
 
-  const token = authHeader.slice(7);
+async function authenticateSession(token: string, jwtSecret: string): Promise<AuthUser | null> {
   try {
     const payload = await verify(token, jwtSecret, "HS256") as unknown as AuthUser;
-    c.set("user", {
+    return {
       id: payload.id,
       github_id: payload.github_id,
       github_username: payload.github_username,
-    });
-    await next();
+      scopes: [...TOKEN_SCOPES],
+      via: "session",
+    };
   } catch {
-    return c.json({ error: "Invalid or expired token" }, 401);
+    return null;
   }
-});
+}
+
+/**
+ * Accepts a web session JWT or a personal access token. With a `scope`,
+ * access tokens must have been issued with it. With `sessionOnly`, access
+ * tokens are refused outright — used for token management so a leaked
+ * token can't mint more.
+ */
+export function requireAuth(db: Client, scope?: TokenScope, opts: { sessionOnly?: boolean } = {}) {
+  return createMiddleware<AuthEnv>(async (c, next) => {
+    const jwtSecret = process.env.JWT_SECRET;
+    if (!jwtSecret) {
+      return c.json({ error: "Server misconfigured: JWT_SECRET not set" }, 500);
+    }
+
+    const authHeader = c.req.header("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return c.json({ error: "Authentication required" }, 401);
+    }
+
+    const token = authHeader.slice(7);
+    const isAccessToken = token.startsWith(TOKEN_PREFIX);
+    const user = isAccessToken
+      ? await authenticateToken(db, token)
+      : await authenticateSession(token, jwtSecret);
+    if (!user) {
+      return c.json({ error: "Invalid or expired token" }, 401);
+    }
+    if (opts.sessionOnly && user.via === "token") {
+      return c.json({ error: "This action requires signing in on the web" }, 403);
+    }
+    if (scope && !user.scopes.includes(scope)) {
+      return c.json({ error: `Token is missing the '${scope}' scope` }, 403);
+    }
+
+    c.set("user", user);
+    await next();
+  });
+}
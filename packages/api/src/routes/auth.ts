@@ -1,10 +1,28 @@
 import { Hono } from "hono";
 import { sign } from "hono/jwt";
 import type { Client } from "@libsql/client";
-import type { UserRecord } from "../storage/sqlite.js";
+import type { DeviceCodeRecord, UserRecord } from "../storage/sqlite.js";
+import { requireAuth, type AuthUser } from "../middleware/auth.js";
+import {
+  generateToken,
+  generateUserCode,
+  hashToken,
+  issueAccessToken,
+  normalizeUserCode,
+  parseScopes,
+  TOKEN_PREFIX,
+} from "../storage/tokens.js";
+
+// Device-code login (RFC 8628 style) for the CLI
+const DEVICE_CODE_TTL_MINUTES = 15;
+const DEVICE_POLL_INTERVAL = 5;
+
+function webAppUrl(): string {
+  return process.env.WEB_APP_URL ?? "https://opensoul.md";
+}
 
 export function authRoutes(db: Client) {
-  const app = new Hono();
+  const app = new Hono<{ Variables: { user: AuthUser } }>();
 
   // Redirect to GitHub OAuth authorize URL
   app.get("/github", (c) => {
@@ -81,6 +99,13 @@ export function authRoutes(db: Client) {
         sql: "UPDATE users SET github_username = ?, avatar_url = ?, last_login = datetime('now') WHERE id = ?",
         args: [ghUser.login, ghUser.avatar_url, existing.id],
       });
+      if (existing.github_username !== ghUser.login) {
+        // Keep author search working after a GitHub rename
+        await db.execute({
+          sql: "UPDATE souls_fts SET author = ? WHERE rowid IN (SELECT id FROM souls WHERE user_id = ?)",
+          args: [ghUser.login, existing.id],
+        });
+      }
       userId = existing.id;
     } else {
       const result = await db.execute({
@@ -102,8 +127,7 @@ export function authRoutes(db: Client) {
     );
 
     // Redirect to web app with auth params
-    const webAppUrl = process.env.WEB_APP_URL ?? "https://opensoul.md";
-    const callbackUrl = new URL("/auth/callback", webAppUrl);
+    const callbackUrl = new URL("/auth/callback", webAppUrl());
     callbackUrl.searchParams.set("token", token);
     callbackUrl.searchParams.set("id", String(userId));
     callbackUrl.searchParams.set("username", ghUser.login);
@@ -111,10 +135,154 @@ export function authRoutes(db: Client) {
     return c.redirect(callbackUrl.toString());
   });
 
-  // Logout (client-side token discard — stateless JWT)
-  app.post("/logout", (c) => {
+  // Logout. Sessions are stateless JWTs discarded client-side; an access
+  // token presented here is revoked so `soul logout` invalidates it.
+  app.post("/logout", async (c) => {
+    const token = c.req.header("Authorization")?.slice(7);
+    if (token?.startsWith(TOKEN_PREFIX)) {
+      await db.execute({
+        sql: "UPDATE access_tokens SET revoked_at = datetime('now') WHERE token_hash = ? AND revoked_at IS NULL",
+        args: [hashToken(token)],
+      });
+    }
     return c.json({ success: true });
   });
 
+  // Current user and how they authenticated
+  app.get("/me", requireAuth(db, "read"), async (c) => {
+    const user = c.get("user");
+    const result = await db.execute({ sql: "SELECT avatar_url FROM users WHERE id = ?", args: [user.id] });
+    return c.json({
+      id: user.id,
+      username: user.github_username,
+      avatar: (result.rows[0]?.avatar_url as string | null) ?? null,
+      via: user.via,
+      scopes: user.scopes,
+    });
+  });
+
+  // Start a device login: the CLI shows user_code and polls /device/token
+  app.post("/device/code", async (c) => {
+    const body = await c.req.json<{ name?: string; scopes?: unknown }>().catch(() => ({} as { name?: string; scopes?: unknown }));
+    const scopes = parseScopes(body.scopes);
+    if (!scopes || scopes.length === 0) {
+      return c.json({ error: "Scopes must be one or more of: read, publish, rate" }, 400);
+    }
+    const name = body.name?.trim().slice(0, 100) || "soul CLI";
+
+    const deviceCode = generateToken();
+    let userCode = generateUserCode();
+    // User codes are short; retry the rare collision with a live code
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const taken = await db.execute({ sql: "SELECT id FROM device_codes WHERE user_code = ?", args: [userCode] });
+      if (taken.rows.length === 0) break;
+      userCode = generateUserCode();
+    }
+
+    await db.execute({ sql: "DELETE FROM device_codes WHERE expires_at <= datetime('now')", args: [] });
+    await db.execute({
+      sql: `INSERT INTO device_codes (device_code_hash, user_code, name, scopes, interval, expires_at)
+            VALUES (?, ?, ?, ?, ?, datetime('now', ?))`,
+      args: [hashToken(deviceCode), userCode, name, JSON.stringify(scopes), DEVICE_POLL_INTERVAL, `+${DEVICE_CODE_TTL_MINUTES} minutes`],
+    });
+
+    const verificationUri = new URL("/device", webAppUrl());
+    const complete = new URL(verificationUri);
+    complete.searchParams.set("code", userCode);
+    return c.json({
+      device_code: deviceCode,
+      user_code: userCode,
+      verification_uri: verificationUri.toString(),
+      verification_uri_complete: complete.toString(),
+      expires_in: DEVICE_CODE_TTL_MINUTES * 60,
+      interval: DEVICE_POLL_INTERVAL,
+    });
+  });
+
+  // Poll for the access token. Errors use the RFC 8628 codes in `error`.
+  app.post("/device/token", async (c) => {
+    const body = await c.req.json<{ device_code?: string }>().catch(() => ({} as { device_code?: string }));
+    if (!body.device_code) {
+      return c.json({ error: "invalid_request" }, 400);
+    }
+
+    const result = await db.execute({
+      sql: `SELECT *, expires_at <= datetime('now') AS expired,
+              last_polled_at > datetime('now', printf('-%d seconds', interval)) AS too_fast
+            FROM device_codes WHERE device_code_hash = ?`,
+      args: [hashToken(body.device_code)],
+    });
+    const row = result.rows[0] as unknown as (DeviceCodeRecord & { expired: number; too_fast: number | null }) | undefined;
+    if (!row || row.status === "issued") {
+      return c.json({ error: "invalid_grant" }, 400);
+    }
+    if (row.expired) {
+      return c.json({ error: "expired_token" }, 400);
+    }
+    if (row.status === "denied") {
+      return c.json({ error: "access_denied" }, 400);
+    }
+    if (row.status === "pending") {
+      await db.execute({ sql: "UPDATE device_codes SET last_polled_at = datetime('now') WHERE id = ?", args: [row.id] });
+      return c.json({ error: row.too_fast ? "slow_down" : "authorization_pending" }, 400);
+    }
+
+    // Approved: issue the token exactly once
+    const claimed = await db.execute({
+      sql: "UPDATE device_codes SET status = 'issued' WHERE id = ? AND status = 'approved'",
+      args: [row.id],
+    });
+    if (claimed.rowsAffected === 0) {
+      return c.json({ error: "invalid_grant" }, 400);
+    }
+    const scopes = JSON.parse(row.scopes);
+    const { token } = await issueAccessToken(db, row.user_id!, row.name, scopes);
+    const user = await db.execute({ sql: "SELECT github_username FROM users WHERE id = ?", args: [row.user_id] });
+    return c.json({
+      access_token: token,
+      token_type: "Bearer",
+      scope: scopes.join(" "),
+      username: user.rows[0]?.github_username as string,
+    });
+  });
+
+  // Look up a pending device login for the approval page
+  app.get("/device/:userCode", requireAuth(db, undefined, { sessionOnly: true }), async (c) => {
+    const result = await db.execute({
+      sql: "SELECT * FROM device_codes WHERE user_code = ? AND status = 'pending' AND expires_at > datetime('now')",
+      args: [normalizeUserCode(c.req.param("userCode"))],
+    });
+    const row = result.rows[0] as unknown as DeviceCodeRecord | undefined;
+    if (!row) {
+      return c.json({ error: "Code not found or expired" }, 404);
+    }
+    return c.json({
+      user_code: row.user_code,
+      name: row.name,
+      scopes: JSON.parse(row.scopes) as string[],
+      expires_at: row.expires_at,
+    });
+  });
+
+  // Approve or deny a device login as the signed-in user
+  app.post("/device/approve", requireAuth(db, undefined, { sessionOnly: true }), async (c) => {
+    const user = c.get("user");
+    const body = await c.req.json<{ user_code?: string; approve?: boolean }>();
+    if (!body.user_code) {
+      return c.json({ error: "user_code is required" }, 400);
+    }
+
+    const approve = body.approve !== false;
+    const result = await db.execute({
+      sql: `UPDATE device_codes SET status = ?, user_id = ?
+            WHERE user_code = ? AND status = 'pending' AND expires_at > datetime('now')`,
+      args: [approve ? "approved" : "denied", user.id, normalizeUserCode(body.user_code)],
+    });
+    if (result.rowsAffected === 0) {
+      return c.json({ error: "Code not found or expired" }, 404);
+    }
+    return c.json({ ok: true, approved: approve });
+  });
+
   return app;
 }
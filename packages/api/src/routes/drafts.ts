@@ -0,0 +1,153 @@
+import { Hono } from "hono";
+import type { Client } from "@libsql/client";
+import { requireAuth, type AuthUser } from "../middleware/auth.js";
+import type { StorageInterface } from "../storage/local.js";
+import type { LLMProviders } from "../llm/config.js";
+import type { DraftRecord } from "../storage/sqlite.js";
+import { createDraft, draftName } from "../storage/drafts.js";
+import { MAX_CONTENT_LENGTH, MAX_PROMPT_LENGTH, createSoul, invalidContentResponse, validateContent } from "./soul.js";
+
+// Lists leave out the content; fetch a single draft for that
+function formatDraft(row: DraftRecord, withContent = true) {
+  return {
+    id: row.id,
+    name: row.name,
+    prompt: row.prompt,
+    ...(withContent ? { content: row.content } : {}),
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+function fieldError(body: { content?: unknown; prompt?: unknown }): string | null {
+  if (body.content !== undefined) {
+    if (typeof body.content !== "string") return "'content' must be a string";
+    if (body.content.length > MAX_CONTENT_LENGTH) return `Content must be under ${MAX_CONTENT_LENGTH} characters`;
+  }
+  if (body.prompt !== undefined && body.prompt !== null) {
+    if (typeof body.prompt !== "string") return "'prompt' must be a string";
+    if (body.prompt.length > MAX_PROMPT_LENGTH) return `Prompt must be under ${MAX_PROMPT_LENGTH} characters`;
+  }
+  return null;
+}
+
+// Unpublished souls, private to their author. Generation saves into these;
+// promoting one publishes it as a new soul and removes the draft.
+export function draftRoutes(db: Client, storage: StorageInterface, llm: LLMProviders) {
+  const app = new Hono<{ Variables: { user: AuthUser } }>();
+
+  async function findDraft(id: string, userId: number): Promise<DraftRecord | undefined> {
+    const result = await db.execute({
+      sql: "SELECT * FROM drafts WHERE id = ? AND user_id = ?",
+      args: [Number(id), userId],
+    });
+    return result.rows[0] as unknown as DraftRecord | undefined;
+  }
+
+  // List the current user's drafts, most recently edited first
+  app.get("/", requireAuth(db, "read"), async (c) => {
+    const user = c.get("user");
+    const result = await db.execute({
+      sql: "SELECT * FROM drafts WHERE user_id = ? ORDER BY updated_at DESC, id DESC",
+      args: [user.id],
+    });
+    return c.json({ data: (result.rows as unknown as DraftRecord[]).map((row) => formatDraft(row, false)) });
+  });
+
+  // Start a draft; content may be empty or fail validation until it's promoted
+  app.post("/", requireAuth(db, "publish"), async (c) => {
+    const user = c.get("user");
+    const body = await c.req.json<{ content?: string; prompt?: string | null }>();
+    const invalid = fieldError(body);
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
+    }
+    const draft = await createDraft(db, user.id, body.content ?? "", body.prompt?.trim() || null);
+    return c.json(formatDraft(draft), 201);
+  });
+
+  app.get("/:id", requireAuth(db, "read"), async (c) => {
+    const draft = await findDraft(c.req.param("id"), c.get("user").id);
+    if (!draft) {
+      return c.json({ error: "Draft not found" }, 404);
+    }
+    return c.json(formatDraft(draft));
+  });
+
+  // Save content and/or prompt
+  app.patch("/:id", requireAuth(db, "publish"), async (c) => {
+    const user = c.get("user");
+    const body = await c.req.json<{ content?: string; prompt?: string | null }>();
+    const invalid = fieldError(body);
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
+    }
+
+    const updates: string[] = [];
+    const args: (string | number | null)[] = [];
+    if (body.content !== undefined) {
+      updates.push("content = ?", "name = ?");
+      args.push(body.content, draftName(body.content));
+    }
+    if (body.prompt !== undefined) {
+      updates.push("prompt = ?");
+      args.push(body.prompt?.trim() || null);
+    }
+    if (updates.length === 0) {
+      return c.json({ error: "Nothing to update. Send 'content' or 'prompt'" }, 400);
+    }
+
+    const result = await db.execute({
+      sql: `UPDATE drafts SET ${updates.join(", ")}, updated_at = datetime('now') WHERE id = ? AND user_id = ?`,
+      args: [...args, Number(c.req.param("id")), user.id],
+    });
+    if (result.rowsAffected === 0) {
+      return c.json({ error: "Draft not found" }, 404);
+    }
+    return c.json(formatDraft((await findDraft(c.req.param("id"), user.id))!));
+  });
+
+  app.delete("/:id", requireAuth(db, "publish"), async (c) => {
+    const result = await db.execute({
+      sql: "DELETE FROM drafts WHERE id = ? AND user_id = ?",
+      args: [Number(c.req.param("id")), c.get("user").id],
+    });
+    if (result.rowsAffected === 0) {
+      return c.json({ error: "Draft not found" }, 404);
+    }
+    return c.json({ ok: true });
+  });
+
+  // Publish the draft as a new soul. `content` in the body is saved first,
+  // so an editor can promote without a separate save.
+  app.post("/:id/promote", requireAuth(db, "publish"), async (c) => {
+    const user = c.get("user");
+    const body = await c.req.json<{ content?: string }>().catch(() => ({}) as { content?: string });
+    const invalid = fieldError(body);
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
+    }
+    const draft = await findDraft(c.req.param("id"), user.id);
+    if (!draft) {
+      return c.json({ error: "Draft not found" }, 404);
+    }
+
+    const content = body.content ?? draft.content;
+    const validation = validateContent(content);
+    if (!validation.valid || !validation.soul) {
+      if (body.content !== undefined && body.content !== draft.content) {
+        await db.execute({
+          sql: "UPDATE drafts SET content = ?, name = ?, updated_at = datetime('now') WHERE id = ?",
+          args: [content, draftName(content), draft.id],
+        });
+      }
+      return invalidContentResponse(c, validation.diagnostics);
+    }
+
+    const published = await createSoul(db, storage, llm.summarize, user.id, validation.soul);
+    await db.execute({ sql: "DELETE FROM drafts WHERE id = ?", args: [draft.id] });
+    return c.json(published, 201);
+  });
+
+  return app;
+}
@@ -3,9 +3,39 @@ import type { Context } from "hono";
 import type { Client } from "@libsql/client";
 import { createHash } from "node:crypto";
 import { nanoid } from "nanoid";
+import {
+  validateSoulFile,
+  parseSoulFile,
+  titleName,
+  diffSouls,
+  exportSoul,
+  isExportFormat,
+  EXPORT_FORMATS,
+  importSoul,
+  isImportFormat,
+  IMPORT_FORMATS,
+  ImportError,
+  normalizeTags,
+  MAX_TAGS,
+  type LintOptions,
+  type SoulDiagnostic,
+  type SoulFile,
+} from "@opensoul/core";
 import type { StorageInterface } from "../storage/local.js";
-import type { SoulWithAuthor, SoulRecord } from "../storage/sqlite.js";
+import { LLMError, type ChatRequest, type LLMProvider } from "../llm/provider.js";
+import { UnavailableProvider } from "../llm/unavailable.js";
+import type { LLMProviders } from "../llm/config.js";
+import type { SoulWithAuthor, SoulRecord, SoulVersionRecord } from "../storage/sqlite.js";
 import { generateLabel } from "../storage/sqlite.js";
+import { createDraft } from "../storage/drafts.js";
+import {
+  SEARCH_RANK,
+  SEARCH_SNIPPET,
+  indexSoul,
+  reindexSoulMetadata,
+  removeSoulFromIndex,
+  toFtsQuery,
+} from "../storage/search.js";
 import { requireAuth } from "../middleware/auth.js";
 
 const SOUL_SELECT = "SELECT s.*, u.github_username as author FROM souls s JOIN users u ON s.user_id = u.id";
@@ -14,51 +44,160 @@ function contentHash(content: string): string {
   return createHash("sha256").update(content).digest("hex");
 }
 
-function fallbackName(content: string): string {
-  const headingMatch = content.match(/^#\s+(.+)$/m);
-  if (headingMatch) return headingMatch[1].replace(/^SOUL\.md\s*[-–—]\s*/i, "").trim();
-  const firstLine = content.trim().split("\n")[0]?.trim();
-  if (firstLine && firstLine.length <= 60) return firstLine;
-  return `soul-${contentHash(content).slice(0, 8)}`;
+// Name and description from the soul itself, for when summarization is unavailable
+function fallbackMetadata(soul: SoulFile): { name: string; description: string } {
+  // The tagline's last paragraph is the italic one-liner; any before it is an untitled soul's name
+  const tagline = soul.tagline?.split(/\n\s*\n/).at(-1)?.replace(/^[_*]+|[_*]+$/g, "").trim() ?? "";
+  const description = tagline.length <= 200 ? tagline : "";
+  const name = titleName(soul);
+  if (name) return { name, description };
+  const firstLine = soul.raw.trim().split("\n")[0]?.trim();
+  if (firstLine && firstLine.length <= 60) {
+    return { name: firstLine, description: description === firstLine ? "" : description };
+  }
+  return { name: `soul-${contentHash(soul.raw).slice(0, 8)}`, description };
 }
 
-async function summarize(content: string): Promise<{ name: string; description: string }> {
+const SUMMARIZE_SYSTEM_PROMPT =
+  'You analyze AI persona definitions. Respond with JSON: {"name": "short memorable name, 2-4 words, title case", "description": "single sentence summary, max 80 chars, punchy and specific"}';
+
+async function summarize(llm: LLMProvider, soul: SoulFile): Promise<{ name: string; description: string }> {
   try {
-    const res = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        response_format: { type: "json_object" },
-        messages: [
-          {
-            role: "system",
-            content:
-              'You analyze AI persona definitions. Respond with JSON: {"name": "short memorable name, 2-4 words, title case", "description": "single sentence summary, max 80 chars, punchy and specific"}',
-          },
-          {
-            role: "user",
-            content,
-          },
-        ],
-      }),
+    const reply = await llm.complete({
+      system: SUMMARIZE_SYSTEM_PROMPT,
+      messages: [{ role: "user", content: soul.raw }],
+      json: true,
     });
-    const data = (await res.json()) as {
-      choices: { message: { content: string } }[];
-    };
-    const parsed = JSON.parse(data.choices[0].message.content) as {
-      name: string;
-      description: string;
-    };
+    const parsed = JSON.parse(reply) as { name?: unknown; description?: unknown };
+    if (typeof parsed.name !== "string" || !parsed.name.trim() || typeof parsed.description !== "string") {
+      return fallbackMetadata(soul);
+    }
     return { name: parsed.name, description: parsed.description };
   } catch {
-    return { name: fallbackName(content), description: "" };
+    return fallbackMetadata(soul);
+  }
+}
+
+// Upper bound on stored SOUL.md size. Enforced through the linter's
+// max-length rule so oversized uploads are reported like any other problem.
+export const MAX_CONTENT_LENGTH = 50_000;
+
+const UPLOAD_LINT_OPTIONS: LintOptions = {
+  rules: {
+    "max-length": { severity: "error", max: MAX_CONTENT_LENGTH },
+  },
+};
+
+export function validateContent(content: string) {
+  return validateSoulFile(content, UPLOAD_LINT_OPTIONS);
+}
+
+// Uploads may be a persona in another tool's format (`format` in the body),
+// converted to a SOUL.md before validation
+function importContent(content: string, format: string | undefined): { content: string } | { error: string } {
+  if (format === undefined || format === "soul") return { content };
+  if (!isImportFormat(format)) {
+    return { error: `Unknown format '${format}'. Use one of: soul, ${Object.keys(IMPORT_FORMATS).join(", ")}` };
+  }
+  try {
+    return { content: importSoul(content, format).content };
+  } catch (err) {
+    if (err instanceof ImportError) return { error: err.message };
+    throw err;
   }
 }
 
+export function invalidContentResponse(c: Context, diagnostics: SoulDiagnostic[]) {
+  const errors = diagnostics.filter((d) => d.severity === "error").length;
+  return c.json({ error: `SOUL.md has ${errors} error(s)`, diagnostics }, 422);
+}
+
+function frontmatterString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+// Metadata declared in frontmatter; absent keys stay undefined so callers
+// can fall back to summarization or leave existing values alone.
+function frontmatterMetadata(soul: SoulFile): {
+  name?: string;
+  description?: string;
+  tags?: string[];
+  license?: string;
+} {
+  const fm = soul.frontmatter;
+  let tags: string[] | undefined;
+  if (Array.isArray(fm.tags)) {
+    tags = normalizeTags(fm.tags.filter((t): t is string => typeof t === "string")).slice(0, MAX_TAGS);
+  } else if (typeof fm.tags === "string") {
+    tags = normalizeTags((fm.tags as string).split(",")).slice(0, MAX_TAGS);
+  }
+  return {
+    name: frontmatterString(fm.name),
+    description: frontmatterString(fm.description),
+    tags,
+    license: frontmatterString(fm.license),
+  };
+}
+
+// Uploads can name the soul they remix with `forked_from` (a slug or label)
+// in frontmatter. One that isn't in the registry is ignored.
+async function declaredParent(db: Client, soul: SoulFile): Promise<SoulRecord | undefined> {
+  const ref = frontmatterString(soul.frontmatter.forked_from);
+  if (!ref) return undefined;
+  const result = await db.execute({ sql: "SELECT * FROM souls WHERE slug = ? OR label = ?", args: [ref, ref] });
+  return result.rows[0] as unknown as SoulRecord | undefined;
+}
+
+/** A soul copied as-is into a new one, and the name to give the copy. */
+export interface ForkOf {
+  parent: SoulRecord;
+  name?: string;
+}
+
+// Publish validated content as a new soul at version 1. Name and
+// description come from frontmatter, else from the summarizer. A fork
+// keeps its parent's metadata wherever the frontmatter is silent.
+export async function createSoul(
+  db: Client,
+  storage: StorageInterface,
+  summarizer: LLMProvider,
+  userId: number,
+  soul: SoulFile,
+  fork?: ForkOf,
+): Promise<{ slug: string; label: string; name: string; hash: string; version: number }> {
+  const meta = frontmatterMetadata(soul);
+  const copied = fork?.parent;
+  let name = fork?.name ?? meta.name ?? copied?.name;
+  let description = meta.description ?? (copied ? copied.description ?? "" : undefined);
+  const tags = meta.tags ?? (copied ? (JSON.parse(copied.tags) as string[]) : []);
+  const license = meta.license ?? copied?.license ?? null;
+  const parent = copied ?? (await declaredParent(db, soul));
+  if (!name || description === undefined) {
+    const summary = await summarize(summarizer, soul);
+    name ??= summary.name;
+    description ??= summary.description;
+  }
+  const slug = nanoid(8);
+  const label = await generateLabel(db, name);
+  const content = soul.raw;
+  const hash = contentHash(content);
+
+  await storage.saveSoul(slug, content);
+
+  const inserted = await db.execute({
+    sql: "INSERT INTO souls (slug, label, name, user_id, description, tags, license, forked_from) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+    args: [slug, label, name, userId, description, JSON.stringify(tags), license, parent?.id ?? null],
+  });
+  const soulId = Number(inserted.lastInsertRowid!);
+  await storage.saveSoulVersion(slug, 1, content);
+  await db.execute({
+    sql: "INSERT INTO soul_versions (soul_id, version, hash, user_id, changelog) VALUES (?, 1, ?, ?, ?)",
+    args: [soulId, hash, userId, parent ? `Forked from ${parent.label}` : null],
+  });
+  await indexSoul(db, soulId, content);
+  return { slug, label, name, hash, version: 1 };
+}
+
 function parseSoulRow(row: Record<string, unknown>) {
   return {
     ...row,
@@ -130,66 +269,82 @@ _[Final one-liner in italics — memorable, encapsulates the whole soul]_
 - Aim for 800-1200 words. Dense with personality but not bloated. Every paragraph should earn its place.
 - No em dashes. Use periods, commas, or break into separate sentences.`;
 
-function streamGenerateSoul(c: Context, prompt: string): Response {
-  const upstream = fetch("https://api.anthropic.com/v1/messages", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-api-key": process.env.ANTHROPIC_API_KEY!,
-      "anthropic-version": "2023-06-01",
-    },
-    body: JSON.stringify({
-      model: "claude-sonnet-4-5-20250929",
-      max_tokens: 4096,
-      stream: true,
-      system: GENERATE_SYSTEM_PROMPT,
-      messages: [{ role: "user", content: prompt }],
-    }),
-  });
+const REFINE_SYSTEM_PROMPT = `You revise SOUL.md files, documents that define who an AI is. You get the current soul and one instruction from its author.
+
+Apply the instruction and nothing else. Keep every section, heading, sentence and turn of phrase the instruction doesn't touch exactly as it is. Match the soul's existing voice in anything you add or rewrite. If the instruction asks for something new, put it in the section where it fits best, or add a section in the same style as the others.
+
+Output ONLY the complete revised document as raw Markdown, starting with its "# " title. No frontmatter, no code fences, no preamble, no commentary, no summary of what you changed.
+
+No em dashes. Use periods, commas, or break into separate sentences.`;
+
+export const MAX_PROMPT_LENGTH = 2000;
+
+// How far back /lineage walks
+const MAX_LINEAGE_DEPTH = 50;
 
+// The YAML block at the top of a SOUL.md, closing fence included
+const FRONTMATTER_BLOCK = /^---\r?\n[\s\S]*?\r?\n---\r?\n/;
+
+interface SectionSummary {
+  type: "added" | "removed" | "modified" | "renamed";
+  heading: string;
+  /** Previous heading of a renamed section */
+  from?: string;
+}
+
+// What a refinement changed, one entry per section, for clients to show
+// once the revised soul has streamed
+function summarizeChanges(before: string, after: string): SectionSummary[] | null {
+  try {
+    return diffSouls(parseSoulFile(before), parseSoulFile(after)).sections.map((change) =>
+      change.type === "renamed"
+        ? { type: change.type, heading: change.to, from: change.from }
+        : { type: change.type, heading: change.heading },
+    );
+  } catch {
+    return null;
+  }
+}
+
+interface SoulStreamOptions {
+  /** Text sent before the provider's reply, e.g. frontmatter the model never sees */
+  prefix?: string;
+  /** Extra fields for a final event before `[DONE]`, given the full streamed text */
+  finish?: (text: string) => Record<string, unknown> | null | Promise<Record<string, unknown> | null>;
+}
+
+// Relays the provider's text deltas as `data: {"text": ...}` events, ending
+// with `data: [DONE]`; a failure becomes a single `data: {"error": ...}` event
+function streamSoul(c: Context, llm: LLMProvider, request: ChatRequest, options: SoulStreamOptions = {}): Response {
+  if (llm instanceof UnavailableProvider) {
+    return c.json({ error: "Generation is not available right now" }, 503);
+  }
   const { readable, writable } = new TransformStream();
   const writer = writable.getWriter();
   const encoder = new TextEncoder();
+  const send = (data: unknown) => writer.write(encoder.encode(`data: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`));
 
-  upstream.then(async (res) => {
-    if (!res.ok || !res.body) {
-      const body = await res.text().catch(() => "");
-      const msg = `Generation failed (${res.status}): ${body}`;
-      await writer.write(encoder.encode(`data: ${JSON.stringify({ error: msg })}\n\n`));
-      await writer.close();
-      return;
-    }
-    const reader = res.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = "";
+  (async () => {
+    let streamed = options.prefix ?? "";
     try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() ?? "";
-        for (const line of lines) {
-          if (!line.startsWith("data: ")) continue;
-          const json = line.slice(6);
-          if (json === "[DONE]") continue;
-          try {
-            const event = JSON.parse(json) as { type: string; delta?: { type: string; text: string } };
-            if (event.type === "content_block_delta" && event.delta?.text) {
-              await writer.write(encoder.encode(`data: ${JSON.stringify({ text: event.delta.text })}\n\n`));
-            }
-          } catch { /* skip unparseable lines */ }
-        }
+      if (options.prefix) await send({ text: options.prefix });
+      for await (const text of llm.stream(request)) {
+        streamed += text;
+        await send({ text });
       }
+      const extra = await options.finish?.(streamed);
+      if (extra) await send(extra);
+      await send("[DONE]");
+    } catch (err) {
+      const msg =
+        err instanceof LLMError && err.status !== undefined
+          ? `Generation failed (${err.status}): ${err.detail ?? ""}`
+          : err instanceof Error ? err.message : "Generation failed";
+      await send({ error: msg });
     } finally {
-      await writer.write(encoder.encode("data: [DONE]\n\n"));
       await writer.close();
     }
-  }).catch(async (err) => {
-    const msg = err instanceof Error ? err.message : "Generation failed";
-    await writer.write(encoder.encode(`data: ${JSON.stringify({ error: msg })}\n\n`));
-    await writer.close();
-  });
+  })();
 
   c.header("Content-Type", "text/event-stream");
   c.header("Cache-Control", "no-cache");
@@ -197,43 +352,212 @@ function streamGenerateSoul(c: Context, prompt: string): Response {
   return c.body(readable);
 }
 
-export function soulRoutes(db: Client, storage: StorageInterface) {
+// Streams a revised soul. The model sees only the body; the original
+// frontmatter is sent first as-is so registry metadata can't drift.
+function streamRefinedSoul(c: Context, llm: LLMProvider, content: string, instruction: string): Response {
+  const frontmatter = content.match(FRONTMATTER_BLOCK)?.[0] ?? "";
+  const body = content.slice(frontmatter.length).trim();
+  return streamSoul(
+    c,
+    llm,
+    {
+      system: REFINE_SYSTEM_PROMPT,
+      messages: [{ role: "user", content: `<soul>\n${body}\n</soul>\n\nInstruction: ${instruction}` }],
+      maxTokens: 4096,
+    },
+    {
+      prefix: frontmatter,
+      finish: (revised) => {
+        const summary = summarizeChanges(content, revised);
+        return summary ? { summary } : null;
+      },
+    },
+  );
+}
+
+// Refinements take an instruction the same size as a generate prompt
+function instructionError(instruction: unknown): string | null {
+  if (typeof instruction !== "string" || !instruction.trim()) return "Instruction is required";
+  if (instruction.length > MAX_PROMPT_LENGTH) return `Instruction must be under ${MAX_PROMPT_LENGTH} characters`;
+  return null;
+}
+
+export function soulRoutes(db: Client, storage: StorageInterface, llm: LLMProviders) {
   const app = new Hono();
 
+  // Append an immutable version to a soul's history. Souls created before
+  // version history existed get their current content recorded as version 1
+  // first, so the first edit never loses the original. Saving content that
+  // matches the latest version is a no-op.
+  async function recordVersion(
+    soul: { id: number; slug: string; user_id: number; created_at: string },
+    content: string,
+    userId: number,
+    changelog: string | null,
+  ): Promise<{ version: number; hash: string }> {
+    const hash = contentHash(content);
+    const latestResult = await db.execute({
+      sql: "SELECT version, hash FROM soul_versions WHERE soul_id = ? ORDER BY version DESC LIMIT 1",
+      args: [soul.id],
+    });
+    const latest = latestResult.rows[0] as unknown as Pick<SoulVersionRecord, "version" | "hash"> | undefined;
+    if (latest?.hash === hash) {
+      return { version: Number(latest.version), hash };
+    }
+
+    let version = latest ? Number(latest.version) : 0;
+    if (!latest) {
+      const existing = await storage.getSoul(soul.slug);
+      if (existing !== null && existing !== content) {
+        version = 1;
+        await storage.saveSoulVersion(soul.slug, version, existing);
+        await db.execute({
+          sql: "INSERT INTO soul_versions (soul_id, version, hash, user_id, changelog, created_at) VALUES (?, ?, ?, ?, NULL, ?)",
+          args: [soul.id, version, contentHash(existing), soul.user_id, soul.created_at],
+        });
+      }
+    }
+
+    version += 1;
+    await storage.saveSoulVersion(soul.slug, version, content);
+    await db.execute({
+      sql: "INSERT INTO soul_versions (soul_id, version, hash, user_id, changelog) VALUES (?, ?, ?, ?, ?)",
+      args: [soul.id, version, hash, userId, changelog],
+    });
+    return { version, hash };
+  }
+
+  // Update the soul row and search index for content that was just saved.
+  // Frontmatter wins over stored metadata when present; the label is left
+  // alone so existing `soul possess <label>` references keep working.
+  async function syncContentMetadata(soulId: number, soul: SoulFile): Promise<void> {
+    const meta = frontmatterMetadata(soul);
+    const updates = ["updated_at = datetime('now')"];
+    const args: (string | number)[] = [];
+    if (meta.name) {
+      updates.push("name = ?");
+      args.push(meta.name);
+    }
+    if (meta.description !== undefined) {
+      updates.push("description = ?");
+      args.push(meta.description);
+    }
+    if (meta.tags) {
+      updates.push("tags = ?");
+      args.push(JSON.stringify(meta.tags));
+    }
+    if (meta.license) {
+      updates.push("license = ?");
+      args.push(meta.license);
+    }
+    await db.execute({
+      sql: `UPDATE souls SET ${updates.join(", ")} WHERE id = ?`,
+      args: [...args, soulId],
+    });
+    await indexSoul(db, soulId, soul.raw);
+  }
+
+  // Hash of the soul's current content, as the CLI computes it for its cache.
+  // Souls from before version history have no version rows, so hash their content.
+  async function currentHash(soul: { id: number; slug: string }): Promise<string | null> {
+    const latest = await db.execute({
+      sql: "SELECT hash FROM soul_versions WHERE soul_id = ? ORDER BY version DESC LIMIT 1",
+      args: [soul.id],
+    });
+    if (latest.rows[0]) return latest.rows[0].hash as string;
+    const content = await storage.getSoul(soul.slug).catch(() => null);
+    return content === null ? null : contentHash(content);
+  }
+
+  // Enough of a soul to link to it, for lineage
+  async function soulSummary(id: number) {
+    const result = await db.execute({
+      sql: "SELECT s.slug, s.label, s.name, u.github_username as author FROM souls s JOIN users u ON s.user_id = u.id WHERE s.id = ?",
+      args: [id],
+    });
+    return result.rows[0] as unknown as Pick<SoulWithAuthor, "slug" | "label" | "name" | "author"> | undefined;
+  }
+
   // Generate soul from prompt (requires auth, streaming)
-  app.post("/generate", requireAuth, async (c) => {
+  app.post("/generate", requireAuth(db, "publish"), async (c) => {
     const body = await c.req.json<{ prompt: string }>();
     if (!body.prompt || !body.prompt.trim()) {
       return c.json({ error: "Prompt is required" }, 400);
     }
-    if (body.prompt.length > 2000) {
-      return c.json({ error: "Prompt must be under 2000 characters" }, 400);
+    if (body.prompt.length > MAX_PROMPT_LENGTH) {
+      return c.json({ error: `Prompt must be under ${MAX_PROMPT_LENGTH} characters` }, 400);
+    }
+    const user = c.get("user");
+    return streamSoul(
+      c,
+      llm.generate,
+      {
+        system: GENERATE_SYSTEM_PROMPT,
+        messages: [{ role: "user", content: body.prompt }],
+        maxTokens: 4096,
+      },
+      {
+        // Saved as a draft so the result survives a closed tab
+        finish: async (content) => {
+          const draft = await createDraft(db, user.id, content, body.prompt);
+          return { draft: { id: draft.id } };
+        },
+      },
+    );
+  });
+
+  // Revise unsaved content with an instruction (requires auth, streaming)
+  app.post("/refine", requireAuth(db, "publish"), async (c) => {
+    const body = await c.req.json<{ content?: string; instruction?: string }>();
+    if (typeof body.content !== "string" || !body.content.trim()) {
+      return c.json({ error: "Missing 'content' field" }, 400);
+    }
+    if (body.content.length > MAX_CONTENT_LENGTH) {
+      return c.json({ error: `Content must be under ${MAX_CONTENT_LENGTH} characters` }, 400);
+    }
+    const invalid = instructionError(body.instruction);
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
     }
-    return streamGenerateSoul(c, body.prompt);
+    return streamRefinedSoul(c, llm.generate, body.content, body.instruction!);
   });
 
   // List/search souls (public)
   app.get("/", async (c) => {
-    const tag = c.req.query("tag");
+    // ?tag=a,b or ?tag=a&tag=b; match=any switches from AND to OR
+    const tags = normalizeTags((c.req.queries("tag") ?? []).flatMap((t) => t.split(",")));
+    const matchAny = c.req.query("match") === "any";
     const search = c.req.query("search");
     const sort = c.req.query("sort");
     const page = Math.max(1, parseInt(c.req.query("page") ?? "1", 10));
     const limit = Math.min(100, Math.max(1, parseInt(c.req.query("limit") ?? "20", 10)));
     const offset = (page - 1) * limit;
 
-    let whereClause = "";
+    const conditions: string[] = [];
     const params: (string | number)[] = [];
 
-    if (tag) {
-      whereClause = " WHERE s.tags LIKE ?";
-      params.push(`%"${tag}"%`);
+    if (tags.length > 0) {
+      const tagConditions = tags.map(() => "EXISTS (SELECT 1 FROM json_each(s.tags) WHERE value = ?)");
+      conditions.push(`(${tagConditions.join(matchAny ? " OR " : " AND ")})`);
+      params.push(...tags);
+    }
+    // Full-text matches join the FTS index so rank and snippet are available
+    const ftsQuery = search ? toFtsQuery(search) : null;
+    const ftsJoin = ftsQuery ? " JOIN souls_fts ON souls_fts.rowid = s.id" : "";
+    if (ftsQuery) {
+      conditions.push("souls_fts MATCH ?");
+      params.push(ftsQuery);
     } else if (search) {
-      whereClause = " WHERE s.name LIKE ? OR s.description LIKE ? OR u.github_username LIKE ?";
-      params.push(`%${search}%`, `%${search}%`, `%${search}%`);
+      return c.json({ data: [], pagination: { page, limit, total: 0, totalPages: 0 } });
     }
 
+    const whereClause = conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+
     let orderClause = " ORDER BY s.updated_at DESC";
-    if (sort === "top") {
+    if (sort === "relevance" && ftsQuery) {
+      // bm25 scores are negative; lower is a better match
+      orderClause = ` ORDER BY ${SEARCH_RANK} ASC`;
+    } else if (sort === "top") {
       // Weighted score: rating quality + engagement + popularity
       // log1p smooths download/rating counts so outliers don't dominate
       orderClause = " ORDER BY (s.rating_avg * 0.5 + LOG(1 + s.rating_count) * 0.3 + LOG(1 + s.downloads_count) * 0.2) DESC";
@@ -242,12 +566,15 @@ export function soulRoutes(db: Client, storage: StorageInterface) {
     }
 
     const countResult = await db.execute({
-      sql: `SELECT COUNT(*) as total FROM souls s JOIN users u ON s.user_id = u.id${whereClause}`,
+      sql: `SELECT COUNT(*) as total FROM souls s JOIN users u ON s.user_id = u.id${ftsJoin}${whereClause}`,
       args: params,
     });
     const total = Number(countResult.rows[0].total);
 
-    const query = `${SOUL_SELECT}${whereClause}${orderClause} LIMIT ? OFFSET ?`;
+    const select = ftsQuery
+      ? `SELECT s.*, u.github_username as author, ${SEARCH_SNIPPET} as snippet FROM souls s JOIN users u ON s.user_id = u.id${ftsJoin}`
+      : SOUL_SELECT;
+    const query = `${select}${whereClause}${orderClause} LIMIT ? OFFSET ?`;
     const result = await db.execute({ sql: query, args: [...params, limit, offset] });
 
     return c.json({
@@ -275,7 +602,15 @@ export function soulRoutes(db: Client, storage: StorageInterface) {
       return c.json({ error: "Soul not found" }, 404);
     }
 
-    return c.json(parseSoulRow(soul as unknown as Record<string, unknown>));
+    const parent = soul.forked_from === null ? undefined : await soulSummary(soul.forked_from);
+    const forks = await db.execute({ sql: "SELECT COUNT(*) as total FROM souls WHERE forked_from = ?", args: [soul.id] });
+
+    return c.json({
+      ...parseSoulRow(soul as unknown as Record<string, unknown>),
+      hash: await currentHash(soul),
+      parent: parent ?? null,
+      forks_count: Number(forks.rows[0].total),
+    });
   });
 
   // Get soul content (public) — accepts slug (nanoid) or label
@@ -301,7 +636,35 @@ export function soulRoutes(db: Client, storage: StorageInterface) {
       return c.json({ error: "Soul content not found" }, 404);
     }
 
-    return c.text(content);
+    // ?format= converts the soul for other tools; the default is the SOUL.md itself
+    const format = c.req.query("format");
+    if (format !== undefined && format !== "soul" && !isExportFormat(format)) {
+      return c.json({ error: `Unknown format '${format}'. Use one of: soul, ${Object.keys(EXPORT_FORMATS).join(", ")}` }, 400);
+    }
+    const exported = format === undefined || format === "soul" ? null : format;
+
+    // Content stored before upload validation may not parse
+    let parsed: SoulFile | null = null;
+    if (exported) {
+      try {
+        parsed = parseSoulFile(content);
+      } catch {
+        return c.json({ error: "This soul's content can't be parsed for export" }, 422);
+      }
+    }
+
+    // Lets the CLI re-check a cached soul without downloading it again
+    const hash = contentHash(content);
+    const etag = exported ? `"${hash}-${exported}"` : `"${hash}"`;
+    c.header("ETag", etag);
+    if (c.req.header("If-None-Match")?.split(/\s*,\s*/).includes(etag)) {
+      return c.body(null, 304);
+    }
+    if (!exported) {
+      return c.text(content);
+    }
+    c.header("Content-Type", EXPORT_FORMATS[exported].contentType);
+    return c.body(exportSoul(parsed!, exported));
   });
 
   // Track a download (public)
@@ -314,39 +677,95 @@ export function soulRoutes(db: Client, storage: StorageInterface) {
     return c.json({ ok: true });
   });
 
+  // Revise a published soul with an instruction (requires auth, streaming).
+  // Nothing is saved; the client publishes the result as a new version if it wants to.
+  app.post("/:slug/refine", requireAuth(db, "publish"), async (c) => {
+    const slug = c.req.param("slug");
+    const body = await c.req.json<{ instruction?: string }>();
+    const invalid = instructionError(body.instruction);
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
+    }
+    const result = await db.execute({
+      sql: "SELECT slug FROM souls WHERE slug = ? OR label = ?",
+      args: [slug, slug],
+    });
+    const soul = result.rows[0] as unknown as { slug: string } | undefined;
+    if (!soul) {
+      return c.json({ error: "Soul not found" }, 404);
+    }
+
+    let content: string | null;
+    try {
+      content = await storage.getSoul(soul.slug);
+    } catch {
+      return c.json({ error: "Storage temporarily unavailable" }, 503);
+    }
+    if (!content) {
+      return c.json({ error: "Soul content not found" }, 404);
+    }
+    return streamRefinedSoul(c, llm.generate, content, body.instruction!);
+  });
+
+  // Validate content without saving (public) — lets editors show the same diagnostics as upload
+  app.post("/validate", async (c) => {
+    const body = await c.req.json<{ content: string; format?: string }>();
+    if (typeof body.content !== "string") {
+      return c.json({ error: "Missing 'content' field" }, 400);
+    }
+    const imported = importContent(body.content, body.format);
+    if ("error" in imported) {
+      return c.json({ error: imported.error }, 400);
+    }
+    const { valid, diagnostics } = validateContent(imported.content);
+    // Converted uploads echo the SOUL.md so the diagnostics' line numbers mean something
+    return imported.content === body.content
+      ? c.json({ valid, diagnostics })
+      : c.json({ valid, diagnostics, content: imported.content });
+  });
+
   // Upload new soul (requires auth)
-  app.post("/", requireAuth, async (c) => {
+  app.post("/", requireAuth(db, "publish"), async (c) => {
     const user = c.get("user");
-    const body = await c.req.json<{ content: string }>();
+    const body = await c.req.json<{ content: string; format?: string }>();
     if (!body.content) {
       return c.json({ error: "Missing 'content' field" }, 400);
     }
+    const imported = importContent(body.content, body.format);
+    if ("error" in imported) {
+      return c.json({ error: imported.error }, 400);
+    }
+    const content = imported.content;
 
-    const { name, description } = await summarize(body.content);
-    const slug = nanoid(8);
-    const label = await generateLabel(db, name);
-    const hash = contentHash(body.content);
-
-    await storage.saveSoul(slug, body.content);
-
-    await db.execute({
-      sql: "INSERT INTO souls (slug, label, name, user_id, description, tags) VALUES (?, ?, ?, ?, ?, ?)",
-      args: [slug, label, name, user.id, description, "[]"],
-    });
+    const validation = validateContent(content);
+    if (!validation.valid || !validation.soul) {
+      return invalidContentResponse(c, validation.diagnostics);
+    }
 
-    return c.json({ slug, label, name, hash }, 201);
+    return c.json(await createSoul(db, storage, llm.summarize, user.id, validation.soul), 201);
   });
 
   // Update soul name/description (requires auth + ownership)
-  app.patch("/:slug", requireAuth, async (c) => {
+  app.patch("/:slug", requireAuth(db, "publish"), async (c) => {
     const slug = c.req.param("slug");
     const user = c.get("user");
-    const body = await c.req.json<{ name?: string; description?: string; label?: string }>();
+    const body = await c.req.json<{ name?: string; description?: string; label?: string; tags?: string[] }>();
 
-    if (!body.name && !body.description && !body.label) {
+    if (!body.name && !body.description && !body.label && body.tags === undefined) {
       return c.json({ error: "Nothing to update" }, 400);
     }
 
+    let tags: string[] | undefined;
+    if (body.tags !== undefined) {
+      if (!Array.isArray(body.tags) || !body.tags.every((t) => typeof t === "string")) {
+        return c.json({ error: "Tags must be an array of strings" }, 400);
+      }
+      tags = normalizeTags(body.tags);
+      if (tags.length > MAX_TAGS) {
+        return c.json({ error: `A soul can have at most ${MAX_TAGS} tags` }, 400);
+      }
+    }
+
     const result = await db.execute({
       sql: `${SOUL_SELECT} WHERE s.slug = ? OR s.label = ?`,
       args: [slug, slug],
@@ -389,6 +808,11 @@ export function soulRoutes(db: Client, storage: StorageInterface) {
       args.push(body.description);
     }
 
+    if (tags) {
+      updates.push("tags = ?");
+      args.push(JSON.stringify(tags));
+    }
+
     updates.push("updated_at = datetime('now')");
     args.push(soul.id as number);
 
@@ -396,6 +820,7 @@ export function soulRoutes(db: Client, storage: StorageInterface) {
       sql: `UPDATE souls SET ${updates.join(", ")} WHERE id = ?`,
       args,
     });
+    await reindexSoulMetadata(db, soul.id as number);
 
     const updated = await db.execute({
       sql: `${SOUL_SELECT} WHERE s.id = ?`,
@@ -406,10 +831,10 @@ export function soulRoutes(db: Client, storage: StorageInterface) {
   });
 
   // Update soul content (requires auth + ownership)
-  app.put("/:slug/content", requireAuth, async (c) => {
+  app.put("/:slug/content", requireAuth(db, "publish"), async (c) => {
     const slug = c.req.param("slug");
     const user = c.get("user");
-    const body = await c.req.json<{ content: string }>();
+    const body = await c.req.json<{ content: string; changelog?: string }>();
 
     if (!body.content) {
       return c.json({ error: "Missing 'content' field" }, 400);
@@ -429,17 +854,292 @@ export function soulRoutes(db: Client, storage: StorageInterface) {
       return c.json({ error: "Forbidden" }, 403);
     }
 
+    const validation = validateContent(body.content);
+    if (!validation.valid || !validation.soul) {
+      return invalidContentResponse(c, validation.diagnostics);
+    }
+
+    const { version, hash } = await recordVersion(soul, body.content, user.id, body.changelog?.trim() || null);
     await storage.saveSoul(soul.slug as string, body.content);
-    await db.execute({
-      sql: "UPDATE souls SET updated_at = datetime('now') WHERE id = ?",
+
+    await syncContentMetadata(soul.id as number, validation.soul);
+
+    return c.json({ ok: true, version, hash });
+  });
+
+  // List content versions, newest first (public)
+  app.get("/:slug/versions", async (c) => {
+    const slug = c.req.param("slug");
+    const page = Math.max(1, parseInt(c.req.query("page") ?? "1", 10));
+    const limit = Math.min(100, Math.max(1, parseInt(c.req.query("limit") ?? "20", 10)));
+    const offset = (page - 1) * limit;
+
+    const soulResult = await db.execute({
+      sql: "SELECT id FROM souls WHERE slug = ? OR label = ?",
+      args: [slug, slug],
+    });
+    const soul = soulResult.rows[0] as unknown as { id: number } | undefined;
+    if (!soul) {
+      return c.json({ error: "Soul not found" }, 404);
+    }
+
+    const countResult = await db.execute({
+      sql: "SELECT COUNT(*) as total FROM soul_versions WHERE soul_id = ?",
       args: [soul.id],
     });
+    const total = Number(countResult.rows[0].total);
 
-    return c.json({ ok: true });
+    const result = await db.execute({
+      sql: "SELECT v.version, v.hash, v.changelog, v.created_at, u.github_username as author FROM soul_versions v JOIN users u ON v.user_id = u.id WHERE v.soul_id = ? ORDER BY v.version DESC LIMIT ? OFFSET ?",
+      args: [soul.id, limit, offset],
+    });
+
+    return c.json({
+      data: result.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  });
+
+  // Get the content of a specific version (public)
+  app.get("/:slug/versions/:version/content", async (c) => {
+    const slug = c.req.param("slug");
+    const version = parseInt(c.req.param("version"), 10);
+    if (!Number.isInteger(version) || version < 1) {
+      return c.json({ error: "Version must be a positive integer" }, 400);
+    }
+
+    const result = await db.execute({
+      sql: "SELECT s.slug FROM souls s JOIN soul_versions v ON v.soul_id = s.id WHERE (s.slug = ? OR s.label = ?) AND v.version = ?",
+      args: [slug, slug, version],
+    });
+    const soul = result.rows[0] as unknown as { slug: string } | undefined;
+    if (!soul) {
+      return c.json({ error: "Version not found" }, 404);
+    }
+
+    let content: string | null;
+    try {
+      content = await storage.getSoulVersion(soul.slug, version);
+    } catch {
+      return c.json({ error: "Storage temporarily unavailable" }, 503);
+    }
+    if (content === null) {
+      return c.json({ error: "Version content not found" }, 404);
+    }
+
+    return c.text(content);
+  });
+
+  // Section-aware diff between two versions; defaults to the latest against the one before (public)
+  app.get("/:slug/diff", async (c) => {
+    const slug = c.req.param("slug");
+    const soulResult = await db.execute({
+      sql: "SELECT s.id, s.slug, MAX(v.version) as latest FROM souls s LEFT JOIN soul_versions v ON v.soul_id = s.id WHERE s.slug = ? OR s.label = ? GROUP BY s.id",
+      args: [slug, slug],
+    });
+    const soul = soulResult.rows[0] as unknown as { id: number; slug: string; latest: number | null } | undefined;
+    if (!soul) {
+      return c.json({ error: "Soul not found" }, 404);
+    }
+    if (soul.latest === null) {
+      return c.json({ error: "Soul has no version history" }, 404);
+    }
+
+    const parseVersion = (value: string | undefined, fallback: number): number | null => {
+      if (value === undefined) return fallback;
+      const n = parseInt(value, 10);
+      return Number.isInteger(n) && n >= 1 && String(n) === value ? n : null;
+    };
+    const to = parseVersion(c.req.query("to"), soul.latest);
+    const from = parseVersion(c.req.query("from"), Math.max(1, (to ?? 1) - 1));
+    if (to === null || from === null) {
+      return c.json({ error: "Versions must be positive integers" }, 400);
+    }
+
+    let before: string | null;
+    let after: string | null;
+    try {
+      [before, after] = await Promise.all([
+        storage.getSoulVersion(soul.slug, from),
+        storage.getSoulVersion(soul.slug, to),
+      ]);
+    } catch {
+      return c.json({ error: "Storage temporarily unavailable" }, 503);
+    }
+    if (before === null || after === null) {
+      return c.json({ error: `Version ${before === null ? from : to} not found` }, 404);
+    }
+
+    // Versions stored before upload validation may not parse
+    const parsed: SoulFile[] = [];
+    for (const [version, content] of [[from, before], [to, after]] as const) {
+      try {
+        parsed.push(parseSoulFile(content));
+      } catch {
+        return c.json({ error: `Version ${version} can't be parsed for diff` }, 422);
+      }
+    }
+
+    return c.json({ from, to, ...diffSouls(parsed[0], parsed[1]) });
+  });
+
+  // Restore an older version by publishing its content as a new version (requires auth + ownership)
+  app.post("/:slug/versions/:version/restore", requireAuth(db, "publish"), async (c) => {
+    const slug = c.req.param("slug");
+    const user = c.get("user");
+    const version = parseInt(c.req.param("version"), 10);
+    if (!Number.isInteger(version) || version < 1) {
+      return c.json({ error: "Version must be a positive integer" }, 400);
+    }
+
+    const result = await db.execute({
+      sql: `${SOUL_SELECT} WHERE s.slug = ? OR s.label = ?`,
+      args: [slug, slug],
+    });
+    const soul = result.rows[0] as unknown as SoulWithAuthor | undefined;
+    if (!soul) return c.json({ error: "Soul not found" }, 404);
+    if ((soul.user_id as number) !== user.id) return c.json({ error: "Forbidden" }, 403);
+
+    let content: string | null;
+    try {
+      content = await storage.getSoulVersion(soul.slug as string, version);
+    } catch {
+      return c.json({ error: "Storage temporarily unavailable" }, 503);
+    }
+    if (content === null) {
+      return c.json({ error: "Version not found" }, 404);
+    }
+
+    // Versions stored before upload validation may not parse; check before saving anything
+    let parsed: SoulFile;
+    try {
+      parsed = parseSoulFile(content);
+    } catch {
+      return c.json({ error: `Version ${version} can't be parsed for restore` }, 422);
+    }
+
+    const body = await c.req.json<{ changelog?: string }>().catch(() => ({}) as { changelog?: string });
+    const changelog = body.changelog?.trim() || `Restored version ${version}`;
+    const recorded = await recordVersion(soul, content, user.id, changelog);
+    await storage.saveSoul(soul.slug as string, content);
+    await syncContentMetadata(soul.id as number, parsed);
+
+    return c.json({ ok: true, restored: version, version: recorded.version, hash: recorded.hash });
+  });
+
+  // Copy a soul into a new one owned by the caller (requires auth)
+  app.post("/:slug/fork", requireAuth(db, "publish"), async (c) => {
+    const slug = c.req.param("slug");
+    const user = c.get("user");
+    const body = await c.req.json<{ name?: string }>().catch(() => ({}) as { name?: string });
+    if (body.name !== undefined && (typeof body.name !== "string" || !body.name.trim())) {
+      return c.json({ error: "Name must be a non-empty string" }, 400);
+    }
+
+    const result = await db.execute({
+      sql: "SELECT * FROM souls WHERE slug = ? OR label = ?",
+      args: [slug, slug],
+    });
+    const parent = result.rows[0] as unknown as SoulRecord | undefined;
+    if (!parent) {
+      return c.json({ error: "Soul not found" }, 404);
+    }
+
+    let content: string | null;
+    try {
+      content = await storage.getSoul(parent.slug);
+    } catch {
+      return c.json({ error: "Storage temporarily unavailable" }, 503);
+    }
+    if (!content) {
+      return c.json({ error: "Soul content not found" }, 404);
+    }
+    // Older souls may predate a lint rule; the fork has to pass today's
+    const validation = validateContent(content);
+    if (!validation.valid || !validation.soul) {
+      return invalidContentResponse(c, validation.diagnostics);
+    }
+
+    const created = await createSoul(db, storage, llm.summarize, user.id, validation.soul, {
+      parent,
+      name: body.name?.trim(),
+    });
+    return c.json({ ...created, forked_from: { slug: parent.slug, label: parent.label } }, 201);
+  });
+
+  // Souls forked directly from this one, newest first (public)
+  app.get("/:slug/forks", async (c) => {
+    const slug = c.req.param("slug");
+    const page = Math.max(1, parseInt(c.req.query("page") ?? "1", 10));
+    const limit = Math.min(100, Math.max(1, parseInt(c.req.query("limit") ?? "20", 10)));
+    const offset = (page - 1) * limit;
+
+    const soulResult = await db.execute({
+      sql: "SELECT id FROM souls WHERE slug = ? OR label = ?",
+      args: [slug, slug],
+    });
+    const soul = soulResult.rows[0] as unknown as { id: number } | undefined;
+    if (!soul) {
+      return c.json({ error: "Soul not found" }, 404);
+    }
+
+    const countResult = await db.execute({
+      sql: "SELECT COUNT(*) as total FROM souls WHERE forked_from = ?",
+      args: [soul.id],
+    });
+    const total = Number(countResult.rows[0].total);
+
+    const result = await db.execute({
+      sql: `${SOUL_SELECT} WHERE s.forked_from = ? ORDER BY s.created_at DESC, s.id DESC LIMIT ? OFFSET ?`,
+      args: [soul.id, limit, offset],
+    });
+
+    return c.json({
+      data: result.rows.map(parseSoulRow),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  });
+
+  // Ancestors of a soul, its parent first and the original last (public)
+  app.get("/:slug/lineage", async (c) => {
+    const slug = c.req.param("slug");
+    const soulResult = await db.execute({
+      sql: "SELECT id FROM souls WHERE slug = ? OR label = ?",
+      args: [slug, slug],
+    });
+    const soul = soulResult.rows[0] as unknown as { id: number } | undefined;
+    if (!soul) {
+      return c.json({ error: "Soul not found" }, 404);
+    }
+
+    // Forks always point at an older soul, so this can't loop; the depth cap is belt and braces
+    const result = await db.execute({
+      sql: `WITH RECURSIVE ancestors(id, depth) AS (
+              SELECT forked_from, 1 FROM souls WHERE id = ? AND forked_from IS NOT NULL
+              UNION ALL
+              SELECT s.forked_from, a.depth + 1 FROM souls s JOIN ancestors a ON s.id = a.id
+              WHERE s.forked_from IS NOT NULL AND a.depth < ?
+            )
+            SELECT s.*, u.github_username as author FROM ancestors a
+            JOIN souls s ON s.id = a.id JOIN users u ON s.user_id = u.id
+            ORDER BY a.depth`,
+      args: [soul.id, MAX_LINEAGE_DEPTH],
+    });
+    return c.json({ data: result.rows.map(parseSoulRow) });
   });
 
   // Delete soul (requires auth + ownership)
-  app.delete("/:slug", requireAuth, async (c) => {
+  app.delete("/:slug", requireAuth(db, "publish"), async (c) => {
     const slug = c.req.param("slug");
     const user = c.get("user");
 
@@ -460,14 +1160,25 @@ export function soulRoutes(db: Client, storage: StorageInterface) {
     if ((soul as unknown as SoulRecord).image_url) {
       await storage.deleteImage(soul.slug as string, (soul as unknown as SoulRecord).image_url as string);
     }
+    const versions = await db.execute({
+      sql: "SELECT version FROM soul_versions WHERE soul_id = ?",
+      args: [soul.id],
+    });
+    for (const row of versions.rows) {
+      await storage.deleteSoulVersion(soul.slug as string, Number(row.version));
+    }
     await storage.deleteSoul(soul.slug as string);
+    await db.execute({ sql: "DELETE FROM soul_versions WHERE soul_id = ?", args: [soul.id] });
+    await removeSoulFromIndex(db, soul.id as number);
+    // Forks outlive their parent; they just stop pointing at it
+    await db.execute({ sql: "UPDATE souls SET forked_from = NULL WHERE forked_from = ?", args: [soul.id] });
     await db.execute({ sql: "DELETE FROM souls WHERE id = ?", args: [soul.id] });
 
     return c.json({ ok: true });
   });
 
   // Rate a soul (requires auth)
-  app.post("/:slug/rate", requireAuth, async (c) => {
+  app.post("/:slug/rate", requireAuth(db, "rate"), async (c) => {
     const slug = c.req.param("slug");
     const user = c.get("user");
     const body = await c.req.json<{ rating: number }>();
@@ -531,7 +1242,7 @@ export function soulRoutes(db: Client, storage: StorageInterface) {
   });
 
   // Upload soul image (requires auth + ownership)
-  app.post("/:slug/image", requireAuth, async (c) => {
+  app.post("/:slug/image", requireAuth(db, "publish"), async (c) => {
     const slug = c.req.param("slug");
     const user = c.get("user");
 
@@ -571,7 +1282,7 @@ export function soulRoutes(db: Client, storage: StorageInterface) {
   });
 
   // Delete soul image (requires auth + ownership)
-  app.delete("/:slug/image", requireAuth, async (c) => {
+  app.delete("/:slug/image", requireAuth(db, "publish"), async (c) => {
     const slug = c.req.param("slug");
     const user = c.get("user");
 
@@ -596,7 +1307,7 @@ export function soulRoutes(db: Client, storage: StorageInterface) {
   });
 
   // Generate soul image with AI (requires auth + ownership)
-  app.post("/:slug/image/generate", requireAuth, async (c) => {
+  app.post("/:slug/image/generate", requireAuth(db, "publish"), async (c) => {
     const slug = c.req.param("slug");
     const user = c.get("user");
 
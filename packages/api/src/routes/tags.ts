@@ -0,0 +1,24 @@
+import { Hono } from "hono";
+import type { Client } from "@libsql/client";
+import { normalizeTag } from "@opensoul/core";
+
+export function tagRoutes(db: Client) {
+  const app = new Hono();
+
+  // Tag counts for faceting, most used first (public)
+  app.get("/", async (c) => {
+    const q = normalizeTag(c.req.query("q") ?? "");
+    const limit = Math.min(200, Math.max(1, parseInt(c.req.query("limit") ?? "50", 10)));
+
+    const result = await db.execute({
+      sql: `SELECT t.value as tag, COUNT(*) as count FROM souls s, json_each(s.tags) t${q ? " WHERE t.value LIKE ?" : ""} GROUP BY t.value ORDER BY count DESC, tag ASC LIMIT ?`,
+      args: q ? [`${q}%`, limit] : [limit],
+    });
+
+    return c.json({
+      data: result.rows.map((r) => ({ tag: r.tag as string, count: Number(r.count) })),
+    });
+  });
+
+  return app;
+}
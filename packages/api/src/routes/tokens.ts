@@ -0,0 +1,81 @@
+import { Hono } from "hono";
+import type { Client } from "@libsql/client";
+import { requireAuth, type AuthUser } from "../middleware/auth.js";
+import { issueAccessToken, parseScopes } from "../storage/tokens.js";
+import type { AccessTokenRecord } from "../storage/sqlite.js";
+
+const MAX_TOKEN_NAME = 100;
+const MAX_EXPIRY_DAYS = 365;
+
+function formatToken(row: AccessTokenRecord) {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.token_prefix,
+    scopes: JSON.parse(row.scopes) as string[],
+    created_at: row.created_at,
+    last_used_at: row.last_used_at,
+    expires_at: row.expires_at,
+  };
+}
+
+// Personal access tokens. Managed from a web session only, so a token can't mint or revoke others.
+export function tokenRoutes(db: Client) {
+  const app = new Hono<{ Variables: { user: AuthUser } }>();
+
+  app.use("*", requireAuth(db, undefined, { sessionOnly: true }));
+
+  // List the current user's active tokens (never includes the token itself)
+  app.get("/", async (c) => {
+    const user = c.get("user");
+    const result = await db.execute({
+      sql: `SELECT * FROM access_tokens
+            WHERE user_id = ? AND revoked_at IS NULL
+              AND (expires_at IS NULL OR expires_at > datetime('now'))
+            ORDER BY created_at DESC, id DESC`,
+      args: [user.id],
+    });
+    return c.json({ data: (result.rows as unknown as AccessTokenRecord[]).map(formatToken) });
+  });
+
+  // Create a token; the plaintext is only ever returned here
+  app.post("/", async (c) => {
+    const user = c.get("user");
+    const body = await c.req.json<{ name?: string; scopes?: unknown; expires_in_days?: number }>();
+
+    const name = body.name?.trim();
+    if (!name) {
+      return c.json({ error: "Token name is required" }, 400);
+    }
+    if (name.length > MAX_TOKEN_NAME) {
+      return c.json({ error: `Token name must be under ${MAX_TOKEN_NAME} characters` }, 400);
+    }
+    const scopes = parseScopes(body.scopes);
+    if (!scopes || scopes.length === 0) {
+      return c.json({ error: "Scopes must be one or more of: read, publish, rate" }, 400);
+    }
+    const days = body.expires_in_days;
+    if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS)) {
+      return c.json({ error: `expires_in_days must be a whole number from 1 to ${MAX_EXPIRY_DAYS}` }, 400);
+    }
+
+    const { id, token } = await issueAccessToken(db, user.id, name, scopes, days);
+    const result = await db.execute({ sql: "SELECT * FROM access_tokens WHERE id = ?", args: [id] });
+    return c.json({ ...formatToken(result.rows[0] as unknown as AccessTokenRecord), token }, 201);
+  });
+
+  // Revoke a token
+  app.delete("/:id", async (c) => {
+    const user = c.get("user");
+    const result = await db.execute({
+      sql: "UPDATE access_tokens SET revoked_at = datetime('now') WHERE id = ? AND user_id = ? AND revoked_at IS NULL",
+      args: [Number(c.req.param("id")), user.id],
+    });
+    if (result.rowsAffected === 0) {
+      return c.json({ error: "Token not found" }, 404);
+    }
+    return c.json({ ok: true });
+  });
+
+  return app;
+}
@@ -0,0 +1,25 @@
+import type { Client } from "@libsql/client";
+import { parseSoulFile, titleName } from "@opensoul/core";
+import type { DraftRecord } from "./sqlite.js";
+
+/** What to call a draft in lists: its frontmatter name, else its title. */
+export function draftName(content: string): string | null {
+  try {
+    const soul = parseSoulFile(content);
+    const name = soul.frontmatter.name;
+    if (typeof name === "string" && name.trim()) return name.trim();
+    return titleName(soul) ?? null;
+  } catch {
+    // Half-written frontmatter is normal in a draft
+    return null;
+  }
+}
+
+export async function createDraft(db: Client, userId: number, content: string, prompt: string | null): Promise<DraftRecord> {
+  const inserted = await db.execute({
+    sql: "INSERT INTO drafts (user_id, name, prompt, content) VALUES (?, ?, ?, ?)",
+    args: [userId, draftName(content), prompt, content],
+  });
+  const result = await db.execute({ sql: "SELECT * FROM drafts WHERE id = ?", args: [Number(inserted.lastInsertRowid!)] });
+  return result.rows[0] as unknown as DraftRecord;
+}
@@ -6,6 +6,9 @@ export interface StorageInterface {
   saveSoul(slug: string, content: string): Promise<string>;
   getSoul(slug: string): Promise<string | null>;
   deleteSoul(slug: string): Promise<void>;
+  saveSoulVersion(slug: string, version: number, content: string): Promise<void>;
+  getSoulVersion(slug: string, version: number): Promise<string | null>;
+  deleteSoulVersion(slug: string, version: number): Promise<void>;
   saveImage(slug: string, filename: string, data: ArrayBuffer, contentType: string): Promise<void>;
   getImage(slug: string, filename: string): Promise<{ data: ArrayBuffer; contentType: string } | null>;
   deleteImage(slug: string, filename: string): Promise<void>;
@@ -37,6 +40,23 @@ export class LocalStorage implements StorageInterface {
     if (existsSync(dir)) rmSync(dir, { recursive: true });
   }
 
+  async saveSoulVersion(slug: string, version: number, content: string): Promise<void> {
+    const filePath = this.versionPath(slug, version);
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(filePath, content, "utf-8");
+  }
+
+  async getSoulVersion(slug: string, version: number): Promise<string | null> {
+    const filePath = this.versionPath(slug, version);
+    if (!existsSync(filePath)) return null;
+    return readFileSync(filePath, "utf-8");
+  }
+
+  async deleteSoulVersion(slug: string, version: number): Promise<void> {
+    const filePath = this.versionPath(slug, version);
+    if (existsSync(filePath)) unlinkSync(filePath);
+  }
+
   async saveImage(slug: string, filename: string, data: ArrayBuffer, _contentType: string): Promise<void> {
     const filePath = join(this.baseDir, slug, filename);
     mkdirSync(dirname(filePath), { recursive: true });
@@ -60,4 +80,8 @@ export class LocalStorage implements StorageInterface {
   private filePath(slug: string): string {
     return join(this.baseDir, slug, "soul.md");
   }
+
+  private versionPath(slug: string, version: number): string {
+    return join(this.baseDir, slug, "versions", `${version}.md`);
+  }
 }
@@ -112,6 +112,28 @@ export class S3Storage implements StorageInterface {
     await this.signedFetch("DELETE", `${slug}/soul.md`);
   }
 
+  async saveSoulVersion(slug: string, version: number, content: string): Promise<void> {
+    const key = `${slug}/versions/${version}.md`;
+    const res = await this.signedFetch("PUT", key, content);
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`S3 PUT version failed (${res.status}): ${text}`);
+    }
+  }
+
+  async getSoulVersion(slug: string, version: number): Promise<string | null> {
+    const res = await this.signedFetch("GET", `${slug}/versions/${version}.md`);
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      throw new Error(`S3 GET version failed (${res.status})`);
+    }
+    return await res.text();
+  }
+
+  async deleteSoulVersion(slug: string, version: number): Promise<void> {
+    await this.signedFetch("DELETE", `${slug}/versions/${version}.md`);
+  }
+
   async saveImage(slug: string, filename: string, data: ArrayBuffer, contentType: string): Promise<void> {
     const key = `${slug}/${filename}`;
     const res = await this.signedFetch("PUT", key, data, contentType);
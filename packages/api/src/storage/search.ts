@@ -0,0 +1,95 @@
+import type { Client } from "@libsql/client";
+import type { StorageInterface } from "./local.js";
+
+// bm25() weights, in souls_fts column order:
+// name, description, tags, author, headings, content
+const COLUMN_WEIGHTS = [10, 5, 4, 2, 3, 1];
+
+export const SEARCH_RANK = `bm25(souls_fts, ${COLUMN_WEIGHTS.join(", ")})`;
+
+// Matched terms are wrapped in <mark>…</mark>; clients render the rest as text
+export const SEARCH_SNIPPET = "snippet(souls_fts, -1, '<mark>', '</mark>', '…', 16)";
+
+function extractHeadings(content: string): string {
+  const headings: string[] = [];
+  let inFence = false;
+  for (const line of content.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    const match = !inFence && line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (match) headings.push(match[1]);
+  }
+  return headings.join("\n");
+}
+
+/**
+ * Turn free-form user input into an FTS5 query. Every word must match and the
+ * last one is treated as a prefix so results update while typing. Returns
+ * null when the input has nothing searchable in it.
+ */
+export function toFtsQuery(search: string): string | null {
+  const terms = search.match(/[\p{L}\p{N}_]+/gu);
+  if (!terms) return null;
+  return terms
+    .map((term, i) => (i === terms.length - 1 ? `"${term}"*` : `"${term}"`))
+    .join(" ");
+}
+
+/** Insert or replace a soul's row in the search index. */
+export async function indexSoul(db: Client, soulId: number, content: string | null): Promise<void> {
+  await db.execute({ sql: "DELETE FROM souls_fts WHERE rowid = ?", args: [soulId] });
+  await db.execute({
+    sql: `INSERT INTO souls_fts (rowid, name, description, tags, author, headings, content)
+      SELECT s.id, s.name, s.description,
+        (SELECT group_concat(value, ' ') FROM json_each(s.tags)),
+        u.github_username, ?, ?
+      FROM souls s JOIN users u ON s.user_id = u.id WHERE s.id = ?`,
+    args: [content === null ? null : extractHeadings(content), content, soulId],
+  });
+}
+
+/** Refresh indexed metadata (name, description, tags, author) without touching content. */
+export async function reindexSoulMetadata(db: Client, soulId: number): Promise<void> {
+  await db.execute({
+    sql: `UPDATE souls_fts SET
+        name = (SELECT name FROM souls WHERE id = ?1),
+        description = (SELECT description FROM souls WHERE id = ?1),
+        tags = (SELECT group_concat(value, ' ') FROM souls s, json_each(s.tags) WHERE s.id = ?1),
+        author = (SELECT u.github_username FROM souls s JOIN users u ON s.user_id = u.id WHERE s.id = ?1)
+      WHERE rowid = ?1`,
+    args: [soulId],
+  });
+}
+
+export async function removeSoulFromIndex(db: Client, soulId: number): Promise<void> {
+  await db.execute({ sql: "DELETE FROM souls_fts WHERE rowid = ?", args: [soulId] });
+}
+
+/**
+ * Index content for souls the migration could only index by metadata, at
+ * most `limit` of them (all by default). Content lives in object storage, so
+ * this runs at server start, or in batches from the worker, rather than
+ * inside the schema migration. Returns true once none are left.
+ */
+export async function backfillSearchContent(db: Client, storage: StorageInterface, limit = -1): Promise<boolean> {
+  const result = await db.execute({
+    sql: "SELECT s.id, s.slug FROM souls s JOIN souls_fts f ON f.rowid = s.id WHERE f.content IS NULL ORDER BY s.id LIMIT ?",
+    args: [limit],
+  });
+  let failed = false;
+  for (const row of result.rows) {
+    let content: string | null;
+    try {
+      content = await storage.getSoul(row.slug as string);
+    } catch {
+      // Left for the next run
+      failed = true;
+      continue;
+    }
+    // A soul without stored content is indexed as empty so it isn't fetched again
+    await indexSoul(db, Number(row.id), content ?? "");
+  }
+  return !failed && (limit < 0 || result.rows.length < limit);
+}
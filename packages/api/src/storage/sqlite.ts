@@ -12,6 +12,9 @@ export interface SoulRecord {
   rating_count: number;
   downloads_count: number;
   image_url: string | null;
+  license: string | null;
+  /** id of the soul this one was forked from; cleared if that soul is deleted */
+  forked_from: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -37,6 +40,53 @@ export interface SoulRatingRecord {
   created_at: string;
 }
 
+export interface SoulVersionRecord {
+  id: number;
+  soul_id: number;
+  version: number;
+  hash: string;
+  user_id: number;
+  changelog: string | null;
+  created_at: string;
+}
+
+export interface AccessTokenRecord {
+  id: number;
+  user_id: number;
+  name: string;
+  token_hash: string;
+  token_prefix: string;
+  scopes: string;
+  created_at: string;
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface DeviceCodeRecord {
+  id: number;
+  device_code_hash: string;
+  user_code: string;
+  name: string;
+  scopes: string;
+  status: "pending" | "approved" | "denied" | "issued";
+  user_id: number | null;
+  interval: number;
+  last_polled_at: string | null;
+  expires_at: string;
+  created_at: string;
+}
+
+export interface DraftRecord {
+  id: number;
+  user_id: number;
+  name: string | null;
+  prompt: string | null;
+  content: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export async function createDatabase(url?: string, authToken?: string): Promise<Client> {
   const client = createClient({
     url: url ?? "file:local.db",
@@ -121,14 +171,28 @@ async function migrate(client: Client): Promise<void> {
     // Column already gone — nothing to do
   }
 
-  // Migration: drop version column and soul_versions table
+  // Migration: drop legacy version column and its semver soul_versions table
   try {
     await client.execute("SELECT version FROM souls LIMIT 0");
     await client.execute("ALTER TABLE souls DROP COLUMN version");
+    await client.execute("DROP TABLE IF EXISTS soul_versions");
   } catch {
     // Column already gone — nothing to do
   }
-  await client.execute("DROP TABLE IF EXISTS soul_versions");
+
+  // Migration: immutable content history (one row per content update)
+  await client.executeMultiple(`
+    CREATE TABLE IF NOT EXISTS soul_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      soul_id INTEGER NOT NULL REFERENCES souls(id) ON DELETE CASCADE,
+      version INTEGER NOT NULL,
+      hash TEXT NOT NULL,
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      changelog TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      UNIQUE(soul_id, version)
+    );
+  `);
 
   // Migration: add downloads_count column
   try {
@@ -143,6 +207,86 @@ async function migrate(client: Client): Promise<void> {
   } catch {
     await client.execute("ALTER TABLE souls ADD COLUMN image_url TEXT");
   }
+
+  // Migration: add license column (populated from SOUL.md frontmatter)
+  try {
+    await client.execute("SELECT license FROM souls LIMIT 0");
+  } catch {
+    await client.execute("ALTER TABLE souls ADD COLUMN license TEXT");
+  }
+
+  // Migration: add forked_from column (lineage between remixed souls)
+  try {
+    await client.execute("SELECT forked_from FROM souls LIMIT 0");
+  } catch {
+    await client.execute("ALTER TABLE souls ADD COLUMN forked_from INTEGER REFERENCES souls(id)");
+  }
+  await client.execute("CREATE INDEX IF NOT EXISTS idx_souls_forked_from ON souls(forked_from)");
+
+  // Migration: personal access tokens and device-code login. Only token
+  // hashes are stored; the plaintext is shown once when issued.
+  await client.executeMultiple(`
+    CREATE TABLE IF NOT EXISTS access_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      token_hash TEXT UNIQUE NOT NULL,
+      token_prefix TEXT NOT NULL,
+      scopes TEXT NOT NULL DEFAULT '[]',
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      last_used_at TEXT,
+      expires_at TEXT,
+      revoked_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS device_codes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      device_code_hash TEXT UNIQUE NOT NULL,
+      user_code TEXT UNIQUE NOT NULL,
+      name TEXT NOT NULL,
+      scopes TEXT NOT NULL DEFAULT '[]',
+      status TEXT NOT NULL DEFAULT 'pending',
+      user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+      interval INTEGER NOT NULL DEFAULT 5,
+      last_polled_at TEXT,
+      expires_at TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+  `);
+
+  // Migration: private drafts. Generated souls are saved here along with
+  // their prompt so they outlive the browser tab until published.
+  await client.executeMultiple(`
+    CREATE TABLE IF NOT EXISTS drafts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT,
+      prompt TEXT,
+      content TEXT NOT NULL DEFAULT '',
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_drafts_user ON drafts(user_id, updated_at);
+  `);
+
+  // Migration: full-text search index keyed by souls.id. Existing souls are
+  // indexed by metadata here; their content is filled in by
+  // backfillSearchContent() since it lives in object storage.
+  await client.execute(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS souls_fts USING fts5(
+      name, description, tags, author, headings, content,
+      tokenize = 'porter unicode61'
+    )
+  `);
+  await client.execute(`
+    INSERT INTO souls_fts (rowid, name, description, tags, author)
+    SELECT s.id, s.name, s.description,
+      (SELECT group_concat(value, ' ') FROM json_each(s.tags)),
+      u.github_username
+    FROM souls s JOIN users u ON s.user_id = u.id
+    WHERE s.id NOT IN (SELECT rowid FROM souls_fts)
+  `);
 }
 
 export function slugify(name: string): string {
@@ -0,0 +1,67 @@
+import type { Client } from "@libsql/client";
+import { createHash, randomBytes } from "node:crypto";
+
+export type TokenScope = "read" | "publish" | "rate";
+
+export const TOKEN_SCOPES: TokenScope[] = ["read", "publish", "rate"];
+
+// Lets the middleware tell access tokens from JWTs without trying to verify them
+export const TOKEN_PREFIX = "soul_";
+
+// Characters a user can read off a terminal and type without confusing them
+const USER_CODE_ALPHABET = "BCDFGHJKLMNPQRSTVWXZ";
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function generateToken(): string {
+  return `${TOKEN_PREFIX}${randomBytes(24).toString("base64url")}`;
+}
+
+/** A short code like `WDJB-MJHT` for the user to confirm in the browser. */
+export function generateUserCode(): string {
+  const bytes = randomBytes(8);
+  const chars = Array.from(bytes, (b) => USER_CODE_ALPHABET[b % USER_CODE_ALPHABET.length]);
+  return `${chars.slice(0, 4).join("")}-${chars.slice(4).join("")}`;
+}
+
+/** Uppercase and re-hyphenate a user code typed by hand. */
+export function normalizeUserCode(code: string): string {
+  const letters = code.toUpperCase().replace(/[^A-Z]/g, "");
+  return letters.length === 8 ? `${letters.slice(0, 4)}-${letters.slice(4)}` : letters;
+}
+
+/** Parse a scope list, or null if it names an unknown scope. */
+export function parseScopes(input: unknown): TokenScope[] | null {
+  if (input === undefined) return [...TOKEN_SCOPES];
+  const list = typeof input === "string" ? input.split(/[\s,]+/).filter(Boolean) : input;
+  if (!Array.isArray(list)) return null;
+  if (!list.every((s): s is TokenScope => TOKEN_SCOPES.includes(s as TokenScope))) return null;
+  return TOKEN_SCOPES.filter((s) => list.includes(s));
+}
+
+/** Store a new access token and return its plaintext, which is never stored. */
+export async function issueAccessToken(
+  db: Client,
+  userId: number,
+  name: string,
+  scopes: TokenScope[],
+  expiresInDays?: number,
+): Promise<{ id: number; token: string }> {
+  const token = generateToken();
+  const result = await db.execute({
+    sql: `INSERT INTO access_tokens (user_id, name, token_hash, token_prefix, scopes, expires_at)
+          VALUES (?, ?, ?, ?, ?, CASE WHEN ? IS NULL THEN NULL ELSE datetime('now', printf('+%d days', ?)) END)`,
+    args: [
+      userId,
+      name,
+      hashToken(token),
+      token.slice(0, TOKEN_PREFIX.length + 4),
+      JSON.stringify(scopes),
+      expiresInDays ?? null,
+      expiresInDays ?? null,
+    ],
+  });
+  return { id: Number(result.lastInsertRowid!), token };
+}
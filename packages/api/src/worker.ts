@@ -2,6 +2,8 @@ import { createClient } from "@libsql/client/web";
 import { createApiApp } from "./app.js";
 import { S3Storage } from "./storage/s3.js";
 import { createDatabase } from "./storage/sqlite.js";
+import { backfillSearchContent } from "./storage/search.js";
+import { createProviders, type LLMProviders } from "./llm/config.js";
 
 export interface Env {
   TURSO_DATABASE_URL: string;
@@ -15,13 +17,40 @@ export interface Env {
   GITHUB_REDIRECT_URI?: string;
   JWT_SECRET: string;
   WEB_APP_URL?: string;
-  OPENAI_API_KEY: string;
-  ANTHROPIC_API_KEY: string;
+  OPENAI_API_KEY?: string;
+  ANTHROPIC_API_KEY?: string;
   FAL_KEY: string;
+  LLM_PROVIDER?: string;
+  LLM_MODEL?: string;
+  LLM_SUMMARIZE_PROVIDER?: string;
+  LLM_SUMMARIZE_MODEL?: string;
+  LLM_GENERATE_PROVIDER?: string;
+  LLM_GENERATE_MODEL?: string;
+  LLM_BASE_URL?: string;
+  LLM_API_KEY?: string;
+}
+
+// Souls indexed before search covered content are backfilled a batch per
+// request, after the response is sent, until none are left in this isolate
+const SEARCH_BACKFILL_BATCH = 20;
+let searchBackfill: "pending" | "running" | "done" = "pending";
+
+// Providers are built once per isolate, and again only if their settings
+// change, so a misconfigured one is logged once rather than on every request
+let llm: { key: string; providers: LLMProviders } | null = null;
+
+function llmProviders(env: Env): LLMProviders {
+  const key = JSON.stringify(
+    Object.entries(env).filter(([name]) => name.startsWith("LLM_") || name.endsWith("_API_KEY")),
+  );
+  if (llm?.key !== key) {
+    llm = { key, providers: createProviders({ ...env }) };
+  }
+  return llm.providers;
 }
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: { waitUntil(promise: Promise<unknown>): void }): Promise<Response> {
     // Set env vars for middleware/routes that read from process.env
     // (Workers don't have process.env natively, but we bridge it)
     (globalThis as any).process ??= { env: {} };
@@ -51,7 +80,20 @@ export default {
       bucket: env.R2_BUCKET,
     });
 
-    const app = createApiApp(db, storage);
+    if (searchBackfill === "pending") {
+      searchBackfill = "running";
+      ctx.waitUntil(
+        backfillSearchContent(db, storage, SEARCH_BACKFILL_BATCH)
+          .then((done) => {
+            searchBackfill = done ? "done" : "pending";
+          })
+          .catch(() => {
+            searchBackfill = "pending";
+          }),
+      );
+    }
+
+    const app = createApiApp(db, storage, llmProviders(env));
     return app.fetch(request);
   },
 };
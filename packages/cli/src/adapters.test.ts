@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { ADAPTERS, inferAdapter, inferDirectoryAdapter } from "./adapters.js";
+
+const soul = "---\nname: Pirate\nauthor: test\n---\n# SOUL.md - Pirate\n\nArr.";
+
+describe("managed-block adapter", () => {
+  const adapter = ADAPTERS["managed-block"];
+
+  it("injects the soul at the top and keeps the rest of the file", () => {
+    const written = adapter.inject("# Project rules\n\nUse tabs.\n", soul, {});
+    expect(written).toBe(
+      "<!-- opensoul:begin -->\n# SOUL.md - Pirate\n\nArr.\n<!-- opensoul:end -->\n\n# Project rules\n\nUse tabs.\n",
+    );
+    expect(adapter.extract(written, {})).toBe("# SOUL.md - Pirate\n\nArr.");
+  });
+
+  it("replaces an existing block instead of stacking", () => {
+    const once = adapter.inject("Rules\n", soul, {});
+    const twice = adapter.inject(once, "# Other\n\nHi.", {});
+    expect(twice.match(/opensoul:begin/g)).toHaveLength(1);
+    expect(adapter.extract(twice, {})).toBe("# Other\n\nHi.");
+  });
+
+  it("restores by removing only the block", () => {
+    const written = adapter.inject("Rules\n", soul, {});
+    expect(adapter.restore(`${written}More rules added later\n`, "Rules\n", {})).toBe(
+      "Rules\nMore rules added later\n",
+    );
+    expect(adapter.restore(adapter.inject(null, soul, {}), null, {})).toBeNull();
+  });
+});
+
+describe("cursor-rule adapter", () => {
+  it("writes an always-applied rule", () => {
+    const adapter = ADAPTERS["cursor-rule"];
+    const written = adapter.inject(null, soul, {});
+    expect(written).toMatch(/^---\ndescription: .+\nalwaysApply: true\n---\n/);
+    expect(adapter.extract(written, {})).toBe("# SOUL.md - Pirate\n\nArr.");
+    expect(adapter.hasMarker(written)).toBe(true);
+  });
+});
+
+describe("json adapter", () => {
+  const adapter = ADAPTERS.json;
+
+  it("writes the soul to a nested key and restores the original value", () => {
+    const original = JSON.stringify({ model: "x", agent: { instructions: "Be nice." } });
+    const options = { json_key: "agent.instructions" };
+    const written = adapter.inject(original, soul, options);
+    expect(JSON.parse(written).agent.instructions).toBe("# SOUL.md - Pirate\n\nArr.");
+    expect(JSON.parse(written).model).toBe("x");
+
+    const restored = adapter.restore(written, original, options);
+    expect(JSON.parse(restored!)).toEqual(JSON.parse(original));
+  });
+
+  it("defaults to the systemPrompt key", () => {
+    expect(JSON.parse(adapter.inject(null, soul, {})).systemPrompt).toContain("Arr.");
+  });
+});
+
+describe("inferAdapter", () => {
+  it("picks an adapter from the file name", () => {
+    expect(inferAdapter("/ws/SOUL.md")).toBe("soul");
+    expect(inferAdapter("/repo/CLAUDE.md")).toBe("managed-block");
+    expect(inferAdapter("/repo/.cursor/rules/persona.mdc")).toBe("cursor-rule");
+    expect(inferAdapter("/bot/config.json")).toBe("json");
+    expect(inferAdapter("/bot/prompt.txt")).toBe("text");
+    expect(inferAdapter("/repo/README.md")).toBeNull();
+    expect(inferDirectoryAdapter("/repo/.cursor/rules")).toBe("cursor-rule");
+  });
+});
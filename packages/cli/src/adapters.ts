@@ -0,0 +1,195 @@
+import { basename, dirname, extname } from "node:path";
+
+export type AdapterKind = "soul" | "managed-block" | "cursor-rule" | "text" | "json";
+
+/**
+ * Knows how to put a soul into one kind of agent personality file and take
+ * it back out. Adapters are pure string transforms; swap.ts owns the file
+ * I/O, backups and history so every adapter gets them the same way.
+ */
+export interface TargetAdapter {
+  kind: AdapterKind;
+  description: string;
+  /** File name used when a target points at a directory */
+  defaultFile: string;
+  /** File contents with the soul injected. `current` is null if the file doesn't exist yet. */
+  inject(current: string | null, soul: string, options: AdapterOptions): string;
+  /** The soul text currently injected, or null if there is none. */
+  extract(current: string, options: AdapterOptions): string | null;
+  /**
+   * Whether the file carries a possession marker. Null for formats that
+   * can't hold one, in which case possession is tracked by the CLI alone.
+   */
+  hasMarker(current: string): boolean | null;
+  /**
+   * Contents with the soul removed. `original` is the pre-possession file,
+   * or null if there wasn't one. Returning null deletes the file.
+   */
+  restore(current: string | null, original: string | null, options: AdapterOptions): string | null;
+}
+
+export interface AdapterOptions {
+  /** Dot-separated key the json adapter writes to */
+  json_key?: string;
+}
+
+export const SWAP_MARKER = "<!-- opensoul:swapped -->";
+const BLOCK_BEGIN = "<!-- opensoul:begin -->";
+const BLOCK_END = "<!-- opensoul:end -->";
+const DEFAULT_JSON_KEY = "systemPrompt";
+
+// SOUL.md frontmatter is registry metadata; other formats only want the prose
+function stripFrontmatter(soul: string): string {
+  return soul.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/, "").replace(/^\s*\n/, "");
+}
+
+function stripMarker(content: string): string {
+  return content.startsWith(SWAP_MARKER) ? content.slice(SWAP_MARKER.length + 1) : content;
+}
+
+const soulAdapter: TargetAdapter = {
+  kind: "soul",
+  description: "OpenClaw SOUL.md, replaced whole",
+  defaultFile: "SOUL.md",
+  inject: (_current, soul) => `${SWAP_MARKER}\n${soul}`,
+  // Without the marker the file is still what the agent reads as its soul
+  extract: (current) => stripMarker(current),
+  hasMarker: (current) => current.startsWith(SWAP_MARKER),
+  restore: (_current, original) => original,
+};
+
+const BLOCK_PATTERN = new RegExp(`${BLOCK_BEGIN}\\n?([\\s\\S]*?)\\n?${BLOCK_END}\\n*`);
+
+const managedBlockAdapter: TargetAdapter = {
+  kind: "managed-block",
+  description: "AGENTS.md / CLAUDE.md, soul kept in a managed block at the top",
+  defaultFile: "AGENTS.md",
+  inject(current, soul) {
+    const rest = (current ?? "").replace(BLOCK_PATTERN, "").replace(/^\n+/, "");
+    const block = `${BLOCK_BEGIN}\n${stripFrontmatter(soul).trim()}\n${BLOCK_END}\n`;
+    return rest ? `${block}\n${rest}` : block;
+  },
+  extract: (current) => current.match(BLOCK_PATTERN)?.[1] ?? null,
+  hasMarker: (current) => BLOCK_PATTERN.test(current),
+  // Only the block is ours; everything else in the file is kept as it is now
+  restore(current, original) {
+    const rest = (current ?? "").replace(BLOCK_PATTERN, "").replace(/^\n+/, "");
+    return (rest || original !== null) ? rest : null;
+  },
+};
+
+const cursorRuleAdapter: TargetAdapter = {
+  kind: "cursor-rule",
+  description: "Cursor project rule (.cursor/rules/*.mdc), always applied",
+  defaultFile: "soul.mdc",
+  inject(_current, soul) {
+    const body = stripFrontmatter(soul).trim();
+    return `---\ndescription: Agent personality managed by opensoul\nalwaysApply: true\n---\n${SWAP_MARKER}\n${body}\n`;
+  },
+  extract(current) {
+    const index = current.indexOf(`${SWAP_MARKER}\n`);
+    return index === -1 ? null : current.slice(index + SWAP_MARKER.length + 1).replace(/\n$/, "");
+  },
+  hasMarker: (current) => current.includes(SWAP_MARKER),
+  restore: (_current, original) => original,
+};
+
+const textAdapter: TargetAdapter = {
+  kind: "text",
+  description: "Plain system-prompt text file, replaced whole",
+  defaultFile: "system-prompt.txt",
+  inject: (_current, soul) => `${stripFrontmatter(soul).trim()}\n`,
+  extract: (current) => current.replace(/\n$/, ""),
+  hasMarker: () => null,
+  restore: (_current, original) => original,
+};
+
+function parseJsonObject(raw: string | null): Record<string, unknown> {
+  if (!raw?.trim()) return {};
+  const parsed = JSON.parse(raw) as unknown;
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("JSON target must contain an object");
+  }
+  return parsed as Record<string, unknown>;
+}
+
+function keyPath(options: AdapterOptions): string[] {
+  return (options.json_key ?? DEFAULT_JSON_KEY).split(".");
+}
+
+function getKey(obj: Record<string, unknown>, path: string[]): unknown {
+  let node: unknown = obj;
+  for (const key of path) {
+    if (typeof node !== "object" || node === null) return undefined;
+    node = (node as Record<string, unknown>)[key];
+  }
+  return node;
+}
+
+function setKey(obj: Record<string, unknown>, path: string[], value: unknown): void {
+  let node = obj;
+  for (const key of path.slice(0, -1)) {
+    if (typeof node[key] !== "object" || node[key] === null) node[key] = {};
+    node = node[key] as Record<string, unknown>;
+  }
+  const last = path[path.length - 1];
+  if (value === undefined) delete node[last];
+  else node[last] = value;
+}
+
+const jsonAdapter: TargetAdapter = {
+  kind: "json",
+  description: "JSON config file, soul written to one key (json_key, default systemPrompt)",
+  defaultFile: "config.json",
+  inject(current, soul, options) {
+    const obj = parseJsonObject(current);
+    setKey(obj, keyPath(options), stripFrontmatter(soul).trim());
+    return `${JSON.stringify(obj, null, 2)}\n`;
+  },
+  extract(current, options) {
+    const value = getKey(parseJsonObject(current), keyPath(options));
+    return typeof value === "string" ? value : null;
+  },
+  hasMarker: () => null,
+  // Put back the key's original value; any other keys changed since are kept
+  restore(current, original, options) {
+    const obj = parseJsonObject(current);
+    const path = keyPath(options);
+    setKey(obj, path, original === null ? undefined : getKey(parseJsonObject(original), path));
+    if (original === null && Object.keys(obj).length === 0) return null;
+    return `${JSON.stringify(obj, null, 2)}\n`;
+  },
+};
+
+export const ADAPTERS: Record<AdapterKind, TargetAdapter> = {
+  soul: soulAdapter,
+  "managed-block": managedBlockAdapter,
+  "cursor-rule": cursorRuleAdapter,
+  text: textAdapter,
+  json: jsonAdapter,
+};
+
+export function isAdapterKind(kind: string): kind is AdapterKind {
+  return Object.prototype.hasOwnProperty.call(ADAPTERS, kind);
+}
+
+function isCursorRulesDir(dir: string): boolean {
+  return basename(dir) === "rules" && basename(dirname(dir)) === ".cursor";
+}
+
+/** Guess the adapter for a directory target; anything but Cursor's rules dir is an OpenClaw workspace. */
+export function inferDirectoryAdapter(dir: string): AdapterKind {
+  return isCursorRulesDir(dir) ? "cursor-rule" : "soul";
+}
+
+/** Guess the adapter from a file name. Null when the file type is ambiguous. */
+export function inferAdapter(file: string): AdapterKind | null {
+  const name = basename(file);
+  const ext = extname(name).toLowerCase();
+  if (name === "SOUL.md") return "soul";
+  if (name === "AGENTS.md" || name === "CLAUDE.md") return "managed-block";
+  if (ext === ".mdc" || isCursorRulesDir(dirname(file))) return "cursor-rule";
+  if (ext === ".json") return "json";
+  if (ext === ".txt") return "text";
+  return null;
+}
@@ -2,13 +2,16 @@ import { readFileSync, writeFileSync, mkdirSync, existsSync, rmSync } from "node
 import { join, basename } from "node:path";
 import { homedir } from "node:os";
 
-interface CacheEntry {
+export interface CacheEntry {
   name: string;
   label?: string;
   file: string;
   hash: string;
   cachedAt: string;
   lastUsedAt?: string;
+  /** Registry content hash as of the last freshness check */
+  remoteHash?: string;
+  checkedAt?: string;
 }
 
 interface CacheIndex {
@@ -57,12 +60,16 @@ export function cacheSoul(name: string, content: string, hash: string, label?: s
   const existing = index.entries.findIndex(
     (e) => e.name === name || (label != null && e.label === label)
   );
+  const now = new Date().toISOString();
   const entry: CacheEntry = {
     name,
     label,
     file: filename,
     hash,
-    cachedAt: new Date().toISOString(),
+    cachedAt: now,
+    lastUsedAt: existing >= 0 ? index.entries[existing].lastUsedAt : undefined,
+    // Content fetched from the registry is current as of now
+    ...(label != null ? { remoteHash: hash, checkedAt: now } : {}),
   };
 
   if (existing >= 0) {
@@ -114,3 +121,19 @@ export function removeCached(query: string): boolean {
   saveIndex(index);
   return true;
 }
+
+/** Remember the registry's hash for a cached soul, from `soul update` or `soul list`. */
+export function recordRemoteHash(query: string, remoteHash: string): void {
+  const index = loadIndex();
+  const entry = index.entries.find((e) => matchesEntry(e, query));
+  if (entry) {
+    entry.remoteHash = remoteHash;
+    entry.checkedAt = new Date().toISOString();
+    saveIndex(index);
+  }
+}
+
+/** Whether the registry had newer content than the cache at the last check. */
+export function isStale(entry: CacheEntry): boolean {
+  return entry.remoteHash !== undefined && entry.remoteHash !== entry.hash;
+}
@@ -1,8 +1,21 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { mkdtempSync, rmSync, existsSync } from "node:fs";
+import { mkdtempSync, rmSync, existsSync, mkdirSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
-import { loadConfig, saveConfig, getConfigValue, setConfigValue } from "./config.js";
+import {
+  loadConfig,
+  saveConfig,
+  getConfigValue,
+  setConfigValue,
+  loadLintOptions,
+  loadProjectConfig,
+  resolveTarget,
+  setActiveTarget,
+  addTarget,
+  removeTarget,
+  useTarget,
+  listTargets,
+} from "./config.js";
 
 let tmpDir: string;
 let originalHome: string;
@@ -14,6 +27,7 @@ beforeEach(() => {
 });
 
 afterEach(() => {
+  setActiveTarget(undefined);
   process.env.HOME = originalHome;
   rmSync(tmpDir, { recursive: true });
 });
@@ -64,3 +78,83 @@ describe("setConfigValue", () => {
     expect(getConfigValue("custom_key")).toBe("custom_value");
   });
 });
+
+describe("loadLintOptions", () => {
+  it("merges project rule overrides over the home config", () => {
+    const config = loadConfig();
+    config.lint = { rules: { "no-em-dash": "off", "max-length": { max: 100 } } };
+    saveConfig(config);
+
+    const projectDir = join(tmpDir, "project");
+    mkdirSync(projectDir);
+    writeFileSync(
+      join(projectDir, ".soulrc.yaml"),
+      "lint:\n  rules:\n    max-length:\n      max: 500\n    empty-section: warning\n",
+    );
+
+    expect(loadLintOptions(projectDir)).toEqual({
+      rules: {
+        "no-em-dash": "off",
+        "max-length": { max: 500 },
+        "empty-section": "warning",
+      },
+    });
+  });
+
+  it("returns no overrides when nothing is configured", () => {
+    expect(loadLintOptions(tmpDir)).toEqual({ rules: {} });
+  });
+
+  it("ignores paths and targets in the project config", () => {
+    const projectDir = join(tmpDir, "project");
+    mkdirSync(projectDir);
+    writeFileSync(
+      join(projectDir, ".soulrc.yaml"),
+      "soul_path: /etc/passwd\ndefault_target: evil\ntargets:\n  evil:\n    soul_path: /tmp/x.txt\n    skills_path: /tmp\nlint:\n  rules:\n    no-em-dash: off\n",
+    );
+
+    expect(loadProjectConfig(projectDir)).toEqual({ lint: { rules: { "no-em-dash": "off" } } });
+  });
+});
+
+describe("targets", () => {
+  it("resolves the top-level paths as the default target", () => {
+    const target = resolveTarget();
+    expect(target.name).toBe("default");
+    expect(target.soul_path).toBe(loadConfig().soul_path);
+    expect(target.backup_dir).toBe(join(tmpDir, ".soul", "backup"));
+  });
+
+  it("adds named targets with their own backup directory", () => {
+    addTarget("staging", { soul_path: "/agents/staging/SOUL.md", skills_path: "/agents/staging/skills" });
+
+    const target = resolveTarget("staging");
+    expect(target.soul_path).toBe("/agents/staging/SOUL.md");
+    expect(target.backup_dir).toBe(join(tmpDir, ".soul", "backup", "staging"));
+    expect(listTargets().map((t) => t.name)).toEqual(["default", "staging"]);
+  });
+
+  it("prefers the active target over the configured default", () => {
+    addTarget("staging", { soul_path: "/staging", skills_path: "/staging-skills" });
+    addTarget("prod", { soul_path: "/prod", skills_path: "/prod-skills" });
+    useTarget("staging");
+    expect(resolveTarget().name).toBe("staging");
+
+    setActiveTarget("prod");
+    expect(resolveTarget().name).toBe("prod");
+  });
+
+  it("rejects unknown targets", () => {
+    expect(() => resolveTarget("nope")).toThrow(/Unknown target/);
+    expect(() => setActiveTarget("nope")).toThrow(/Unknown target/);
+  });
+
+  it("clears the default when its target is removed", () => {
+    addTarget("staging", { soul_path: "/staging", skills_path: "/staging-skills" });
+    useTarget("staging");
+
+    expect(removeTarget("staging")).toBe(true);
+    expect(removeTarget("staging")).toBe(false);
+    expect(resolveTarget().name).toBe("default");
+  });
+});
@@ -2,13 +2,41 @@ import { readFileSync, writeFileSync, mkdirSync, existsSync } from "node:fs";
 import { join } from "node:path";
 import { homedir } from "node:os";
 import { parse, stringify } from "yaml";
+import type { LintOptions } from "@opensoul/core";
+import type { AdapterKind } from "./adapters.js";
+
+export interface TargetConfig {
+  soul_path: string;
+  skills_path: string;
+  /** Where this target's original SOUL.md is backed up; defaults to ~/.soul/backup/<name> */
+  backup_dir?: string;
+  /** How the soul is written into soul_path; inferred from the file name when unset */
+  adapter?: AdapterKind;
+  /** Key the json adapter writes to, dot-separated for nesting */
+  json_key?: string;
+}
 
 export interface SoulConfig {
   registry_url: string;
   soul_path: string;
   skills_path: string;
+  lint?: LintOptions;
+  targets?: Record<string, TargetConfig>;
+  /** Target used when no --target is given; unset means the top-level paths */
+  default_target?: string;
+}
+
+export interface ResolvedTarget extends TargetConfig {
+  name: string;
+  backup_dir: string;
 }
 
+/** Name of the implicit target made from the top-level soul_path and skills_path. */
+export const DEFAULT_TARGET = "default";
+
+// Set from --target for the duration of a command
+let activeTarget: string | undefined;
+
 function defaultConfig(): SoulConfig {
   return {
     registry_url: "https://opensoul-api.zyliu-daniel.workers.dev",
@@ -33,11 +61,102 @@ export function loadConfig(): SoulConfig {
   return { ...defaults, ...parsed };
 }
 
+/**
+ * Read a project-level `.soulrc.yaml` from the given directory, if any.
+ * Unlike the home config it is never created on demand. Only lint settings
+ * are taken from it: a cloned repo must not choose where souls get written.
+ */
+export function loadProjectConfig(dir: string = process.cwd()): Pick<SoulConfig, "lint"> {
+  const path = join(dir, ".soulrc.yaml");
+  if (!existsSync(path)) return {};
+  const parsed = parse(readFileSync(path, "utf-8")) as Partial<SoulConfig> | null;
+  return parsed?.lint ? { lint: parsed.lint } : {};
+}
+
+/** Lint rule overrides: the project config wins over the home config, rule by rule. */
+export function loadLintOptions(dir: string = process.cwd()): LintOptions {
+  const home = loadConfig().lint?.rules ?? {};
+  const project = loadProjectConfig(dir).lint?.rules ?? {};
+  return { rules: { ...home, ...project } };
+}
+
 export function saveConfig(config: SoulConfig): void {
   const path = configPath();
   writeFileSync(path, stringify(config), "utf-8");
 }
 
+function allTargets(): Record<string, TargetConfig> {
+  return { ...loadConfig().targets };
+}
+
+/**
+ * Resolve a target by name, falling back to the active target, then the
+ * configured default, then the top-level paths. Throws for unknown names.
+ */
+export function resolveTarget(name?: string): ResolvedTarget {
+  const config = loadConfig();
+  const wanted = name ?? activeTarget ?? config.default_target ?? DEFAULT_TARGET;
+
+  if (wanted === DEFAULT_TARGET) {
+    return {
+      name: DEFAULT_TARGET,
+      soul_path: config.soul_path,
+      skills_path: config.skills_path,
+      // Kept where single-target installs have always put it
+      backup_dir: join(homedir(), ".soul", "backup"),
+    };
+  }
+
+  const target = allTargets()[wanted];
+  if (!target) {
+    throw new Error(`Unknown target '${wanted}'. Run 'soul target list' to see configured targets.`);
+  }
+  return {
+    ...target,
+    name: wanted,
+    backup_dir: target.backup_dir ?? join(homedir(), ".soul", "backup", wanted),
+  };
+}
+
+/** Make `name` the target for subsequent calls in this process. Throws for unknown names. */
+export function setActiveTarget(name: string | undefined): void {
+  if (name !== undefined) resolveTarget(name);
+  activeTarget = name;
+}
+
+export function listTargets(): ResolvedTarget[] {
+  return [DEFAULT_TARGET, ...Object.keys(allTargets())].map((name) => resolveTarget(name));
+}
+
+export function addTarget(name: string, target: TargetConfig): void {
+  if (name === DEFAULT_TARGET) {
+    throw new Error(`'${DEFAULT_TARGET}' is reserved for the top-level soul_path and skills_path`);
+  }
+  const config = loadConfig();
+  config.targets = { ...config.targets, [name]: target };
+  saveConfig(config);
+}
+
+/** Remove a target from the home config. Returns false if it wasn't there. */
+export function removeTarget(name: string): boolean {
+  const config = loadConfig();
+  if (!config.targets?.[name]) return false;
+  delete config.targets[name];
+  if (Object.keys(config.targets).length === 0) delete config.targets;
+  if (config.default_target === name) delete config.default_target;
+  saveConfig(config);
+  return true;
+}
+
+/** Set the default target in the home config. */
+export function useTarget(name: string): void {
+  resolveTarget(name);
+  const config = loadConfig();
+  if (name === DEFAULT_TARGET) delete config.default_target;
+  else config.default_target = name;
+  saveConfig(config);
+}
+
 export function getConfigValue(key: string): string | undefined {
   const config = loadConfig();
   const record = config as unknown as Record<string, unknown>;
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { getCredential, getSavedCredential, saveCredential, removeCredential } from "./credentials.js";
+
+let tmpDir: string;
+let originalHome: string;
+
+beforeEach(() => {
+  tmpDir = mkdtempSync(join(tmpdir(), "opensoul-credentials-test-"));
+  originalHome = process.env.HOME!;
+  process.env.HOME = tmpDir;
+  delete process.env.SOUL_TOKEN;
+  delete process.env.SOUL_TOKEN_REGISTRY;
+});
+
+afterEach(() => {
+  delete process.env.SOUL_TOKEN;
+  delete process.env.SOUL_TOKEN_REGISTRY;
+  process.env.HOME = originalHome;
+  rmSync(tmpDir, { recursive: true });
+});
+
+describe("credentials", () => {
+  it("stores credentials per registry URL", () => {
+    saveCredential("https://a.example.com/", { token: "soul_a", username: "alice" });
+    saveCredential("https://b.example.com", { token: "soul_b" });
+
+    expect(getCredential("https://a.example.com")?.token).toBe("soul_a");
+    expect(getCredential("https://a.example.com")?.username).toBe("alice");
+    expect(getCredential("https://b.example.com")?.token).toBe("soul_b");
+    expect(getCredential("https://c.example.com")).toBeNull();
+  });
+
+  it("keeps the credentials file private", () => {
+    saveCredential("https://a.example.com", { token: "soul_a" });
+    const mode = statSync(join(tmpDir, ".soul", "credentials.json")).mode & 0o777;
+    expect(mode).toBe(0o600);
+  });
+
+  it("prefers SOUL_TOKEN over the saved login", () => {
+    saveCredential("https://a.example.com", { token: "soul_saved" });
+    process.env.SOUL_TOKEN = "soul_env";
+    process.env.SOUL_TOKEN_REGISTRY = "https://a.example.com/";
+    expect(getCredential("https://a.example.com")?.token).toBe("soul_env");
+    expect(getSavedCredential("https://a.example.com")?.token).toBe("soul_saved");
+  });
+
+  it("sends SOUL_TOKEN only to its registry", () => {
+    saveCredential("https://b.example.com", { token: "soul_b" });
+    process.env.SOUL_TOKEN = "soul_env";
+    expect(getCredential("https://opensoul-api.zyliu-daniel.workers.dev")?.token).toBe("soul_env");
+    expect(getCredential("https://evil.example.com")).toBeNull();
+    expect(getCredential("https://b.example.com")?.token).toBe("soul_b");
+
+    process.env.SOUL_TOKEN_REGISTRY = "https://a.example.com";
+    expect(getCredential("https://a.example.com")?.token).toBe("soul_env");
+    expect(getCredential("https://opensoul-api.zyliu-daniel.workers.dev")).toBeNull();
+  });
+
+  it("removes a saved login", () => {
+    saveCredential("https://a.example.com", { token: "soul_a" });
+    expect(removeCredential("https://a.example.com")).toBe(true);
+    expect(removeCredential("https://a.example.com")).toBe(false);
+    expect(getCredential("https://a.example.com")).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import { readFileSync, writeFileSync, mkdirSync, existsSync, chmodSync } from "node:fs";
+import { join } from "node:path";
+import { homedir } from "node:os";
+import { loadConfig } from "./config.js";
+
+export interface Credential {
+  token: string;
+  username?: string;
+  scopes?: string[];
+  savedAt: string;
+}
+
+interface CredentialStore {
+  /** Keyed by registry URL, so switching registry_url never sends a token to the wrong server */
+  registries: Record<string, Credential>;
+}
+
+function credentialsPath(): string {
+  return join(homedir(), ".soul", "credentials.json");
+}
+
+function registryKey(registryUrl: string): string {
+  return registryUrl.replace(/\/+$/, "");
+}
+
+function loadStore(): CredentialStore {
+  const path = credentialsPath();
+  if (!existsSync(path)) {
+    return { registries: {} };
+  }
+  return JSON.parse(readFileSync(path, "utf-8"));
+}
+
+function saveStore(store: CredentialStore): void {
+  const path = credentialsPath();
+  mkdirSync(join(homedir(), ".soul"), { recursive: true });
+  writeFileSync(path, JSON.stringify(store, null, 2), { encoding: "utf-8", mode: 0o600 });
+  // writeFileSync only applies mode when creating the file
+  chmodSync(path, 0o600);
+}
+
+/**
+ * The credential for a registry. `SOUL_TOKEN` takes precedence over the
+ * saved login so CI can authenticate without writing to disk. It only
+ * applies to `SOUL_TOKEN_REGISTRY`, or the configured registry_url, so a
+ * registry named in a committed soul.lock never receives it.
+ */
+export function getCredential(registryUrl: string): Credential | null {
+  const envToken = process.env.SOUL_TOKEN?.trim();
+  const envRegistry = process.env.SOUL_TOKEN_REGISTRY?.trim() || loadConfig().registry_url;
+  if (envToken && registryKey(registryUrl) === registryKey(envRegistry)) {
+    return { token: envToken, savedAt: "" };
+  }
+  return getSavedCredential(registryUrl);
+}
+
+/** The credential saved by `soul login`, ignoring SOUL_TOKEN. */
+export function getSavedCredential(registryUrl: string): Credential | null {
+  return loadStore().registries[registryKey(registryUrl)] ?? null;
+}
+
+export function saveCredential(registryUrl: string, credential: Omit<Credential, "savedAt">): void {
+  const store = loadStore();
+  store.registries[registryKey(registryUrl)] = { ...credential, savedAt: new Date().toISOString() };
+  saveStore(store);
+}
+
+/** Forget the saved login for a registry. Returns false if there wasn't one. */
+export function removeCredential(registryUrl: string): boolean {
+  const store = loadStore();
+  const key = registryKey(registryUrl);
+  if (!store.registries[key]) return false;
+  delete store.registries[key];
+  saveStore(store);
+  return true;
+}
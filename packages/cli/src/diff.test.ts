@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { diffSouls, parseSoulFile } from "@opensoul/core";
+import { diffLines, formatSoulDiff } from "./diff.js";
+
+describe("diffLines", () => {
+  it("marks added and removed lines around common ones", () => {
+    const lines = diffLines("a\nb\nc", "a\nx\nc\nd");
+    expect(lines).toEqual([
+      { type: "same", text: "a" },
+      { type: "remove", text: "b" },
+      { type: "add", text: "x" },
+      { type: "same", text: "c" },
+      { type: "add", text: "d" },
+    ]);
+  });
+
+  it("reports identical content as unchanged", () => {
+    expect(diffLines("a\nb", "a\nb").every((l) => l.type === "same")).toBe(true);
+  });
+});
+
+describe("formatSoulDiff", () => {
+  it("summarizes each kind of section change", () => {
+    const before = parseSoulFile("---\nname: A\n---\n## Voice\n\nCalm.\n\n## Rules\n\nNone.\n\n## Old\n\nGone.");
+    const after = parseSoulFile("---\nname: B\n---\n## Voice\n\nLoud.\n\n## Limits\n\nNone.\n\n## New\n\nHere.");
+    const output = formatSoulDiff(diffSouls(before, after)).replace(/\x1b\[\d+m/g, "");
+
+    expect(output).toContain("~ name: A → B");
+    expect(output).toContain("~ ## Voice\n  @@ -1,1 +1,1 @@\n  - Calm.\n  + Loud.");
+    expect(output).toContain("~ ## Rules → Limits");
+    expect(output).toContain("+ ## New\n  + Here.");
+    expect(output).toContain("- ## Old");
+  });
+
+  it("says when there is nothing to show", () => {
+    const soul = parseSoulFile("## Voice\n\nCalm.");
+    expect(formatSoulDiff(diffSouls(soul, soul))).toContain("No differences.");
+  });
+});
@@ -0,0 +1,75 @@
+import pc from "picocolors";
+import { diffLines, type DiffHunk, type SoulDiff } from "@opensoul/core";
+
+export { diffLines, type DiffLine } from "@opensoul/core";
+
+/** Colored diff showing changed lines with a little surrounding context. */
+export function formatDiff(before: string, after: string, context = 2): string {
+  const lines = diffLines(before, after);
+  const keep = lines.map((line, i) =>
+    lines.slice(Math.max(0, i - context), i + context + 1).some((l) => l.type !== "same"),
+  );
+
+  const out: string[] = [];
+  let skipped = false;
+  lines.forEach((line, i) => {
+    if (!keep[i]) {
+      skipped = true;
+      return;
+    }
+    if (skipped && out.length > 0) out.push(pc.dim("  ..."));
+    skipped = false;
+    if (line.type === "add") out.push(pc.green(`+ ${line.text}`));
+    else if (line.type === "remove") out.push(pc.red(`- ${line.text}`));
+    else out.push(pc.dim(`  ${line.text}`));
+  });
+  return out.join("\n");
+}
+
+function formatHunks(hunks: DiffHunk[]): string[] {
+  return hunks.flatMap((hunk) => [
+    pc.cyan(`  @@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`),
+    ...hunk.lines.map((line) =>
+      line.type === "add" ? pc.green(`  + ${line.text}`)
+        : line.type === "remove" ? pc.red(`  - ${line.text}`)
+          : pc.dim(`    ${line.text}`),
+    ),
+  ]);
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/** Colored, section-by-section summary of a soul diff. */
+export function formatSoulDiff(diff: SoulDiff): string {
+  if (diff.identical) return pc.dim("No differences.");
+
+  const out: string[] = [];
+  if (diff.frontmatter.length > 0) {
+    out.push(pc.bold("Frontmatter"));
+    for (const change of diff.frontmatter) {
+      if (change.type === "added") out.push(pc.green(`  + ${change.key}: ${formatValue(change.after)}`));
+      else if (change.type === "removed") out.push(pc.red(`  - ${change.key}: ${formatValue(change.before)}`));
+      else out.push(`  ~ ${change.key}: ${pc.red(formatValue(change.before))} → ${pc.green(formatValue(change.after))}`);
+    }
+  }
+  if (diff.preamble.length > 0) {
+    out.push(pc.bold("Title"), ...formatHunks(diff.preamble));
+  }
+  for (const change of diff.sections) {
+    if (change.type === "added") {
+      out.push(pc.green(pc.bold(`+ ## ${change.heading}`)), ...change.content.split("\n").map((l) => pc.green(`  + ${l}`)));
+    } else if (change.type === "removed") {
+      out.push(pc.red(pc.bold(`- ## ${change.heading}`)));
+    } else if (change.type === "renamed") {
+      out.push(pc.yellow(pc.bold(`~ ## ${change.from} → ${change.to}`)), ...formatHunks(change.hunks));
+    } else {
+      out.push(pc.bold(`~ ## ${change.heading}`), ...formatHunks(change.hunks));
+    }
+  }
+  if (diff.epilogue.length > 0) {
+    out.push(pc.bold("Closing line"), ...formatHunks(diff.epilogue));
+  }
+  return out.join("\n");
+}
@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { parseSoulFile } from "@opensoul/core";
+import { forkContent } from "./fork.js";
+
+describe("forkContent", () => {
+  it("renames the soul, records where it came from and keeps the body", () => {
+    const original = "---\nname: Pirate\nauthor: redbeard\nslug: abc123\nlabel: pirate\ntags: [sea]\n---\n# SOUL.md - Pirate\n\n## Voice\n\nArr.\n";
+    const forked = forkContent(original, "Polite Pirate", "pirate");
+
+    const soul = parseSoulFile(forked);
+    expect(soul.frontmatter).toEqual({ name: "Polite Pirate", author: "redbeard", tags: ["sea"], forked_from: "pirate" });
+    expect(forked.endsWith("# SOUL.md - Pirate\n\n## Voice\n\nArr.\n")).toBe(true);
+  });
+
+  it("adds frontmatter to a soul without any", () => {
+    const forked = forkContent("# SOUL.md - Monk\n\n## Calm\n\nBreathe.\n", "Monk Remix", "stoic-monk");
+    expect(forked).toBe("---\nname: Monk Remix\nforked_from: stoic-monk\n---\n# SOUL.md - Monk\n\n## Calm\n\nBreathe.\n");
+  });
+});
@@ -0,0 +1,23 @@
+import { parse, stringify } from "yaml";
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+/**
+ * Turn a registry soul into the start of a remix: `name` becomes the fork's,
+ * `forked_from` names the original so publishing records the lineage, and
+ * `slug`/`label` are dropped so it publishes as a new soul instead of over
+ * the original. The body is left as it was.
+ */
+export function forkContent(content: string, name: string, from: string): string {
+  const match = content.match(FRONTMATTER);
+  let data: Record<string, unknown> = {};
+  if (match) {
+    const parsed: unknown = parse(match[1]);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      data = parsed as Record<string, unknown>;
+    }
+  }
+  const { slug: _slug, label: _label, ...kept } = data;
+  const body = match ? content.slice(match[0].length) : content;
+  return `---\n${stringify({ ...kept, name, forked_from: from })}---\n${body}`;
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { readSoulStream, generatedName } from "./generate.js";
+
+// A response body delivered in the given chunks, to exercise events split across reads
+function chunked(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+describe("readSoulStream", () => {
+  it("collects text deltas and the draft id, calling back as they arrive", async () => {
+    const seen: string[] = [];
+    const soul = await readSoulStream(
+      chunked([
+        'data: {"text":"# SOUL.md"}\n\ndata: {"te',
+        'xt":" - Ada\\n"}\n\n',
+        'data: {"draft":{"id":7}}\n\ndata: [DONE]\n\n',
+      ]),
+      (text) => seen.push(text),
+    );
+
+    expect(soul).toEqual({ content: "# SOUL.md - Ada\n", draft: 7 });
+    expect(seen).toEqual(["# SOUL.md", " - Ada\n"]);
+  });
+
+  it("throws the registry's error event", async () => {
+    const stream = chunked(['data: {"text":"# SO"}\n\n', 'data: {"error":"Generation failed (429): slow down"}\n\n']);
+    await expect(readSoulStream(stream)).rejects.toThrow("Generation failed (429): slow down");
+  });
+
+  it("throws when the stream ends before [DONE]", async () => {
+    await expect(readSoulStream(chunked(['data: {"text":"# SO"}\n\n']))).rejects.toThrow("stopped sending");
+  });
+});
+
+describe("generatedName", () => {
+  it("prefers the frontmatter name, then the title, then the draft", () => {
+    expect(generatedName({ content: "---\nname: Ada\n---\n# SOUL.md - Lovelace\n", draft: 1 })).toBe("Ada");
+    expect(generatedName({ content: "# SOUL.md - Lovelace\n", draft: 1 })).toBe("Lovelace");
+    expect(generatedName({ content: "Just words.\n", draft: 3 })).toBe("draft-3");
+  });
+});
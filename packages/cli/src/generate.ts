@@ -0,0 +1,75 @@
+import { parseSoulFile, titleName } from "@opensoul/core";
+
+/** A soul written by the registry's generator, and the draft it was saved to. */
+export interface GeneratedSoul {
+  content: string;
+  draft: number | null;
+}
+
+interface StreamEvent {
+  text?: string;
+  error?: string;
+  draft?: { id: number };
+}
+
+/**
+ * Read the `text/event-stream` from `POST /souls/generate`, passing each
+ * text delta to `onText` as it arrives. Throws on an error event, or if the
+ * stream ends before `[DONE]`.
+ */
+export async function readSoulStream(
+  body: ReadableStream<Uint8Array>,
+  onText: (text: string) => void = () => {},
+): Promise<GeneratedSoul> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let content = "";
+  let draft: number | null = null;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    // Events are separated by a blank line; the last piece may be incomplete
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = events.pop() ?? "";
+    for (const event of events) {
+      for (const line of event.split(/\r?\n/)) {
+        if (!line.startsWith("data:")) continue;
+        const data = line.slice(5).trimStart();
+        if (data === "[DONE]") {
+          await reader.cancel();
+          return { content, draft };
+        }
+        let parsed: StreamEvent;
+        try {
+          parsed = JSON.parse(data) as StreamEvent;
+        } catch {
+          continue;
+        }
+        if (parsed.error) throw new Error(parsed.error);
+        if (parsed.text) {
+          content += parsed.text;
+          onText(parsed.text);
+        }
+        if (parsed.draft) draft = parsed.draft.id;
+      }
+    }
+  }
+  throw new Error("The registry stopped sending before the soul was finished. Try again.");
+}
+
+/** What to cache a generated soul as: its frontmatter name, else its title, else its draft. */
+export function generatedName(soul: GeneratedSoul): string {
+  try {
+    const parsed = parseSoulFile(soul.content);
+    const name = parsed.frontmatter.name;
+    if (typeof name === "string" && name.trim()) return name.trim();
+    const title = titleName(parsed);
+    if (title) return title;
+  } catch {
+    // Fall through to the draft id
+  }
+  return soul.draft !== null ? `draft-${soul.draft}` : "generated";
+}
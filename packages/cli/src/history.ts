@@ -0,0 +1,113 @@
+import { readFileSync, writeFileSync, mkdirSync, existsSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { homedir } from "node:os";
+import { createHash } from "node:crypto";
+import type { HistoryEntry } from "@opensoul/core";
+import { DEFAULT_TARGET } from "./config.js";
+
+export interface HistoryRecord extends HistoryEntry {
+  file: string;
+  /** Target the soul was possessed into; missing on entries from before targets */
+  target?: string;
+}
+
+interface HistoryIndex {
+  entries: HistoryRecord[];
+}
+
+// Oldest entries beyond this, per target, are dropped along with snapshots nothing else uses
+const MAX_HISTORY = 50;
+
+function getHistoryDir(): string {
+  return join(homedir(), ".soul", "history");
+}
+
+function indexPath(): string {
+  return join(getHistoryDir(), "index.json");
+}
+
+function loadIndex(): HistoryIndex {
+  const path = indexPath();
+  if (!existsSync(path)) {
+    return { entries: [] };
+  }
+  return JSON.parse(readFileSync(path, "utf-8"));
+}
+
+function targetOf(entry: HistoryRecord): string {
+  return entry.target ?? DEFAULT_TARGET;
+}
+
+function saveIndex(index: HistoryIndex): void {
+  mkdirSync(getHistoryDir(), { recursive: true });
+  writeFileSync(indexPath(), JSON.stringify(index, null, 2), "utf-8");
+}
+
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/** Record a possession of `target`, snapshotting the content under its hash. */
+export function recordHistory(
+  content: string,
+  name: string,
+  action: HistoryEntry["action"],
+  target: string = DEFAULT_TARGET,
+): HistoryRecord {
+  const dir = getHistoryDir();
+  mkdirSync(dir, { recursive: true });
+
+  const hash = hashContent(content);
+  const file = `${hash}.md`;
+  const snapshot = join(dir, file);
+  if (!existsSync(snapshot)) writeFileSync(snapshot, content, "utf-8");
+
+  const index = loadIndex();
+  const record: HistoryRecord = {
+    soul: { name, hash },
+    action,
+    timestamp: new Date().toISOString(),
+    file,
+    target,
+  };
+  index.entries.push(record);
+
+  const sameTarget = index.entries.filter((e) => targetOf(e) === target);
+  const dropped = sameTarget.slice(0, Math.max(0, sameTarget.length - MAX_HISTORY));
+  index.entries = index.entries.filter((e) => !dropped.includes(e));
+  for (const old of dropped) {
+    if (!index.entries.some((e) => e.file === old.file)) {
+      rmSync(join(dir, old.file), { force: true });
+    }
+  }
+
+  saveIndex(index);
+  return record;
+}
+
+/** History entries for a target, or for every target, newest first. */
+export function listHistory(target?: string): HistoryRecord[] {
+  const entries = loadIndex().entries.slice().reverse();
+  return target === undefined ? entries : entries.filter((e) => targetOf(e) === target);
+}
+
+/**
+ * Find an entry by its position in `listHistory(target)` (0 is the newest)
+ * or by a hash prefix of at least 4 characters.
+ */
+export function findHistoryEntry(ref: string | number, target?: string): HistoryRecord | null {
+  const entries = listHistory(target);
+  const key = String(ref).trim().toLowerCase();
+  // Short numbers are positions; anything longer is a hash prefix
+  if (/^\d{1,3}$/.test(key)) {
+    return entries[Number(key)] ?? null;
+  }
+  if (key.length < 4) return null;
+  return entries.find((e) => e.soul.hash.startsWith(key)) ?? null;
+}
+
+export function readSnapshot(entry: HistoryRecord): string | null {
+  const path = join(getHistoryDir(), entry.file);
+  if (!existsSync(path)) return null;
+  return readFileSync(path, "utf-8");
+}
@@ -1,18 +1,47 @@
 #!/usr/bin/env node
 import { Command } from "commander";
-import { readFileSync, existsSync } from "node:fs";
-import { resolve, dirname, basename } from "node:path";
+import { readFileSync, writeFileSync, existsSync } from "node:fs";
+import { resolve, dirname, basename, join } from "node:path";
 import { createInterface } from "node:readline";
 import pc from "picocolors";
 import { createHash } from "node:crypto";
-import { loadConfig, getConfigValue, setConfigValue } from "./config.js";
+import { hostname } from "node:os";
+import {
+  loadConfig,
+  getConfigValue,
+  setConfigValue,
+  loadLintOptions,
+  resolveTarget,
+  setActiveTarget,
+  listTargets,
+  addTarget,
+  removeTarget,
+  useTarget,
+  DEFAULT_TARGET,
+} from "./config.js";
 import {
   listCached,
   getCached,
   cacheSoul,
   removeCached,
   touchCached,
+  isStale,
 } from "./cache.js";
+import { checkCached, updateCached, needsCheck } from "./update.js";
+import {
+  hasProject,
+  loadManifest,
+  saveManifest,
+  loadLock,
+  saveLock,
+  lockMismatch,
+  resolveLatest,
+  fetchLocked,
+  PROJECT_FILE,
+  LOCK_FILE,
+  type ProjectManifest,
+  type LockedSoul,
+} from "./lockfile.js";
 import {
   swapSoul,
   rollbackSoul,
@@ -20,14 +49,53 @@ import {
   isSwapped,
   readCurrentSoul,
   getSoulPath,
+  currentSoulHash,
+  rollbackToHistory,
+  getDrift,
+  getAdapterKind,
+  extractSoul,
 } from "./swap.js";
-import { RegistryClient } from "./registry-client.js";
+import { ADAPTERS, isAdapterKind } from "./adapters.js";
+import { listHistory, hashContent } from "./history.js";
+import { formatDiff, formatSoulDiff } from "./diff.js";
+import { RegistryClient, RegistryError, type RegistrySoul } from "./registry-client.js";
+import { generatedName, type GeneratedSoul } from "./generate.js";
+import { forkContent } from "./fork.js";
+import { getSavedCredential, saveCredential, removeCredential } from "./credentials.js";
+import { resolvePublishSlug, recordPublished, publishLabel, MANIFEST_FILE } from "./publish.js";
 import {
   installSkill,
   uninstallSkill,
   isSkillInstalled,
   getSkillPath,
 } from "./skill.js";
+import {
+  expandPatterns,
+  lintFiles,
+  formatResults,
+  type LintFormat,
+} from "./lint.js";
+import { resolveSoulRef, CURRENT_REF, type ResolvedSoul } from "./sources.js";
+import {
+  parseSoulFile,
+  titleName,
+  composeSoul,
+  ComposeError,
+  diffSouls,
+  exportSoul,
+  isExportFormat,
+  EXPORT_FORMATS,
+  importSoul,
+  detectImportFormat,
+  isImportFormat,
+  IMPORT_FORMATS,
+  ImportError,
+  validateSoulFile,
+  type ImportedSoul,
+  type ComposedSoul,
+  type SectionPick,
+  type SoulFile,
+} from "@opensoul/core";
 import { fileURLToPath } from "node:url";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -65,6 +133,64 @@ function spinner(message: string): { stop: (finalMessage?: string) => void } {
   };
 }
 
+/**
+ * Before overwriting SOUL.md, check whether it was edited since the CLI
+ * wrote it and let the user keep those edits. Returns false if the user
+ * cancels. Non-interactive runs refuse to overwrite unless forced.
+ */
+async function guardDrift(force?: boolean): Promise<boolean> {
+  const drift = getDrift();
+  if (!drift || force) return true;
+
+  if (!process.stdin.isTTY) {
+    fail(
+      `SOUL.md was modified since ${pc.bold(drift.name)} was possessed.\n\n  Run ${pc.bold("soul status")} to inspect it, or pass ${pc.bold("--force")} to overwrite the changes.`,
+    );
+  }
+
+  console.log(pc.yellow(`\n⚠ SOUL.md was modified since ${pc.bold(drift.name)} was possessed.`));
+  const { select, input } = await import("@inquirer/prompts");
+  try {
+    while (true) {
+      const choice = await select({
+        message: "What should happen to those edits?",
+        choices: [
+          { name: "Save them as a cached soul, then continue", value: "save" },
+          ...(drift.written !== null ? [{ name: "Show diff", value: "diff" }] : []),
+          { name: "Discard them and continue", value: "discard" },
+          { name: "Cancel", value: "cancel" },
+        ],
+      });
+
+      if (choice === "diff") {
+        console.log(`\n${formatDiff(drift.written ?? "", drift.content)}\n`);
+        continue;
+      }
+      if (choice === "save") {
+        const name = await input({ message: "Save as:", default: `${drift.name}-edited` });
+        cacheSoul(name.trim(), drift.content, hashContent(drift.content));
+        console.log(pc.green(`  Saved edits as ${pc.yellow(pc.bold(name.trim()))} (use 'soul possess ${name.trim()}' to return to them)`));
+      }
+      if (choice === "cancel") {
+        console.log(pc.dim("Aborted."));
+        return false;
+      }
+      return true;
+    }
+  } catch (err) {
+    if ((err as Error).name === "ExitPromptError") return false;
+    throw err;
+  }
+}
+
+// Render a search snippet on one line with matched terms highlighted
+function formatSnippet(snippet: string): string {
+  return snippet
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/<mark>(.*?)<\/mark>/g, (_, term: string) => pc.yellow(term));
+}
+
 function confirm(prompt: string, defaultYes = false): Promise<boolean> {
   const rl = createInterface({ input: process.stdin, output: process.stdout });
   const hint = defaultYes ? "[Y/n]" : "[y/N]";
@@ -85,18 +211,27 @@ program
   .description("OpenSoul CLI — possess your AI agent with SOUL.md personality files")
   .version(pkg.version, "-v, --version")
   .option("--verbose", "Enable verbose output for debugging")
-  .hook("preAction", () => {
+  .hook("preAction", (_, actionCommand) => {
     verbose = program.opts().verbose ?? false;
+    try {
+      setActiveTarget(actionCommand.opts().target);
+    } catch (err) {
+      fail((err as Error).message);
+    }
   });
 
+const TARGET_OPTION = ["-t, --target <name>", "Agent target to use (see 'soul target list')"] as const;
+
 // --- possess ---
 program
   .command("possess <pathOrName>")
   .description("Possess your bot with a soul file or cached soul")
   .option("--dry-run", "Preview the possession without writing anything")
   .option("-y, --yes", "Skip confirmation prompt")
+  .option("--force", "Overwrite SOUL.md even if it was edited since the last possess")
+  .option(...TARGET_OPTION)
   .action(
-    async (pathOrName: string, opts: { dryRun?: boolean; yes?: boolean }) => {
+    async (pathOrName: string, opts: { dryRun?: boolean; yes?: boolean; force?: boolean }) => {
       let content: string;
       let source: string;
       let soulName: string | undefined;
@@ -200,9 +335,9 @@ program
           `Target directory not found: ${pc.yellow(targetDir)}\n\n  Your configured SOUL.md path is: ${pc.cyan(targetPath)}\n  Use ${pc.bold("soul path <newPath>")} to set the correct path to your SOUL.md file.`,
         );
       }
-      if (basename(targetPath) !== "SOUL.md") {
+      if (getAdapterKind() === null) {
         fail(
-          `Configured path points to ${pc.yellow(basename(targetPath))}, expected ${pc.cyan("SOUL.md")}\n\n  Your configured path is: ${pc.cyan(targetPath)}\n  Use ${pc.bold("soul path <newPath>")} to set it to a valid SOUL.md file or its parent directory.`,
+          `Don't know how to possess ${pc.yellow(basename(targetPath))}\n\n  Your configured path is: ${pc.cyan(targetPath)}\n  Use ${pc.bold("soul path <newPath>")} to point at a SOUL.md file or its parent directory,\n  or add a target with an explicit adapter: ${pc.bold(`soul target add <name> ${targetPath} --adapter <${Object.keys(ADAPTERS).join("|")}>`)}`,
         );
       }
 
@@ -213,11 +348,21 @@ program
         console.log(
           `  Backup: ${!isSwapped() && existsSync(getSoulPath()) ? "would create" : "already exists"}`,
         );
-        const preview = content.trim().split("\n")[0] ?? "";
+        const parsed = parseSoulFile(content);
+        const preview = titleName(parsed) ?? parsed.title ?? content.trim().split("\n")[0] ?? "";
         console.log(`  Preview: ${pc.cyan(preview)}`);
+        if (parsed.tagline) console.log(`           ${pc.dim(parsed.tagline.split("\n")[0])}`);
+        if (parsed.sections.length > 0) {
+          console.log(`  Sections: ${parsed.sections.map((s) => s.heading).join(", ")}`);
+        }
+        if (getDrift()) {
+          console.log(pc.yellow("  Warning: SOUL.md has edits made since the last possess"));
+        }
         return;
       }
 
+      if (!(await guardDrift(opts.force))) return;
+
       // Confirmation prompt on first swap (unless --yes or non-interactive)
       if (
         !opts.yes &&
@@ -237,7 +382,7 @@ program
       }
 
       const s = spinner(pc.cyan("👻 Possessing..."));
-      const { backedUp } = swapSoul(content);
+      const { backedUp } = swapSoul(content, { name: soulName ?? filename });
       if (soulName) touchCached(soulName);
       s.stop(pc.green(`\n👻 Possessed with ${pc.yellow(pc.bold(filename))}`));
 
@@ -256,15 +401,18 @@ program
 program
   .command("exorcise")
   .description("Restore the original SOUL.md from backup")
-  .action(() => {
+  .option("--force", "Restore even if SOUL.md was edited since the last possess")
+  .option(...TARGET_OPTION)
+  .action(async (opts: { force?: boolean }) => {
     if (!hasBackup()) {
       fail("No backup found. Nothing to exorcise.");
     }
+    if (!(await guardDrift(opts.force))) return;
 
     const restored = rollbackSoul();
     if (restored) {
       console.log(
-        pc.green(`\n🕯️  Soul exorcised — ${pc.yellow("SOUL.md")} restored`),
+        pc.green(`\n🕯️  Soul exorcised — ${pc.yellow(basename(getSoulPath()))} restored`),
       );
       console.log(pc.dim(`  ${getSoulPath()}`));
     } else {
@@ -272,21 +420,92 @@ program
     }
   });
 
+// --- history ---
+program
+  .command("history")
+  .description("List previous possessions, newest first")
+  .option("-n, --limit <count>", "Number of entries to show", "20")
+  .option(...TARGET_OPTION)
+  .action((opts: { limit: string }) => {
+    const entries = listHistory(resolveTarget().name);
+    if (entries.length === 0) {
+      console.log(pc.dim("No possessions recorded yet."));
+      return;
+    }
+
+    const current = currentSoulHash();
+    const currentIndex = entries.findIndex((e) => e.soul.hash === current);
+    const limit = Math.max(1, parseInt(opts.limit, 10) || 20);
+    console.log(pc.bold("\nPossession history:\n"));
+    entries.slice(0, limit).forEach((entry, i) => {
+      const marker = i === currentIndex ? pc.green(" (current)") : "";
+      const action = entry.action === "rollback" ? pc.yellow("rollback") : pc.cyan("possess ");
+      console.log(
+        `  ${pc.dim(String(i).padStart(3))}  ${action}  ${pc.bold(entry.soul.name)}${marker}  ${pc.dim(entry.soul.hash.slice(0, 8))}  ${pc.dim(new Date(entry.timestamp).toLocaleString())}`,
+      );
+    });
+    if (entries.length > limit) {
+      console.log(pc.dim(`\n  ...and ${entries.length - limit} older`));
+    }
+    console.log(pc.dim(`\n  Use 'soul rollback <n|hash>' to return to an earlier soul.`));
+  });
+
+// --- rollback ---
+program
+  .command("rollback [ref]")
+  .description("Possess an earlier soul from history by position or hash (default: the previous one)")
+  .option("--force", "Overwrite SOUL.md even if it was edited since the last possess")
+  .option(...TARGET_OPTION)
+  .action(async (ref: string | undefined, opts: { force?: boolean }) => {
+    const entries = listHistory(resolveTarget().name);
+    if (entries.length === 0) {
+      fail("No possession history. Nothing to roll back to.");
+    }
+
+    // Without a ref, go back to the newest entry that differs from what's possessed now
+    let target = ref;
+    if (target === undefined) {
+      const current = currentSoulHash();
+      const index = entries.findIndex((e) => e.soul.hash !== current);
+      if (index === -1) fail("No earlier soul in history to roll back to.");
+      target = String(index);
+    }
+
+    if (!(await guardDrift(opts.force))) return;
+    const entry = rollbackToHistory(target);
+    if (!entry) {
+      fail(`No history entry matches '${target}'. Run 'soul history' to see available entries.`);
+    }
+
+    console.log(
+      pc.green(`\n⏪ Rolled back to ${pc.yellow(pc.bold(entry.soul.name))} ${pc.dim(entry.soul.hash.slice(0, 8))}`),
+    );
+    console.log(pc.dim(`  Written to ${getSoulPath()}`));
+  });
+
 // --- search ---
 program
   .command("search [query]")
   .description("Search the soul registry")
   .option("--top", "Sort by highest-rated")
   .option("--popular", "Sort by most popular")
+  .option("--recent", "Sort by most recently updated")
   .option("--no-interactive", "Print results without interactive selection")
   .action(
     async (
       query: string | undefined,
-      opts: { top?: boolean; popular?: boolean; interactive?: boolean },
+      opts: { top?: boolean; popular?: boolean; recent?: boolean; interactive?: boolean },
     ) => {
       try {
         const client = new RegistryClient();
-        const sort = opts.top ? "top" : opts.popular ? "popular" : undefined;
+        // Queries rank by relevance unless another order is asked for
+        const sort = opts.top
+          ? "top"
+          : opts.popular
+            ? "popular"
+            : query && !opts.recent
+              ? "relevance"
+              : undefined;
         log(
           `Searching registry: query=${query ?? "(all)"} sort=${sort ?? "recent"}`,
         );
@@ -317,6 +536,9 @@ program
             console.log(
               `  ${pc.cyan(pc.bold(soul.label))}${nameTag} ${pc.magenta(`by ${soul.author}`)}${rating}${desc}`,
             );
+            if (soul.snippet) {
+              console.log(`    ${pc.dim(formatSnippet(soul.snippet))}`);
+            }
           }
           return;
         }
@@ -337,6 +559,7 @@ program
           return {
             name: `${pc.cyan(pc.bold(soul.label))}${nameTag} ${author}${rating}${desc}`,
             value: soul.label,
+            description: soul.snippet ? pc.dim(formatSnippet(soul.snippet)) : undefined,
           };
         });
 
@@ -374,8 +597,8 @@ program
           default: true,
         });
 
-        if (shouldSwap) {
-          const { backedUp } = swapSoul(content);
+        if (shouldSwap && (await guardDrift())) {
+          const { backedUp } = swapSoul(content, { name });
           console.log(
             pc.green(`\n👻 Possessed with ${pc.yellow(pc.bold(name))}`),
           );
@@ -404,9 +627,40 @@ program
 
 // --- summon ---
 program
-  .command("summon <label>")
+  .command("summon [label]")
   .description("Download a soul from the registry to local cache")
-  .action(async (label: string) => {
+  .option("--draft <id>", "Download one of your drafts instead (e.g. a generated soul you haven't published)")
+  .action(async (label: string | undefined, opts: { draft?: string }) => {
+    if (opts.draft !== undefined && label !== undefined) {
+      fail("Give a soul label or --draft <id>, not both.");
+    }
+    if (opts.draft !== undefined) {
+      try {
+        const client = new RegistryClient();
+        if (!client.isAuthenticated) {
+          fail("Not logged in. Run 'soul login' or set SOUL_TOKEN.");
+        }
+        const draft = await client.getDraft(opts.draft);
+        if (!draft.content.trim()) {
+          fail(`Draft ${draft.id} is empty.`);
+        }
+        const hash = createHash("sha256").update(draft.content).digest("hex");
+        const name = draft.name ?? `draft-${draft.id}`;
+
+        // No label: a draft isn't on the registry, so 'soul update' leaves it alone
+        cacheSoul(name, draft.content, hash);
+
+        console.log(pc.green(`\n🔮 Summoned draft ${pc.yellow(pc.bold(name))} (${draft.id})`));
+        console.log(pc.dim(`  Cached locally. Use 'soul possess ${name}' to activate.`));
+      } catch (err) {
+        fail((err as Error).message);
+      }
+      return;
+    }
+    if (label === undefined) {
+      fail("Give a soul label to summon, or --draft <id>.");
+    }
+
     log(`Summoning soul '${label}' from registry`);
     try {
       const client = new RegistryClient();
@@ -432,14 +686,570 @@ program
     }
   });
 
+// --- fork ---
+program
+  .command("fork <label> [name]")
+  .description("Copy a registry soul into your cache under a new name, to edit and publish as a remix")
+  .option("-o, --output <file>", "Also write the fork to a file")
+  .action(async (label: string, name: string | undefined, opts: { output?: string }) => {
+    const client = new RegistryClient();
+    let meta: RegistrySoul;
+    let content: string;
+    try {
+      [meta, content] = await Promise.all([client.getMeta(label), client.getContent(label)]);
+    } catch (err) {
+      fail((err as Error).message);
+    }
+
+    const forkName = name?.trim() || `${meta.name} Remix`;
+    if (getCached(forkName)) {
+      fail(`A soul called '${forkName}' is already cached. Give the fork another name: soul fork ${label} <name>`);
+    }
+    let forked: string;
+    try {
+      forked = forkContent(content, forkName, meta.label);
+    } catch {
+      fail(`Couldn't read the frontmatter of '${label}', so it can't be forked.`);
+    }
+
+    let file = cacheSoul(forkName, forked, hashContent(forked));
+    if (opts.output) {
+      file = resolve(opts.output);
+      writeFileSync(file, forked, "utf-8");
+    }
+    client.trackDownload(meta.label);
+
+    console.log(pc.green(`\n🔮 Forked ${pc.yellow(pc.bold(meta.name))} as ${pc.yellow(pc.bold(forkName))}`));
+    console.log(pc.dim(`  Edit ${file}, then 'soul publish ${file}' to share it as a remix of ${meta.label}.`));
+  });
+
+// --- blend ---
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+// "source:Heading" or "source:Heading=New Heading"
+function parseTake(take: string): SectionPick {
+  const colon = take.indexOf(":");
+  if (colon <= 0 || colon === take.length - 1) {
+    fail(`Can't read --take '${take}'. Use <soul>:<Heading>, e.g. pirate:Voice`);
+  }
+  const [heading, as] = take.slice(colon + 1).split("=").map((s) => s.trim());
+  return { from: take.slice(0, colon), heading, ...(as ? { as } : {}) };
+}
+
+program
+  .command("blend <name>")
+  .description("Compose a new soul from sections of other souls (files, cached souls, registry labels or @current)")
+  .option("-b, --base <soul>", "Soul providing every section not taken from elsewhere")
+  .option("--take <soul:heading>", "Take a section from a soul, optionally renamed with '=New Heading' (repeatable)", collect, [])
+  .option("--author <author>", "Author of the blend (default: the authors of its sources)")
+  .option("--description <text>", "Description for the blend's frontmatter")
+  .option("--conflicts <rule>", "When two sections get the same heading: error or suffix", "error")
+  .option("-o, --output <file>", "Also write the blend to a file ('-' prints it)")
+  .option("--possess", "Possess the blend once it's cached")
+  .option("--force", "Overwrite SOUL.md even if it was edited since the last possess")
+  .option(...TARGET_OPTION)
+  .action(async (name: string, opts: {
+    base?: string;
+    take: string[];
+    author?: string;
+    description?: string;
+    conflicts: string;
+    output?: string;
+    possess?: boolean;
+    force?: boolean;
+  }) => {
+    if (opts.conflicts !== "error" && opts.conflicts !== "suffix") {
+      fail(`Unknown conflict rule '${opts.conflicts}'. Use error or suffix.`);
+    }
+    const picks = opts.take.map(parseTake);
+    const refs = [...new Set([...(opts.base ? [opts.base] : []), ...picks.map((p) => p.from)])];
+    if (refs.length === 0) {
+      fail("Nothing to blend. Give a --base soul and/or --take sections, e.g. --take pirate:Voice");
+    }
+
+    const client = new RegistryClient();
+    const sources: Record<string, SoulFile> = {};
+    for (const ref of refs) {
+      try {
+        const resolved = await resolveSoulRef(ref, client);
+        log(`${ref}: ${resolved.source} ${resolved.name}`);
+        sources[ref] = parseSoulFile(resolved.content);
+      } catch (err) {
+        fail((err as Error).message);
+      }
+    }
+
+    let blend: ComposedSoul;
+    try {
+      blend = composeSoul(sources, {
+        name,
+        base: opts.base,
+        sections: picks,
+        author: opts.author,
+        description: opts.description,
+        conflicts: opts.conflicts,
+      });
+    } catch (err) {
+      if (err instanceof ComposeError) fail(err.message);
+      throw err;
+    }
+    for (const warning of blend.warnings) {
+      console.error(pc.yellow(`⚠ ${warning}`));
+    }
+
+    if (opts.output === "-") {
+      process.stdout.write(blend.content);
+      return;
+    }
+    if (opts.output) {
+      writeFileSync(resolve(opts.output), blend.content, "utf-8");
+    }
+
+    cacheSoul(name, blend.content, hashContent(blend.content));
+    console.log(pc.green(`\n🧪 Blended ${pc.yellow(pc.bold(name))}`));
+    for (const entry of blend.provenance) {
+      const renamed = entry.original ? pc.dim(` (was ${entry.original})`) : "";
+      console.log(`  ${entry.heading}${renamed} ${pc.dim(`← ${entry.source}`)}`);
+    }
+    if (opts.output) console.log(pc.dim(`  Written to ${resolve(opts.output)}`));
+
+    if (!opts.possess) {
+      console.log(pc.dim(`  Cached locally. Use 'soul possess ${name}' to activate.`));
+      return;
+    }
+    if (!(await guardDrift(opts.force))) return;
+    swapSoul(blend.content, { name });
+    touchCached(name);
+    console.log(pc.green(`👻 Possessed with ${pc.yellow(pc.bold(name))}`));
+    console.log(pc.dim(`  Written to ${getSoulPath()}`));
+  });
+
+// --- diff ---
+program
+  .command("diff <a> [b]")
+  .description(`Compare two souls section by section (files, cached souls, registry labels, label@version or ${CURRENT_REF})`)
+  .option("--json", "Print the diff as JSON")
+  .option(...TARGET_OPTION)
+  .action(async (a: string, b: string | undefined, opts: { json?: boolean }) => {
+    const client = new RegistryClient();
+    let before: ResolvedSoul;
+    let after: ResolvedSoul;
+    try {
+      [before, after] = await Promise.all([resolveSoulRef(a, client), resolveSoulRef(b ?? CURRENT_REF, client)]);
+    } catch (err) {
+      fail((err as Error).message);
+    }
+    const parse = (soul: ResolvedSoul): SoulFile => {
+      try {
+        return parseSoulFile(soul.content);
+      } catch (err) {
+        fail(`Can't compare ${soul.name}: its frontmatter is invalid (${(err as Error).message.split("\n")[0]})`);
+      }
+    };
+    const diff = diffSouls(parse(before), parse(after));
+
+    if (opts.json) {
+      console.log(JSON.stringify({ a: before.ref, b: after.ref, ...diff }, null, 2));
+    } else {
+      console.log(pc.dim(`--- ${before.name} (${before.source})`));
+      console.log(pc.dim(`+++ ${after.name} (${after.source})\n`));
+      console.log(formatSoulDiff(diff));
+    }
+    if (!diff.identical) process.exitCode = 1;
+  });
+
+// --- export ---
+program
+  .command("export <soul>")
+  .description(`Convert a soul for another tool (file, cached soul, registry label or ${CURRENT_REF})`)
+  .requiredOption(
+    "-f, --format <format>",
+    `One of: ${Object.keys(EXPORT_FORMATS).join(", ")}`,
+  )
+  .option("-o, --output <file>", "Write to a file instead of stdout")
+  .option(...TARGET_OPTION)
+  .action(async (ref: string, opts: { format: string; output?: string }) => {
+    if (!isExportFormat(opts.format)) {
+      fail(
+        `Unknown format '${opts.format}'. Available:\n${Object.entries(EXPORT_FORMATS)
+          .map(([name, info]) => `    ${pc.cyan(name.padEnd(20))} ${info.description}`)
+          .join("\n")}`,
+      );
+    }
+    let resolved: ResolvedSoul;
+    try {
+      resolved = await resolveSoulRef(ref, new RegistryClient());
+    } catch (err) {
+      fail((err as Error).message);
+    }
+    let soul: SoulFile;
+    try {
+      soul = parseSoulFile(resolved.content);
+    } catch (err) {
+      fail(`Can't export ${resolved.name}: its frontmatter is invalid (${(err as Error).message.split("\n")[0]})`);
+    }
+    const output = exportSoul(soul, opts.format);
+
+    if (!opts.output) {
+      process.stdout.write(output);
+      return;
+    }
+    const path = resolve(opts.output);
+    writeFileSync(path, output, "utf-8");
+    console.error(pc.green(`✓ Exported ${pc.yellow(pc.bold(resolved.name))} as ${opts.format} to ${path}`));
+  });
+
+// --- import ---
+program
+  .command("import <file>")
+  .description("Convert a character card, system prompt or AGENTS.md/CLAUDE.md into a SOUL.md and cache it")
+  .option("--from <format>", `One of: ${Object.keys(IMPORT_FORMATS).join(", ")} (default: guessed from the file)`)
+  .option("--name <name>", "Name for the soul (default: the name found in the file)")
+  .option("--author <author>", "Author for the frontmatter (default: the author found in the file)")
+  .option("-o, --output <file>", "Also write the SOUL.md to a file ('-' prints it)")
+  .option("--publish", "Publish the converted soul to the registry")
+  .option("--possess", "Possess the soul once it's cached")
+  .option("--force", "Overwrite SOUL.md even if it was edited since the last possess")
+  .option(...TARGET_OPTION)
+  .action(async (file: string, opts: {
+    from?: string;
+    name?: string;
+    author?: string;
+    output?: string;
+    publish?: boolean;
+    possess?: boolean;
+    force?: boolean;
+  }) => {
+    const path = resolve(file);
+    if (!existsSync(path)) {
+      fail(`File not found: ${file}`);
+    }
+    const raw = readFileSync(path, "utf-8");
+    const format = opts.from ?? detectImportFormat(basename(path), raw);
+    if (!isImportFormat(format)) {
+      fail(
+        `Unknown format '${format}'. Available:\n${Object.entries(IMPORT_FORMATS)
+          .map(([name, info]) => `    ${pc.cyan(name.padEnd(16))} ${info.description}`)
+          .join("\n")}`,
+      );
+    }
+    log(`Importing ${path} as ${format}`);
+
+    const client = new RegistryClient();
+    if (opts.publish && !client.isAuthenticated) {
+      fail("Not logged in. Run 'soul login' or set SOUL_TOKEN.");
+    }
+
+    let imported: ImportedSoul;
+    try {
+      imported = importSoul(raw, format, { name: opts.name, author: opts.author });
+    } catch (err) {
+      if (err instanceof ImportError) fail(err.message);
+      throw err;
+    }
+    for (const warning of imported.warnings) {
+      console.error(pc.yellow(`⚠ ${warning}`));
+    }
+    const { content, soul } = imported;
+    const name = soul.frontmatter.name;
+    if (!name) {
+      fail(`Couldn't tell what ${file} is called. Pass one with --name.`);
+    }
+
+    // Same checks as 'soul lint'; line numbers refer to the converted SOUL.md
+    const validation = validateSoulFile(content, loadLintOptions());
+    if (validation.diagnostics.length > 0) {
+      console.error(
+        formatResults([{ file: `${basename(path)} (as SOUL.md)`, valid: validation.valid, diagnostics: validation.diagnostics }], "text", {
+          version: pkg.version,
+        }),
+      );
+    }
+    if (!validation.valid) {
+      fail(`\nThe converted soul has errors; not imported. Write it out with -o to fix it by hand.`);
+    }
+
+    if (opts.output === "-") {
+      process.stdout.write(content);
+      return;
+    }
+    const output = opts.output ? resolve(opts.output) : undefined;
+    if (output) {
+      writeFileSync(output, content, "utf-8");
+    }
+
+    let label: string | undefined;
+    if (opts.publish) {
+      try {
+        const created = await client.publish(content);
+        label = created.label;
+        // Lets 'soul publish' on the written file update this soul later
+        if (output) recordPublished(output, created.slug);
+      } catch (err) {
+        if (err instanceof RegistryError && err.diagnostics.length > 0) {
+          console.log(formatResults([{ file: path, valid: false, diagnostics: err.diagnostics }], "text", { version: pkg.version }));
+        }
+        fail((err as Error).message);
+      }
+    }
+
+    cacheSoul(name, content, hashContent(content), label);
+    console.log(pc.green(`\n📥 Imported ${pc.yellow(pc.bold(name))} from ${format}`));
+    for (const section of soul.sections) {
+      console.log(`  ${section.heading}`);
+    }
+    if (output) console.log(pc.dim(`  Written to ${output}`));
+    if (label) console.log(pc.green(`📤 Published as ${pc.bold(label)}`));
+
+    if (!opts.possess) {
+      console.log(pc.dim(`  Cached locally. Use 'soul possess ${name}' to activate.`));
+      return;
+    }
+    if (!(await guardDrift(opts.force))) return;
+    swapSoul(content, { name });
+    touchCached(name);
+    console.log(pc.green(`👻 Possessed with ${pc.yellow(pc.bold(name))}`));
+    console.log(pc.dim(`  Written to ${getSoulPath()}`));
+  });
+
+// --- generate ---
+program
+  .command("generate <prompt>")
+  .description("Write a new soul from a description with the registry's generator")
+  .option("--name <name>", "Name to cache the soul as (default: the name it was given)")
+  .option("-o, --output <file>", "Write the SOUL.md to a file ('-' prints only the soul)")
+  .option("--publish", "Publish the soul to the registry")
+  .option("--possess", "Possess the soul once it's cached")
+  .option("--force", "Overwrite SOUL.md even if it was edited since the last possess")
+  .option(...TARGET_OPTION)
+  .action(async (prompt: string, opts: {
+    name?: string;
+    output?: string;
+    publish?: boolean;
+    possess?: boolean;
+    force?: boolean;
+  }) => {
+    if (!prompt.trim()) {
+      fail(`Describe the soul you want, e.g. soul generate "a stoic lighthouse keeper"`);
+    }
+    const client = new RegistryClient();
+    if (!client.isAuthenticated) {
+      fail("Not logged in. Run 'soul login' or set SOUL_TOKEN.");
+    }
+
+    // With '-o -' stdout carries only the soul, so status goes to stderr
+    const printOnly = opts.output === "-";
+    const status = printOnly ? console.error : console.log;
+    status(pc.magenta(`\n🔮 Summoning a soul: ${pc.dim(prompt.trim())}\n`));
+
+    let generated: GeneratedSoul;
+    try {
+      generated = await client.generate(prompt, (text) => process.stdout.write(text));
+    } catch (err) {
+      process.stdout.write("\n");
+      fail((err as Error).message);
+    }
+    const { content, draft } = generated;
+    if (!content.endsWith("\n")) process.stdout.write("\n");
+    const draftHint = draft !== null ? ` It's saved as draft ${draft}; use 'soul summon --draft ${draft}' to get it again.` : "";
+
+    const validation = validateSoulFile(content, loadLintOptions());
+    if (validation.diagnostics.length > 0) {
+      console.error(
+        formatResults([{ file: "generated SOUL.md", valid: validation.valid, diagnostics: validation.diagnostics }], "text", {
+          version: pkg.version,
+        }),
+      );
+    }
+    if (printOnly) {
+      if (draft !== null) console.error(pc.dim(`Saved as draft ${draft}`));
+      return;
+    }
+
+    const name = opts.name?.trim() || generatedName(generated);
+    let output = opts.output ? resolve(opts.output) : undefined;
+    let publish = opts.publish ?? false;
+    let possess = opts.possess ?? false;
+    let cache = true;
+
+    // Nothing asked for on the command line: offer the choices
+    if (!output && !publish && !possess && process.stdin.isTTY) {
+      const { checkbox, input } = await import("@inquirer/prompts");
+      try {
+        const actions = await checkbox({
+          message: "What should happen to it?",
+          choices: [
+            { name: "Save to cache", value: "cache", checked: true },
+            { name: "Write to a file", value: "write" },
+            { name: "Publish to the registry", value: "publish", disabled: validation.valid ? false : "(has errors)" },
+            { name: "Possess your agent with it now", value: "possess", disabled: validation.valid ? false : "(has errors)" },
+          ],
+        });
+        if (actions.includes("write")) {
+          const file = await input({ message: "Write to:", default: `${name.toLowerCase().replace(/\s+/g, "-")}.soul.md` });
+          output = resolve(file.trim());
+        }
+        publish = actions.includes("publish");
+        possess = actions.includes("possess");
+        cache = actions.includes("cache") || publish || possess;
+      } catch (err) {
+        if ((err as Error).name !== "ExitPromptError") throw err;
+        console.log(pc.dim(`\nNothing saved locally.${draftHint}`));
+        return;
+      }
+    }
+
+    if (output) {
+      writeFileSync(output, content, "utf-8");
+    }
+    if (!validation.valid) {
+      fail(`\nThe generated soul has errors, so it wasn't cached.${output ? ` Fix it in ${output}.` : ""}${draftHint}`);
+    }
+
+    let label: string | undefined;
+    if (publish) {
+      try {
+        // Publishing the draft removes it, so the registry doesn't keep a copy
+        const created = draft !== null ? await client.promoteDraft(draft, content) : await client.publish(content);
+        label = created.label;
+        if (output) recordPublished(output, created.slug);
+      } catch (err) {
+        if (err instanceof RegistryError && err.diagnostics.length > 0) {
+          console.log(formatResults([{ file: "generated SOUL.md", valid: false, diagnostics: err.diagnostics }], "text", { version: pkg.version }));
+        }
+        fail((err as Error).message);
+      }
+    }
+
+    if (!cache) {
+      if (output) console.log(pc.dim(`  Written to ${output}`));
+      console.log(pc.dim(`  Not cached.${draftHint}`));
+      return;
+    }
+    cacheSoul(name, content, hashContent(content), label);
+    console.log(pc.green(`\n🔮 Summoned ${pc.yellow(pc.bold(name))}`));
+    if (output) console.log(pc.dim(`  Written to ${output}`));
+    if (label) console.log(pc.green(`📤 Published as ${pc.bold(label)}`));
+
+    if (!possess) {
+      console.log(pc.dim(`  Cached locally. Use 'soul possess ${name}' to activate.`));
+      return;
+    }
+    if (!(await guardDrift(opts.force))) return;
+    swapSoul(content, { name });
+    touchCached(name);
+    console.log(pc.green(`👻 Possessed with ${pc.yellow(pc.bold(name))}`));
+    console.log(pc.dim(`  Written to ${getSoulPath()}`));
+  });
+
+// --- publish ---
+program
+  .command("publish <file>")
+  .description("Publish a SOUL.md to the registry, or update the soul it was published as")
+  .option("--slug <slug>", "Registry soul to update (overrides frontmatter 'slug' and " + MANIFEST_FILE + ")")
+  .option("-m, --changelog <message>", "Describe what changed in this version")
+  .option("--dry-run", "Validate and show what would change without publishing")
+  .action(async (file: string, opts: { slug?: string; changelog?: string; dryRun?: boolean }) => {
+    const path = resolve(file);
+    if (!existsSync(path)) {
+      fail(`File not found: ${file}`);
+    }
+    const content = readFileSync(path, "utf-8");
+
+    // Lint locally first so CI fails with positions before anything is sent
+    const [result] = lintFiles([path], loadLintOptions());
+    const report = formatResults([result], "text", { version: pkg.version });
+    if (report && result.diagnostics.length > 0) console.log(report);
+    if (!result.valid) {
+      fail(`\n${file} has errors; not published.`);
+    }
+
+    const client = new RegistryClient();
+    if (!client.isAuthenticated && !opts.dryRun) {
+      fail("Not logged in. Run 'soul login' or set SOUL_TOKEN.");
+    }
+
+    const target = resolvePublishSlug(path, content, { slug: opts.slug });
+    const label = publishLabel(content);
+    try {
+      if (!target) {
+        if (opts.dryRun) {
+          console.log(pc.cyan(`\nDry run: ${file} would be published as a new soul.`));
+          return;
+        }
+        const created = await client.publish(content);
+        recordPublished(path, created.slug);
+        if (label && label !== created.label) {
+          await client.updateMeta(created.slug, { label });
+        }
+        console.log(pc.green(`\n📤 Published ${pc.yellow(pc.bold(created.name))} as ${pc.bold(label ?? created.label)}`));
+        console.log(pc.dim(`  Recorded in ${MANIFEST_FILE} so later publishes update it.`));
+        return;
+      }
+
+      log(`Updating '${target.slug}' (from ${target.source})`);
+      const [meta, remote] = await Promise.all([client.getMeta(target.slug), client.getContent(target.slug)]);
+      const changed = remote !== content;
+      const relabel = label !== undefined && label !== meta.label;
+      if (changed) {
+        console.log(`\n${formatDiff(remote, content)}\n`);
+      } else {
+        console.log(pc.dim(`\nNo content changes for ${meta.label}.`));
+      }
+
+      if (opts.dryRun) {
+        const actions = [changed && "publish a new version", relabel && `relabel it to ${label}`].filter(Boolean);
+        console.log(pc.cyan(`Dry run: would ${actions.length ? actions.join(" and ") : "update nothing"} for ${pc.bold(meta.label)}.`));
+        return;
+      }
+
+      // PUT also syncs name, description, tags and license from the frontmatter
+      const update = await client.updateContent(target.slug, content, opts.changelog);
+      if (relabel) {
+        await client.updateMeta(target.slug, { label });
+      }
+      console.log(
+        changed
+          ? pc.green(`📤 Published ${pc.bold(relabel ? label! : meta.label)} v${update.version}`)
+          : pc.green(`Metadata for ${pc.bold(relabel ? label! : meta.label)} is up to date.`),
+      );
+    } catch (err) {
+      if (err instanceof RegistryError && err.diagnostics.length > 0) {
+        console.log(formatResults([{ file: path, valid: false, diagnostics: err.diagnostics }], "text", { version: pkg.version }));
+      }
+      fail((err as Error).message);
+    }
+  });
+
+// --- rate ---
+program
+  .command("rate <label> <rating>")
+  .description("Rate a soul in the registry from 1 to 5 (requires 'soul login')")
+  .action(async (label: string, rating: string) => {
+    const value = Number(rating);
+    if (!Number.isInteger(value) || value < 1 || value > 5) {
+      fail("Rating must be a whole number from 1 to 5");
+    }
+    try {
+      const res = await new RegistryClient().rate(label, value);
+      console.log(pc.green(`\n⭐ Rated ${pc.bold(label)} ${value}/5`));
+      console.log(pc.dim(`  Now ${res.rating_avg.toFixed(1)} from ${res.rating_count} rating${res.rating_count === 1 ? "" : "s"}`));
+    } catch (err) {
+      fail((err as Error).message);
+    }
+  });
+
 // --- list ---
 program
   .command("list")
   .description("List locally cached souls (most recently used first)")
   .option("-p, --page <number>", "Page number", "1")
   .option("-n, --per-page <number>", "Souls per page", "20")
-  .action((opts) => {
-    const cached = listCached();
+  .option("--offline", "Don't check the registry for newer versions")
+  .action(async (opts) => {
+    let cached = listCached();
     if (cached.length === 0) {
       console.log(
         pc.yellow(
@@ -449,6 +1259,14 @@ program
       return;
     }
 
+    // Best effort: when offline, entries keep whatever the last check found
+    const unchecked = cached.filter((e) => needsCheck(e));
+    if (!opts.offline && unchecked.length > 0) {
+      log(`Checking ${unchecked.length} soul(s) for updates`);
+      await checkCached(new RegistryClient(), unchecked);
+      cached = listCached();
+    }
+
     const sorted = [...cached].sort((a, b) => {
       const aUsed = a.lastUsedAt ?? "";
       const bUsed = b.lastUsedAt ?? "";
@@ -472,7 +1290,8 @@ program
         entry.label && entry.name !== entry.label
           ? ` ${pc.dim(`(${entry.name})`)}`
           : "";
-      console.log(`  ${pc.yellow(label)}${nameDisplay}`);
+      const stale = isStale(entry) ? ` ${pc.cyan("(update available)")}` : "";
+      console.log(`  ${pc.yellow(label)}${nameDisplay}${stale}`);
     }
 
     if (totalPages > 1) {
@@ -480,6 +1299,86 @@ program
         pc.dim(`\n  Page ${page}/${totalPages} (${sorted.length} souls)`),
       );
     }
+    if (sorted.some(isStale)) {
+      console.log(pc.dim(`\n  Run 'soul update --all' to fetch the latest versions.`));
+    }
+  });
+
+// --- update ---
+program
+  .command("update [name]")
+  .description("Update cached souls to their latest registry versions")
+  .option("-a, --all", "Update every soul summoned from the registry")
+  .option("--check", "Only list outdated souls, without downloading")
+  .option("--possess", "Re-possess the active soul if it was updated, without asking")
+  .option("--force", "Overwrite SOUL.md even if it was edited since the last possess")
+  .option(...TARGET_OPTION)
+  .action(async (name: string | undefined, opts: { all?: boolean; check?: boolean; possess?: boolean; force?: boolean }) => {
+    if (!name && !opts.all) {
+      fail("Name a cached soul to update, or pass --all.");
+    }
+
+    let entries = listCached();
+    if (name) {
+      const cached = getCached(name);
+      if (!cached) fail(`Soul '${name}' not found in cache.`);
+      if (!cached.entry.label) {
+        fail(`Soul '${cached.entry.name}' wasn't summoned from the registry, so there is nothing to update.`);
+      }
+      entries = [cached.entry];
+    }
+
+    const client = new RegistryClient();
+    log(`Registry URL: ${loadConfig().registry_url}`);
+    const s = spinner(pc.cyan("Checking the registry..."));
+    const results = await checkCached(client, entries);
+    s.stop();
+
+    for (const failed of results.filter((r) => r.error)) {
+      console.log(pc.red(`  ✗ ${failed.entry.label}: ${failed.error}`));
+    }
+    const outdated = results.filter((r) => r.stale);
+    if (outdated.length === 0) {
+      if (results.some((r) => r.error)) process.exitCode = 1;
+      console.log(pc.green(`\nAll ${results.length - results.filter((r) => r.error).length} soul(s) are up to date.`));
+      return;
+    }
+
+    console.log(pc.bold(`\n${outdated.length} outdated:\n`));
+    for (const r of outdated) {
+      console.log(`  ${pc.yellow(r.entry.label!)} ${pc.dim(`${r.entry.hash.slice(0, 7)} → ${r.remoteHash!.slice(0, 7)}`)}`);
+    }
+    if (opts.check) return;
+
+    // Compare before updating, since the update replaces the cached hash
+    const activeHash = currentSoulHash();
+    let active: { name: string; content: string } | null = null;
+    console.log();
+    for (const r of outdated) {
+      try {
+        const updated = await updateCached(client, { ...r.entry, label: r.entry.label! });
+        if (!updated) continue;
+        console.log(pc.green(`  ✓ Updated ${pc.bold(r.entry.name)}`));
+        if (r.entry.hash === activeHash) active = { name: r.entry.name, content: updated.content };
+      } catch (err) {
+        console.log(pc.red(`  ✗ ${r.entry.label}: ${(err as Error).message}`));
+        process.exitCode = 1;
+      }
+    }
+
+    if (!active) return;
+    let repossess = opts.possess ?? false;
+    if (!repossess && process.stdin.isTTY) {
+      repossess = await confirm(`\n${pc.bold(active.name)} is currently possessing your agent. Possess with the new version?`, true);
+    }
+    if (!repossess) {
+      console.log(pc.dim(`  Run 'soul possess ${active.name}' to switch to the new version.`));
+      return;
+    }
+    if (!(await guardDrift(opts.force))) return;
+    swapSoul(active.content, { name: active.name });
+    touchCached(active.name);
+    console.log(pc.green(`\n👻 Possessed with the new ${pc.yellow(pc.bold(active.name))}`));
   });
 
 // --- banish ---
@@ -501,6 +1400,7 @@ program
 program
   .command("status")
   .description("Show current SOUL.md status and possession state")
+  .option(...TARGET_OPTION)
   .action(() => {
     const soulPath = getSoulPath();
     const wsDir = dirname(soulPath);
@@ -515,23 +1415,31 @@ program
 
     const content = readCurrentSoul();
     if (!content) {
-      console.log(pc.yellow(`No SOUL.md found at ${soulPath}`));
+      console.log(pc.yellow(`No ${basename(soulPath)} found at ${soulPath}`));
       return;
     }
 
-    const swapped = isSwapped();
+    const drift = getDrift();
+    const swapped = isSwapped() || drift !== null;
     console.log(pc.bold("\nSOUL.md Status"));
+    console.log(`Target: ${resolveTarget().name}`);
     console.log(`Path: ${soulPath}`);
+    console.log(`Adapter: ${getAdapterKind() ?? pc.yellow("unknown")}`);
     console.log(
-      `State: ${swapped ? pc.cyan("possessed") : pc.green("original")}`,
+      `State: ${drift ? pc.yellow("possessed (modified)") : swapped ? pc.cyan("possessed") : pc.green("original")}`,
     );
     console.log(`Backup: ${hasBackup() ? pc.green("saved") : pc.dim("none")}`);
 
     if (swapped) {
-      const rawContent = content.split("\n").slice(1).join("\n");
+      const rawContent = drift ? drift.content : (extractSoul() ?? "");
       const firstLine = rawContent.trim().split("\n")[0] ?? "";
       console.log(`Preview: ${pc.cyan(firstLine)}`);
     }
+    if (drift) {
+      console.log(
+        pc.dim(`\n  Edited since ${drift.name} was possessed. The next possess, rollback or exorcise will offer to save the edits.`),
+      );
+    }
   });
 
 // --- path ---
@@ -539,39 +1447,135 @@ program
   .command("path [newPath]")
   .description("Show or set the SOUL.md file path (or --skills for skills dir)")
   .option("--skills", "Show or set the OpenClaw skills directory path")
+  .option(...TARGET_OPTION)
   .action((newPath: string | undefined, opts: { skills?: boolean }) => {
     const key = opts.skills ? "skills_path" : "soul_path";
     const label = opts.skills ? "Skills path" : "SOUL.md path";
+    const target = resolveTarget();
     if (newPath) {
       const resolved = resolve(newPath);
-      setConfigValue(key, resolved);
+      if (target.name === DEFAULT_TARGET) {
+        setConfigValue(key, resolved);
+      } else {
+        const { soul_path, skills_path } = target;
+        addTarget(target.name, { soul_path, skills_path, ...loadConfig().targets?.[target.name], [key]: resolved });
+      }
       console.log(pc.green(`  ${label} set to ${pc.yellow(resolved)}`));
     } else {
-      console.log(opts.skills ? loadConfig().skills_path : getSoulPath());
+      console.log(opts.skills ? target.skills_path : getSoulPath());
     }
   });
 
 // --- install ---
+function installSkillCommand() {
+  const { path, updated } = installSkill();
+  if (updated) {
+    console.log(pc.green(`\n✓ Updated OpenSOUL skill`));
+  } else {
+    console.log(pc.green(`\n✓ Installed OpenSOUL skill`));
+  }
+  console.log(pc.dim(`  ${path}`));
+  console.log(
+    pc.dim(`  Your OpenClaw bot can now possess souls via natural language.`),
+  );
+}
+
 program
-  .command("install")
-  .description("Install the OpenSoul skill into OpenClaw")
-  .action(() => {
-    const { path, updated } = installSkill();
-    if (updated) {
-      console.log(pc.green(`\n✓ Updated OpenSOUL skill`));
+  .command("install [label]")
+  .description(`Install the project's soul from ${PROJECT_FILE}/${LOCK_FILE}, or the OpenSoul skill when there is none`)
+  .option("--frozen", `Install exactly what ${LOCK_FILE} pins and fail on any mismatch (for CI)`)
+  .option("--skill", "Install the OpenSoul skill into OpenClaw")
+  .option("--force", "Overwrite SOUL.md even if it was edited since the last possess")
+  .option(...TARGET_OPTION)
+  .action(async (label: string | undefined, opts: { frozen?: boolean; skill?: boolean; force?: boolean; target?: string }) => {
+    if (opts.skill || (!label && !hasProject())) {
+      installSkillCommand();
+      return;
+    }
+
+    let manifest: ProjectManifest | null;
+    let lock: LockedSoul | null;
+    try {
+      manifest = loadManifest();
+      lock = loadLock();
+    } catch (err) {
+      fail((err as Error).message);
+    }
+
+    if (label) {
+      if (opts.frozen) fail(`--frozen installs what ${LOCK_FILE} pins; it can't add a soul.`);
+      manifest = { ...manifest, soul: label };
+      saveManifest(manifest);
+      console.log(pc.dim(`  Set soul: ${label} in ${PROJECT_FILE}`));
+    }
+
+    // The manifest's target applies unless --target was given
+    if (manifest?.target && !opts.target) {
+      try {
+        setActiveTarget(manifest.target);
+      } catch (err) {
+        fail((err as Error).message);
+      }
+    }
+
+    let content: string;
+    let locked: LockedSoul;
+    if (opts.frozen) {
+      if (!lock) fail(`--frozen needs a ${LOCK_FILE}. Run 'soul install' to create one.`);
+      const mismatch = lockMismatch(manifest, lock);
+      if (mismatch) fail(`${mismatch}.\n\n  Run 'soul install' to update ${LOCK_FILE}.`);
+      const s = spinner(pc.cyan(`🔮 Installing ${lock.label}...`));
+      try {
+        const fetched = await fetchLocked(new RegistryClient(lock.registry), lock);
+        s.stop();
+        log(`Got ${lock.label} from ${fetched.source}`);
+        content = fetched.content;
+      } catch (err) {
+        s.stop();
+        fail(`✗ ${(err as Error).message}`);
+      }
+      locked = lock;
     } else {
-      console.log(pc.green(`\n✓ Installed OpenSOUL skill`));
+      const registry = manifest?.registry ?? lock?.registry ?? loadConfig().registry_url;
+      const soulLabel = manifest?.soul ?? lock!.label;
+      const s = spinner(pc.cyan(`🔮 Resolving ${soulLabel}...`));
+      try {
+        const client = new RegistryClient(registry);
+        const resolved = await resolveLatest(client, soulLabel, registry);
+        s.stop();
+        content = resolved.content;
+        locked = resolved.lock;
+        cacheSoul(locked.name, content, locked.hash, locked.label);
+        client.trackDownload(locked.label);
+      } catch (err) {
+        s.stop();
+        fail((err as Error).message);
+      }
+      if (lock && lock.hash !== locked.hash) {
+        console.log(pc.dim(`  ${locked.label} changed since ${LOCK_FILE} was written; updating it`));
+      }
+      saveLock(locked);
     }
-    console.log(pc.dim(`  ${path}`));
-    console.log(
-      pc.dim(`  Your OpenClaw bot can now possess souls via natural language.`),
-    );
+
+    if (getAdapterKind() === null) {
+      fail(`Don't know how to possess ${pc.yellow(basename(getSoulPath()))}. Configure a target adapter first.`);
+    }
+    if (currentSoulHash() === locked.hash) {
+      console.log(pc.green(`\n✓ ${pc.bold(locked.name)} is already installed`) + pc.dim(` (${locked.hash.slice(0, 7)})`));
+      return;
+    }
+    if (!(await guardDrift(opts.force))) return;
+    swapSoul(content, { name: locked.name });
+    touchCached(locked.label);
+    console.log(pc.green(`\n👻 Possessed with ${pc.yellow(pc.bold(locked.name))}`) + pc.dim(` (${locked.hash.slice(0, 7)})`));
+    console.log(pc.dim(`  Written to ${getSoulPath()}`));
   });
 
 // --- uninstall ---
 program
   .command("uninstall")
   .description("Remove the OpenSoul skill from OpenClaw")
+  .option(...TARGET_OPTION)
   .action(() => {
     if (!isSkillInstalled()) {
       console.log(pc.yellow("OpenSoul skill is not installed."));
@@ -586,6 +1590,223 @@ program
     }
   });
 
+// --- lint ---
+program
+  .command("lint <files...>")
+  .description("Validate SOUL.md files (accepts paths, directories, and globs)")
+  .option(
+    "-f, --format <format>",
+    "Output format: text, json, sarif, or github",
+    "text",
+  )
+  .action((files: string[], opts: { format: string }) => {
+    const formats: LintFormat[] = ["text", "json", "sarif", "github"];
+    if (!formats.includes(opts.format as LintFormat)) {
+      fail(
+        `Unknown format '${opts.format}'. Use one of: ${formats.join(", ")}`,
+      );
+    }
+
+    const paths = expandPatterns(files);
+    if (paths.length === 0) {
+      fail(`No files matched ${files.join(" ")}`);
+    }
+    log(`Linting ${paths.length} file(s)`);
+
+    const results = lintFiles(paths, loadLintOptions());
+    const output = formatResults(results, opts.format as LintFormat, {
+      version: pkg.version,
+    });
+    if (output) console.log(output);
+
+    if (results.some((r) => !r.valid)) {
+      process.exitCode = 1;
+    }
+  });
+
+// --- target ---
+const targetCmd = program
+  .command("target")
+  .description("Manage named agent targets (separate SOUL.md, skills and backups)");
+
+targetCmd
+  .command("add <name> <soulPath>")
+  .description("Add a target pointing at an agent's SOUL.md or workspace directory")
+  .option("--skills <path>", "Skills directory (default: 'skills' next to the workspace)")
+  .option("--backup <dir>", "Backup directory (default: ~/.soul/backup/<name>)")
+  .option(
+    "--adapter <kind>",
+    `How to write the soul: ${Object.keys(ADAPTERS).join(", ")} (default: inferred from the file name)`,
+  )
+  .option("--json-key <key>", "Key the json adapter writes to, dot-separated (default: systemPrompt)")
+  .action((name: string, soulPath: string, opts: { skills?: string; backup?: string; adapter?: string; jsonKey?: string }) => {
+    if (opts.adapter && !isAdapterKind(opts.adapter)) {
+      fail(`Unknown adapter '${opts.adapter}'. Available: ${Object.keys(ADAPTERS).join(", ")}`);
+    }
+    const soul_path = resolve(soulPath);
+    // OpenClaw layout: <root>/workspace/SOUL.md alongside <root>/skills
+    const workspace = soul_path.endsWith(".md") ? dirname(soul_path) : soul_path;
+    const skills_path = opts.skills ? resolve(opts.skills) : join(dirname(workspace), "skills");
+    try {
+      addTarget(name, {
+        soul_path,
+        skills_path,
+        ...(opts.backup ? { backup_dir: resolve(opts.backup) } : {}),
+        ...(opts.adapter && isAdapterKind(opts.adapter) ? { adapter: opts.adapter } : {}),
+        ...(opts.jsonKey ? { json_key: opts.jsonKey } : {}),
+      });
+    } catch (err) {
+      fail((err as Error).message);
+    }
+    console.log(pc.green(`✓ Added target ${pc.yellow(pc.bold(name))}`));
+    console.log(pc.dim(`  SOUL.md: ${soul_path}`));
+    console.log(pc.dim(`  Skills:  ${skills_path}`));
+  });
+
+targetCmd
+  .command("list")
+  .description("List configured targets")
+  .action(() => {
+    const current = resolveTarget().name;
+    console.log(pc.bold("\nTargets:\n"));
+    for (const target of listTargets()) {
+      const marker = target.name === current ? pc.green("*") : " ";
+      console.log(`  ${marker} ${pc.cyan(pc.bold(target.name))}`);
+      console.log(pc.dim(`      SOUL.md: ${target.soul_path}`));
+      console.log(pc.dim(`      Skills:  ${target.skills_path}`));
+      console.log(pc.dim(`      Backup:  ${target.backup_dir}`));
+      if (target.adapter) console.log(pc.dim(`      Adapter: ${target.adapter}`));
+    }
+  });
+
+targetCmd
+  .command("use <name>")
+  .description("Set the target used when --target is not given")
+  .action((name: string) => {
+    try {
+      useTarget(name);
+    } catch (err) {
+      fail((err as Error).message);
+    }
+    console.log(pc.green(`✓ Now using target ${pc.yellow(pc.bold(name))}`));
+  });
+
+targetCmd
+  .command("remove <name>")
+  .description("Remove a target (its SOUL.md and backups are left on disk)")
+  .action((name: string) => {
+    if (!removeTarget(name)) {
+      fail(`Target '${name}' not found in ${pc.bold("~/.soulrc.yaml")}.`);
+    }
+    console.log(pc.green(`✓ Removed target ${pc.yellow(pc.bold(name))}`));
+  });
+
+// --- login ---
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+program
+  .command("login")
+  .description("Log in to the registry so you can publish and rate souls")
+  .option("--token <token>", "Save an existing access token instead of approving in the browser ('-' reads it from stdin)")
+  .option("--scopes <scopes>", "Comma-separated scopes to request: read, publish, rate", "read,publish,rate")
+  .option("--name <name>", "Name for the new token, shown on the web")
+  .action(async (opts: { token?: string; scopes: string; name?: string }) => {
+    const registryUrl = loadConfig().registry_url;
+    log(`Registry URL: ${registryUrl}`);
+
+    try {
+      if (opts.token) {
+        const token = (opts.token === "-" ? await readStdin() : opts.token).trim();
+        const me = await new RegistryClient(registryUrl, token).whoami();
+        saveCredential(registryUrl, { token, username: me.username, scopes: me.scopes });
+        console.log(pc.green(`\n🔑 Logged in as ${pc.bold(me.username)}`));
+        return;
+      }
+
+      const client = new RegistryClient(registryUrl, "");
+      const scopes = opts.scopes.split(",").map((s) => s.trim()).filter(Boolean);
+      const device = await client.startDeviceLogin(opts.name ?? `soul CLI on ${hostname()}`, scopes);
+
+      console.log(`\nOpen ${pc.cyan(device.verification_uri_complete)}`);
+      console.log(`and confirm the code ${pc.bold(pc.yellow(device.user_code))}\n`);
+
+      const deadline = Date.now() + device.expires_in * 1000;
+      let interval = device.interval;
+      const spin = spinner("Waiting for approval...");
+      while (Date.now() < deadline) {
+        await sleep(interval * 1000);
+        const result = await client.pollDeviceToken(device.device_code);
+        if (result.status === "authorization_pending") continue;
+        if (result.status === "slow_down") {
+          interval += 5;
+          continue;
+        }
+        if (result.status === "ok") {
+          spin.stop();
+          saveCredential(registryUrl, {
+            token: result.access_token,
+            username: result.username,
+            scopes: result.scope.split(" ").filter(Boolean),
+          });
+          console.log(pc.green(`🔑 Logged in as ${pc.bold(result.username)}`));
+          return;
+        }
+        spin.stop();
+        fail(result.status === "access_denied" ? "Login was denied in the browser." : "Login code expired. Run 'soul login' again.");
+      }
+      spin.stop();
+      fail("Login code expired. Run 'soul login' again.");
+    } catch (err) {
+      fail((err as Error).message);
+    }
+  });
+
+// --- logout ---
+program
+  .command("logout")
+  .description("Log out of the registry and revoke this machine's token")
+  .action(async () => {
+    const registryUrl = loadConfig().registry_url;
+    if (process.env.SOUL_TOKEN) {
+      console.log(pc.yellow("SOUL_TOKEN is set; unset it to stop using that token."));
+    }
+    const saved = getSavedCredential(registryUrl);
+    if (!saved) {
+      console.log(pc.dim("Not logged in."));
+      return;
+    }
+    // Best effort: the local credential is removed even if the registry is unreachable
+    await new RegistryClient(registryUrl, saved.token).logout().catch((err) => log(`Revoke failed: ${(err as Error).message}`));
+    removeCredential(registryUrl);
+    console.log(pc.green("Logged out."));
+  });
+
+// --- whoami ---
+program
+  .command("whoami")
+  .description("Show who you are logged in as")
+  .action(async () => {
+    const client = new RegistryClient();
+    if (!client.isAuthenticated) {
+      fail("Not logged in. Run 'soul login' first.");
+    }
+    try {
+      const me = await client.whoami();
+      console.log(`${pc.bold(me.username)} ${pc.dim(`on ${loadConfig().registry_url}`)}`);
+      console.log(pc.dim(`  Scopes: ${me.scopes.join(", ")}${process.env.SOUL_TOKEN ? " (from SOUL_TOKEN)" : ""}`));
+    } catch (err) {
+      fail((err as Error).message);
+    }
+  });
+
 // --- config ---
 const configCmd = program
   .command("config")
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync, mkdirSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { expandPatterns, lintFiles, formatResults } from "./lint.js";
+
+const goodSoul = `---
+name: Good
+author: tester
+---
+
+## Who You Are
+
+Someone.
+
+## Boundaries
+
+Private things stay private.
+
+## Continuity
+
+Each session starts fresh.
+`;
+
+const badSoul = "## Empty\n";
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = mkdtempSync(join(tmpdir(), "opensoul-lint-test-"));
+  mkdirSync(join(tmpDir, "souls", "nested"), { recursive: true });
+  writeFileSync(join(tmpDir, "souls", "good.soul.md"), goodSoul);
+  writeFileSync(join(tmpDir, "souls", "nested", "bad.soul.md"), badSoul);
+  writeFileSync(join(tmpDir, "souls", "notes.txt"), "not a soul");
+});
+
+afterEach(() => {
+  rmSync(tmpDir, { recursive: true });
+});
+
+describe("expandPatterns", () => {
+  it("expands single-level globs", () => {
+    const files = expandPatterns(["souls/*.md"], tmpDir);
+    expect(files).toEqual([join(tmpDir, "souls", "good.soul.md")]);
+  });
+
+  it("expands recursive globs", () => {
+    const files = expandPatterns(["souls/**/*.soul.md"], tmpDir);
+    expect(files).toEqual([
+      join(tmpDir, "souls", "good.soul.md"),
+      join(tmpDir, "souls", "nested", "bad.soul.md"),
+    ]);
+  });
+
+  it("expands directories to the markdown files inside", () => {
+    const files = expandPatterns(["souls"], tmpDir);
+    expect(files).toHaveLength(2);
+  });
+
+  it("keeps plain paths even when missing", () => {
+    const files = expandPatterns(["missing.md"], tmpDir);
+    expect(files).toEqual([join(tmpDir, "missing.md")]);
+  });
+});
+
+describe("lintFiles", () => {
+  it("marks files with errors as invalid", () => {
+    const [good, bad] = lintFiles(expandPatterns(["souls/**/*.md"], tmpDir));
+    expect(good.valid).toBe(true);
+    expect(good.diagnostics).toEqual([]);
+    expect(bad.valid).toBe(false);
+    expect(bad.diagnostics.map((d) => d.rule)).toContain("empty-section");
+  });
+
+  it("reports missing files", () => {
+    const [result] = lintFiles([join(tmpDir, "missing.md")]);
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics[0].rule).toBe("file-not-found");
+  });
+
+  it("applies rule overrides", () => {
+    const [result] = lintFiles([join(tmpDir, "souls", "nested", "bad.soul.md")], {
+      rules: { "empty-section": "warning" },
+    });
+    expect(result.valid).toBe(true);
+  });
+});
+
+describe("formatResults", () => {
+  it("prints GitHub annotations with relative paths", () => {
+    const results = lintFiles([join(tmpDir, "souls", "nested", "bad.soul.md")], {
+      rules: { "frontmatter-required": "off", "required-themes": "off" },
+    });
+    const output = formatResults(results, "github", { cwd: tmpDir });
+    expect(output).toBe(
+      "::error file=souls/nested/bad.soul.md,line=1,col=1,title=empty-section::Section 'Empty' is empty",
+    );
+  });
+
+  it("produces SARIF with rule metadata and locations", () => {
+    const results = lintFiles([join(tmpDir, "souls", "nested", "bad.soul.md")]);
+    const sarif = JSON.parse(formatResults(results, "sarif", { cwd: tmpDir, version: "1.2.3" }));
+    const run = sarif.runs[0];
+    expect(sarif.version).toBe("2.1.0");
+    expect(run.tool.driver.version).toBe("1.2.3");
+    expect(run.tool.driver.rules.map((r: { id: string }) => r.id)).toContain("empty-section");
+    const empty = run.results.find((r: { ruleId: string }) => r.ruleId === "empty-section");
+    expect(empty.level).toBe("error");
+    expect(empty.locations[0].physicalLocation.artifactLocation.uri).toBe("souls/nested/bad.soul.md");
+    expect(empty.locations[0].physicalLocation.region).toEqual({ startLine: 1, startColumn: 1 });
+  });
+
+  it("produces JSON with relative paths", () => {
+    const results = lintFiles([join(tmpDir, "souls", "good.soul.md")]);
+    const json = JSON.parse(formatResults(results, "json", { cwd: tmpDir }));
+    expect(json).toEqual([{ file: "souls/good.soul.md", valid: true, diagnostics: [] }]);
+  });
+});
@@ -0,0 +1,250 @@
+import { readFileSync, readdirSync, existsSync, statSync } from "node:fs";
+import { join, relative, resolve, sep } from "node:path";
+import pc from "picocolors";
+import {
+  validateSoulFile,
+  LINT_RULES,
+  type LintOptions,
+  type SoulDiagnostic,
+} from "@opensoul/core";
+
+export interface FileLintResult {
+  file: string;
+  valid: boolean;
+  diagnostics: SoulDiagnostic[];
+}
+
+export type LintFormat = "text" | "json" | "sarif" | "github";
+
+const IGNORED_DIRS = new Set(["node_modules", ".git"]);
+
+function hasGlob(pattern: string): boolean {
+  return /[*?[]/.test(pattern);
+}
+
+function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more directories, a trailing "**" matches anything
+        if (glob[i + 2] === "/") {
+          re += "(?:.*/)?";
+          i += 2;
+        } else {
+          re += ".*";
+          i += 1;
+        }
+      } else {
+        re += "[^/]*";
+      }
+    } else if (ch === "?") {
+      re += "[^/]";
+    } else if (ch === "[") {
+      const end = glob.indexOf("]", i);
+      if (end === -1) {
+        re += "\\[";
+      } else {
+        re += glob.slice(i, end + 1);
+        i = end;
+      }
+    } else {
+      re += ch.replace(/[.+^${}()|\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+function walk(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRS.has(entry.name)) files.push(...walk(join(dir, entry.name)));
+    } else if (entry.isFile()) {
+      files.push(join(dir, entry.name));
+    }
+  }
+  return files;
+}
+
+/**
+ * Expand file arguments into a sorted, de-duplicated list of absolute paths.
+ * Globs are matched relative to `cwd`; directories expand to the markdown files inside them.
+ */
+export function expandPatterns(patterns: string[], cwd: string = process.cwd()): string[] {
+  const found = new Set<string>();
+
+  for (const pattern of patterns) {
+    if (!hasGlob(pattern)) {
+      const path = resolve(cwd, pattern);
+      if (existsSync(path) && statSync(path).isDirectory()) {
+        for (const file of walk(path)) {
+          if (file.endsWith(".md")) found.add(file);
+        }
+      } else {
+        found.add(path);
+      }
+      continue;
+    }
+
+    const normalized = pattern.split(sep).join("/");
+    const segments = normalized.split("/");
+    const firstGlob = segments.findIndex(hasGlob);
+    const base = resolve(cwd, segments.slice(0, firstGlob).join("/") || ".");
+    const matcher = globToRegExp(segments.slice(firstGlob).join("/"));
+    if (!existsSync(base)) continue;
+
+    for (const file of walk(base)) {
+      const rel = relative(base, file).split(sep).join("/");
+      if (matcher.test(rel)) found.add(file);
+    }
+  }
+
+  return [...found].sort();
+}
+
+export function lintFiles(files: string[], options?: LintOptions): FileLintResult[] {
+  return files.map((file) => {
+    if (!existsSync(file)) {
+      return {
+        file,
+        valid: false,
+        diagnostics: [
+          { rule: "file-not-found", severity: "error", message: "File not found", line: 1, column: 1 },
+        ],
+      };
+    }
+    const { valid, diagnostics } = validateSoulFile(readFileSync(file, "utf-8"), options);
+    return { file, valid, diagnostics };
+  });
+}
+
+function countBySeverity(results: FileLintResult[]): { errors: number; warnings: number } {
+  let errors = 0;
+  let warnings = 0;
+  for (const result of results) {
+    for (const d of result.diagnostics) {
+      if (d.severity === "error") errors++;
+      else if (d.severity === "warning") warnings++;
+    }
+  }
+  return { errors, warnings };
+}
+
+function formatText(results: FileLintResult[], cwd: string): string {
+  const lines: string[] = [];
+  for (const result of results) {
+    if (result.diagnostics.length === 0) continue;
+    const file = relative(cwd, result.file) || result.file;
+    lines.push("");
+    lines.push(pc.underline(file));
+    for (const d of result.diagnostics) {
+      const severity =
+        d.severity === "error"
+          ? pc.red("error")
+          : d.severity === "warning"
+            ? pc.yellow("warning")
+            : pc.blue("info");
+      lines.push(
+        `  ${pc.dim(`${file}:${d.line}:${d.column}`)}  ${severity}  ${d.message}  ${pc.dim(d.rule)}`,
+      );
+    }
+  }
+
+  const { errors, warnings } = countBySeverity(results);
+  const total = errors + warnings;
+  if (total === 0) {
+    lines.push(pc.green(`✓ ${results.length} file(s) passed`));
+  } else {
+    const summary = `\n✖ ${total} problem(s) (${errors} error(s), ${warnings} warning(s)) in ${results.length} file(s)`;
+    lines.push(errors > 0 ? pc.red(pc.bold(summary)) : pc.yellow(pc.bold(summary)));
+  }
+  return lines.join("\n");
+}
+
+function formatSarif(results: FileLintResult[], cwd: string, version: string): string {
+  const level = (severity: SoulDiagnostic["severity"]) =>
+    severity === "error" ? "error" : severity === "warning" ? "warning" : "note";
+
+  const sarif = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "soul-lint",
+            informationUri: "https://opensoul.md",
+            version,
+            rules: LINT_RULES.map((rule) => ({
+              id: rule.id,
+              shortDescription: { text: rule.description },
+              defaultConfiguration: { level: level(rule.severity) },
+            })),
+          },
+        },
+        results: results.flatMap((result) =>
+          result.diagnostics.map((d) => ({
+            ruleId: d.rule,
+            level: level(d.severity),
+            message: { text: d.message },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: {
+                    uri: relative(cwd, result.file).split(sep).join("/"),
+                  },
+                  region: { startLine: d.line, startColumn: d.column },
+                },
+              },
+            ],
+          })),
+        ),
+      },
+    ],
+  };
+  return JSON.stringify(sarif, null, 2);
+}
+
+// GitHub Actions workflow commands: annotations show up inline on the PR diff
+function formatGithub(results: FileLintResult[], cwd: string): string {
+  const escape = (s: string) =>
+    s.replace(/%/g, "%25").replace(/\r/g, "%0D").replace(/\n/g, "%0A");
+  const escapeProperty = (s: string) =>
+    escape(s).replace(/:/g, "%3A").replace(/,/g, "%2C");
+
+  const lines: string[] = [];
+  for (const result of results) {
+    const file = relative(cwd, result.file).split(sep).join("/");
+    for (const d of result.diagnostics) {
+      const command = d.severity === "error" ? "error" : d.severity === "warning" ? "warning" : "notice";
+      lines.push(
+        `::${command} file=${escapeProperty(file)},line=${d.line},col=${d.column},title=${escapeProperty(d.rule)}::${escape(d.message)}`,
+      );
+    }
+  }
+  return lines.join("\n");
+}
+
+export function formatResults(
+  results: FileLintResult[],
+  format: LintFormat,
+  opts: { cwd?: string; version?: string } = {},
+): string {
+  const cwd = opts.cwd ?? process.cwd();
+  switch (format) {
+    case "json":
+      return JSON.stringify(
+        results.map((r) => ({ ...r, file: relative(cwd, r.file).split(sep).join("/") })),
+        null,
+        2,
+      );
+    case "sarif":
+      return formatSarif(results, cwd, opts.version ?? "0.0.0");
+    case "github":
+      return formatGithub(results, cwd);
+    default:
+      return formatText(results, cwd);
+  }
+}
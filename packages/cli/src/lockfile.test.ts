@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { cacheSoul, getCached } from "./cache.js";
+import { hashContent } from "./history.js";
+import {
+  loadLock,
+  saveLock,
+  loadManifest,
+  saveManifest,
+  lockMismatch,
+  resolveLatest,
+  fetchLocked,
+  type LockedSoul,
+} from "./lockfile.js";
+import type { RegistrySoul } from "./registry-client.js";
+
+let tmpDir: string;
+let originalHome: string;
+
+const REGISTRY = "https://registry.example.com";
+
+// A registry holding the version history of one soul, newest last
+function fakeRegistry(versions: string[]) {
+  let calls = 0;
+  const client = {
+    async getMeta(id: string) {
+      calls++;
+      return { label: id, name: "Pirate" } as RegistrySoul;
+    },
+    async getContent() {
+      calls++;
+      return versions[versions.length - 1];
+    },
+    async getLatestVersion() {
+      calls++;
+      return { version: versions.length, hash: hashContent(versions[versions.length - 1]) };
+    },
+    async getVersionContent(_id: string, version: number) {
+      calls++;
+      return versions[version - 1];
+    },
+  };
+  return { client, calls: () => calls };
+}
+
+beforeEach(() => {
+  tmpDir = mkdtempSync(join(tmpdir(), "opensoul-lockfile-test-"));
+  originalHome = process.env.HOME!;
+  process.env.HOME = tmpDir;
+});
+
+afterEach(() => {
+  process.env.HOME = originalHome;
+  rmSync(tmpDir, { recursive: true });
+});
+
+describe("project files", () => {
+  it("round-trips the manifest and lockfile", () => {
+    saveManifest({ soul: "pirate", target: "cursor" }, tmpDir);
+    const lock: LockedSoul = { label: "pirate", name: "Pirate", registry: REGISTRY, version: 3, hash: "abc" };
+    saveLock(lock, tmpDir);
+
+    expect(loadManifest(tmpDir)).toEqual({ soul: "pirate", target: "cursor" });
+    expect(loadLock(tmpDir)).toEqual(lock);
+  });
+
+  it("reports a lock that no longer matches the manifest", () => {
+    const lock: LockedSoul = { label: "pirate", name: "Pirate", registry: REGISTRY, hash: "abc" };
+    expect(lockMismatch({ soul: "pirate" }, lock)).toBeNull();
+    expect(lockMismatch({ soul: "monk" }, lock)).toContain("pins 'pirate'");
+    expect(lockMismatch({ soul: "pirate", registry: "https://other.example.com" }, lock)).toContain("registry");
+  });
+});
+
+describe("resolveLatest", () => {
+  it("pins the latest content and its version", async () => {
+    const { client } = fakeRegistry(["# v1", "# v2"]);
+    const { lock, content } = await resolveLatest(client, "pirate", REGISTRY);
+    expect(content).toBe("# v2");
+    expect(lock).toEqual({ label: "pirate", name: "Pirate", registry: REGISTRY, version: 2, hash: hashContent("# v2") });
+  });
+});
+
+describe("fetchLocked", () => {
+  it("uses the cache when it holds the locked hash", async () => {
+    cacheSoul("Pirate", "# v1", hashContent("# v1"), "pirate");
+    const { client, calls } = fakeRegistry(["# v1"]);
+    const lock: LockedSoul = { label: "pirate", name: "Pirate", registry: REGISTRY, version: 1, hash: hashContent("# v1") };
+
+    expect(await fetchLocked(client, lock)).toEqual({ content: "# v1", source: "cache" });
+    expect(calls()).toBe(0);
+  });
+
+  it("fetches the pinned version after the registry has moved on", async () => {
+    const { client } = fakeRegistry(["# v1", "# v2"]);
+    const lock: LockedSoul = { label: "pirate", name: "Pirate", registry: REGISTRY, version: 1, hash: hashContent("# v1") };
+
+    expect(await fetchLocked(client, lock)).toEqual({ content: "# v1", source: "registry" });
+    expect(getCached("pirate")!.content).toBe("# v1");
+  });
+
+  it("fails loudly when the registry content doesn't match the lock", async () => {
+    const { client } = fakeRegistry(["# tampered"]);
+    const lock: LockedSoul = { label: "pirate", name: "Pirate", registry: REGISTRY, version: 1, hash: hashContent("# v1") };
+
+    await expect(fetchLocked(client, lock)).rejects.toThrow(/Hash mismatch/);
+    expect(getCached("pirate")).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import { readFileSync, writeFileSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { parse, stringify } from "yaml";
+import { listCached, getCached, cacheSoul } from "./cache.js";
+import { hashContent } from "./history.js";
+import type { RegistryClient } from "./registry-client.js";
+
+/** Hand-written project manifest naming the soul a project's agent should run. */
+export const PROJECT_FILE = "soul.yaml";
+/** Generated by `soul install`; pins the exact content so every checkout gets the same soul. */
+export const LOCK_FILE = "soul.lock";
+
+const LOCKFILE_VERSION = 1;
+
+export interface ProjectManifest {
+  /** Registry label of the soul */
+  soul: string;
+  /** Registry to install from; defaults to the CLI's registry_url */
+  registry?: string;
+  /** Agent target to possess; defaults to the active target */
+  target?: string;
+}
+
+export interface LockedSoul {
+  label: string;
+  name: string;
+  registry: string;
+  /** Registry version the hash was taken from, when the registry has version history */
+  version?: number;
+  /** SHA-256 of the exact content to possess */
+  hash: string;
+}
+
+interface Lockfile {
+  lockfile_version: number;
+  soul: LockedSoul;
+}
+
+export function hasProject(dir: string = process.cwd()): boolean {
+  return existsSync(join(dir, PROJECT_FILE)) || existsSync(join(dir, LOCK_FILE));
+}
+
+export function loadManifest(dir: string = process.cwd()): ProjectManifest | null {
+  const path = join(dir, PROJECT_FILE);
+  if (!existsSync(path)) return null;
+  const parsed = parse(readFileSync(path, "utf-8")) as Partial<ProjectManifest> | null;
+  if (!parsed?.soul || typeof parsed.soul !== "string") {
+    throw new Error(`${PROJECT_FILE} must name a soul, e.g. 'soul: pirate'`);
+  }
+  return parsed as ProjectManifest;
+}
+
+export function saveManifest(manifest: ProjectManifest, dir: string = process.cwd()): void {
+  writeFileSync(join(dir, PROJECT_FILE), stringify(manifest), "utf-8");
+}
+
+export function loadLock(dir: string = process.cwd()): LockedSoul | null {
+  const path = join(dir, LOCK_FILE);
+  if (!existsSync(path)) return null;
+  const lock = parse(readFileSync(path, "utf-8")) as Partial<Lockfile> | null;
+  if (lock?.lockfile_version !== LOCKFILE_VERSION || !lock.soul?.label || !lock.soul.hash) {
+    throw new Error(`${LOCK_FILE} is not a lockfile this version of soul can read`);
+  }
+  return lock.soul;
+}
+
+export function saveLock(soul: LockedSoul, dir: string = process.cwd()): void {
+  const lock: Lockfile = { lockfile_version: LOCKFILE_VERSION, soul };
+  writeFileSync(
+    join(dir, LOCK_FILE),
+    `# Generated by 'soul install'. Commit this file; do not edit it by hand.\n${stringify(lock)}`,
+    "utf-8",
+  );
+}
+
+/**
+ * Why the lockfile can't be used as-is, or null if it matches the manifest.
+ * The registry counts only when the manifest names one explicitly.
+ */
+export function lockMismatch(manifest: ProjectManifest | null, lock: LockedSoul): string | null {
+  if (!manifest) return null;
+  if (manifest.soul !== lock.label) {
+    return `${PROJECT_FILE} asks for '${manifest.soul}' but ${LOCK_FILE} pins '${lock.label}'`;
+  }
+  if (manifest.registry && manifest.registry.replace(/\/+$/, "") !== lock.registry.replace(/\/+$/, "")) {
+    return `${PROJECT_FILE} uses registry ${manifest.registry} but ${LOCK_FILE} was made from ${lock.registry}`;
+  }
+  return null;
+}
+
+type LockClient = Pick<RegistryClient, "getMeta" | "getContent" | "getLatestVersion" | "getVersionContent">;
+
+/** Fetch the latest version of a soul and the lock entry that pins it. */
+export async function resolveLatest(
+  client: LockClient,
+  label: string,
+  registry: string,
+): Promise<{ lock: LockedSoul; content: string }> {
+  const [meta, content, latest] = await Promise.all([
+    client.getMeta(label),
+    client.getContent(label),
+    client.getLatestVersion(label),
+  ]);
+  const hash = hashContent(content);
+  const lock: LockedSoul = { label: meta.label, name: meta.name, registry, hash };
+  // Only pin the version if it's the content we got, not a racing publish
+  if (latest?.hash === hash) lock.version = latest.version;
+  return { lock, content };
+}
+
+/**
+ * Get the exact content a lock pins: from the cache when it holds that
+ * hash, otherwise from the registry's version history or latest content.
+ * Throws if what the registry serves doesn't match the locked hash.
+ */
+export async function fetchLocked(
+  client: LockClient,
+  lock: LockedSoul,
+): Promise<{ content: string; source: "cache" | "registry" }> {
+  const cached = listCached().find((e) => e.hash === lock.hash);
+  const hit = cached ? getCached(cached.name) : null;
+  if (hit && hashContent(hit.content) === lock.hash) {
+    return { content: hit.content, source: "cache" };
+  }
+
+  const content = lock.version !== undefined
+    ? await client.getVersionContent(lock.label, lock.version)
+    : await client.getContent(lock.label);
+  const hash = hashContent(content);
+  if (hash !== lock.hash) {
+    throw new Error(
+      `Hash mismatch for '${lock.label}'${lock.version !== undefined ? ` v${lock.version}` : ""}\n` +
+      `  expected ${lock.hash}\n  received ${hash}\n\n` +
+      `  The registry no longer serves the content pinned in ${LOCK_FILE}.`,
+    );
+  }
+  cacheSoul(lock.name, content, hash, lock.label);
+  return { content, source: "registry" };
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { resolvePublishSlug, recordPublished, publishLabel, MANIFEST_FILE } from "./publish.js";
+
+let tmpDir: string;
+
+const plain = "# Pirate\n\n## Voice\n\nArr.\n";
+const withSlug = "---\nname: Pirate\nslug: abc12345\nlabel: the-pirate\n---\n\n## Voice\n\nArr.\n";
+
+beforeEach(() => {
+  tmpDir = mkdtempSync(join(tmpdir(), "opensoul-publish-test-"));
+});
+
+afterEach(() => {
+  rmSync(tmpDir, { recursive: true });
+});
+
+describe("resolvePublishSlug", () => {
+  it("returns null for a file that was never published", () => {
+    expect(resolvePublishSlug(join(tmpDir, "pirate.md"), plain, {}, tmpDir)).toBeNull();
+  });
+
+  it("reads the slug from the frontmatter", () => {
+    expect(resolvePublishSlug(join(tmpDir, "pirate.md"), withSlug, {}, tmpDir)).toEqual({
+      slug: "abc12345",
+      source: "frontmatter",
+    });
+  });
+
+  it("finds files recorded in the manifest by their relative path", () => {
+    recordPublished(join(tmpDir, "souls", "pirate.md"), "xyz98765", tmpDir);
+
+    const manifest = JSON.parse(readFileSync(join(tmpDir, MANIFEST_FILE), "utf-8"));
+    expect(manifest.souls).toEqual({ "souls/pirate.md": "xyz98765" });
+    expect(resolvePublishSlug("souls/pirate.md", plain, {}, tmpDir)).toEqual({
+      slug: "xyz98765",
+      source: "manifest",
+    });
+  });
+
+  it("prefers an explicit slug over frontmatter and manifest", () => {
+    recordPublished(join(tmpDir, "pirate.md"), "xyz98765", tmpDir);
+    expect(resolvePublishSlug(join(tmpDir, "pirate.md"), withSlug, { slug: "override" }, tmpDir)?.slug).toBe("override");
+    expect(resolvePublishSlug(join(tmpDir, "pirate.md"), withSlug, {}, tmpDir)?.slug).toBe("abc12345");
+  });
+});
+
+describe("publishLabel", () => {
+  it("reads the requested label from the frontmatter", () => {
+    expect(publishLabel(withSlug)).toBe("the-pirate");
+    expect(publishLabel(plain)).toBeUndefined();
+  });
+});
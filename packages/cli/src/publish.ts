@@ -0,0 +1,72 @@
+import { readFileSync, writeFileSync, existsSync } from "node:fs";
+import { join, relative, resolve, sep } from "node:path";
+import { parseSoulFile } from "@opensoul/core";
+
+/**
+ * Maps soul files in a project to the registry slugs they publish to, so
+ * a repo of souls can be republished from CI. Written by `soul publish`
+ * the first time a file is created in the registry; meant to be committed.
+ */
+export const MANIFEST_FILE = "soul-publish.json";
+
+interface PublishManifest {
+  /** Slug keyed by file path relative to the manifest, with forward slashes */
+  souls: Record<string, string>;
+}
+
+export type SlugSource = "option" | "frontmatter" | "manifest";
+
+function manifestPath(dir: string): string {
+  return join(dir, MANIFEST_FILE);
+}
+
+function manifestKey(file: string, dir: string): string {
+  return relative(dir, resolve(dir, file)).split(sep).join("/");
+}
+
+export function loadManifest(dir: string = process.cwd()): PublishManifest {
+  const path = manifestPath(dir);
+  if (!existsSync(path)) {
+    return { souls: {} };
+  }
+  return JSON.parse(readFileSync(path, "utf-8"));
+}
+
+export function recordPublished(file: string, slug: string, dir: string = process.cwd()): void {
+  const manifest = loadManifest(dir);
+  manifest.souls[manifestKey(file, dir)] = slug;
+  writeFileSync(manifestPath(dir), `${JSON.stringify(manifest, null, 2)}\n`, "utf-8");
+}
+
+function frontmatterValue(content: string, key: string): string | undefined {
+  try {
+    const value = parseSoulFile(content).frontmatter[key];
+    return typeof value === "string" && value.trim() ? value.trim() : undefined;
+  } catch {
+    // Malformed frontmatter is reported by the linter
+    return undefined;
+  }
+}
+
+/**
+ * Which registry soul a file publishes to: an explicit `--slug`, then a
+ * `slug` key in the frontmatter, then the project manifest. Null means the
+ * file hasn't been published yet.
+ */
+export function resolvePublishSlug(
+  file: string,
+  content: string,
+  opts: { slug?: string } = {},
+  dir: string = process.cwd(),
+): { slug: string; source: SlugSource } | null {
+  if (opts.slug) return { slug: opts.slug, source: "option" };
+  const fromFrontmatter = frontmatterValue(content, "slug");
+  if (fromFrontmatter) return { slug: fromFrontmatter, source: "frontmatter" };
+  const fromManifest = loadManifest(dir).souls[manifestKey(file, dir)];
+  return fromManifest ? { slug: fromManifest, source: "manifest" } : null;
+}
+
+/** The `label` a file asks for in its frontmatter, if any. */
+export function publishLabel(content: string): string | undefined {
+  return frontmatterValue(content, "label");
+}
@@ -1,4 +1,7 @@
 import { loadConfig } from "./config.js";
+import { getCredential } from "./credentials.js";
+import type { SoulDiagnostic } from "@opensoul/core";
+import { readSoulStream, type GeneratedSoul } from "./generate.js";
 
 export interface RegistrySoul {
   slug: string;
@@ -9,15 +12,98 @@ export interface RegistrySoul {
   tags: string[];
   rating_avg?: number;
   rating_count?: number;
+  /** Matching excerpt with terms wrapped in <mark>, present on full-text searches */
+  snippet?: string;
+  /** SHA-256 of the current content; returned by getMeta */
+  hash?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+/** An error response from the registry, with lint diagnostics when content was rejected. */
+export class RegistryError extends Error {
+  status: number;
+  diagnostics: SoulDiagnostic[];
+  constructor(message: string, status: number, diagnostics: SoulDiagnostic[] = []) {
+    super(message);
+    this.status = status;
+    this.diagnostics = diagnostics;
+  }
+}
+
+export interface PublishResult {
+  slug: string;
+  label: string;
+  name: string;
+  hash: string;
+  version: number;
+}
+
+/** An unpublished soul saved on the registry, visible only to its author. */
+export interface RegistryDraft {
+  id: number;
+  name: string | null;
+  prompt: string | null;
+  content: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DeviceCode {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  verification_uri_complete: string;
+  expires_in: number;
+  interval: number;
+}
+
+export type DeviceTokenResult =
+  | { status: "ok"; access_token: string; scope: string; username: string }
+  | { status: "authorization_pending" | "slow_down" | "expired_token" | "access_denied" | "invalid_grant" };
+
+export interface WhoAmI {
+  id: number;
+  username: string;
+  avatar: string | null;
+  via: "session" | "token";
+  scopes: string[];
+}
+
 export class RegistryClient {
   private baseUrl: string;
+  private token: string | null;
 
-  constructor(baseUrl?: string) {
+  /** Uses the saved login for the registry (or SOUL_TOKEN) unless a token is given. */
+  constructor(baseUrl?: string, token?: string) {
     this.baseUrl = baseUrl ?? loadConfig().registry_url;
+    this.token = token ?? getCredential(this.baseUrl)?.token ?? null;
+  }
+
+  get isAuthenticated(): boolean {
+    return Boolean(this.token);
+  }
+
+  private async request(path: string, init: RequestInit = {}): Promise<Response> {
+    const headers: Record<string, string> = { ...(init.headers as Record<string, string>) };
+    if (this.token) headers["Authorization"] = `Bearer ${this.token}`;
+    if (typeof init.body === "string") headers["Content-Type"] = "application/json";
+
+    return fetch(`${this.baseUrl}/api/v1${path}`, { ...init, headers }).catch(() => {
+      throw new Error(`Failed to connect to registry at ${this.baseUrl}. Is it reachable?`);
+    });
+  }
+
+  // Turn an error response into a message, preferring the API's own `error`
+  private async errorFor(res: Response): Promise<RegistryError> {
+    if (res.status === 401) {
+      return new RegistryError(
+        this.token ? "Your login has expired or was revoked. Run 'soul login' again." : "Not logged in. Run 'soul login' first.",
+        401,
+      );
+    }
+    const body = await res.json().catch(() => null) as { error?: string; diagnostics?: SoulDiagnostic[] } | null;
+    return new RegistryError(body?.error ?? `Registry returned HTTP ${res.status}`, res.status, body?.diagnostics);
   }
 
   async search(query?: string, sort?: string, page?: number, limit?: number): Promise<{ data: RegistrySoul[]; pagination: { page: number; limit: number; total: number; totalPages: number } }> {
@@ -75,8 +161,175 @@ export class RegistryClient {
     return res.text();
   }
 
+  /**
+   * Fetch content only if it no longer matches `hash`, using the registry's
+   * ETag. Returns null when the local copy is current.
+   */
+  async getContentIfChanged(id: string, hash: string): Promise<string | null> {
+    const res = await this.request(`/souls/${id}/content`, {
+      headers: { "If-None-Match": `"${hash}"` },
+    });
+    if (res.status === 304) return null;
+    if (!res.ok) {
+      if (res.status === 404) {
+        throw new Error(`Soul '${id}' not found in registry`);
+      }
+      throw await this.errorFor(res);
+    }
+    return res.text();
+  }
+
+  /** The newest entry in a soul's version history, or null for souls without one. */
+  async getLatestVersion(id: string): Promise<{ version: number; hash: string } | null> {
+    const res = await this.request(`/souls/${id}/versions?limit=1`);
+    if (!res.ok) {
+      if (res.status === 404) {
+        throw new Error(`Soul '${id}' not found in registry`);
+      }
+      throw await this.errorFor(res);
+    }
+    const body = await res.json() as { data: { version: number; hash: string }[] };
+    return body.data[0] ?? null;
+  }
+
+  async getVersionContent(id: string, version: number): Promise<string> {
+    const res = await this.request(`/souls/${id}/versions/${version}/content`);
+    if (!res.ok) {
+      if (res.status === 404) {
+        throw new Error(`Version ${version} of soul '${id}' not found in registry`);
+      }
+      throw await this.errorFor(res);
+    }
+    return res.text();
+  }
+
   async trackDownload(id: string): Promise<void> {
     const url = `${this.baseUrl}/api/v1/souls/${id}/download`;
     await fetch(url, { method: "POST" }).catch(() => {});
   }
+
+  async rate(id: string, rating: number): Promise<{ rating_avg: number; rating_count: number }> {
+    const res = await this.request(`/souls/${id}/rate`, {
+      method: "POST",
+      body: JSON.stringify({ rating }),
+    });
+    if (!res.ok) {
+      if (res.status === 404) {
+        throw new Error(`Soul '${id}' not found in registry`);
+      }
+      throw await this.errorFor(res);
+    }
+    return res.json() as Promise<{ rating_avg: number; rating_count: number }>;
+  }
+
+  async publish(content: string): Promise<PublishResult> {
+    const res = await this.request("/souls", {
+      method: "POST",
+      body: JSON.stringify({ content }),
+    });
+    if (!res.ok) throw await this.errorFor(res);
+    return res.json() as Promise<PublishResult>;
+  }
+
+  async getDraft(id: string): Promise<RegistryDraft> {
+    const res = await this.request(`/drafts/${encodeURIComponent(id)}`);
+    if (!res.ok) {
+      if (res.status === 404) {
+        throw new RegistryError(`Draft '${id}' not found. Drafts are only visible to the account that made them.`, 404);
+      }
+      throw await this.errorFor(res);
+    }
+    return res.json() as Promise<RegistryDraft>;
+  }
+
+  /** Publish a draft as a new soul; the registry removes the draft. */
+  async promoteDraft(id: number, content?: string): Promise<PublishResult> {
+    const res = await this.request(`/drafts/${id}/promote`, {
+      method: "POST",
+      body: JSON.stringify({ content }),
+    });
+    if (!res.ok) throw await this.errorFor(res);
+    return res.json() as Promise<PublishResult>;
+  }
+
+  /** Write a soul from a prompt, streaming the text to `onText`. The registry saves it as a draft. */
+  async generate(prompt: string, onText?: (text: string) => void): Promise<GeneratedSoul> {
+    const res = await this.request("/souls/generate", {
+      method: "POST",
+      body: JSON.stringify({ prompt }),
+    });
+    if (!res.ok) throw await this.errorFor(res);
+    if (!res.body) throw new RegistryError("The registry sent back an empty response", res.status);
+    return readSoulStream(res.body, onText);
+  }
+
+  async updateContent(id: string, content: string, changelog?: string): Promise<{ version: number; hash: string }> {
+    const res = await this.request(`/souls/${id}/content`, {
+      method: "PUT",
+      body: JSON.stringify({ content, changelog }),
+    });
+    if (!res.ok) {
+      if (res.status === 404) {
+        throw new RegistryError(`Soul '${id}' not found in registry`, 404);
+      }
+      if (res.status === 403) {
+        throw new RegistryError(`Soul '${id}' belongs to another user`, 403);
+      }
+      throw await this.errorFor(res);
+    }
+    return res.json() as Promise<{ version: number; hash: string }>;
+  }
+
+  async updateMeta(
+    id: string,
+    meta: { name?: string; description?: string; label?: string; tags?: string[] },
+  ): Promise<RegistrySoul> {
+    const res = await this.request(`/souls/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(meta),
+    });
+    if (!res.ok) throw await this.errorFor(res);
+    return res.json() as Promise<RegistrySoul>;
+  }
+
+  async whoami(): Promise<WhoAmI> {
+    const res = await this.request("/auth/me");
+    if (!res.ok) throw await this.errorFor(res);
+    return res.json() as Promise<WhoAmI>;
+  }
+
+  /** Revoke the token this client is using. */
+  async logout(): Promise<void> {
+    await this.request("/auth/logout", { method: "POST" });
+  }
+
+  async startDeviceLogin(name: string, scopes?: string[]): Promise<DeviceCode> {
+    const res = await this.request("/auth/device/code", {
+      method: "POST",
+      body: JSON.stringify({ name, scopes }),
+    });
+    if (!res.ok) throw await this.errorFor(res);
+    return res.json() as Promise<DeviceCode>;
+  }
+
+  async pollDeviceToken(deviceCode: string): Promise<DeviceTokenResult> {
+    const res = await this.request("/auth/device/token", {
+      method: "POST",
+      body: JSON.stringify({ device_code: deviceCode }),
+    });
+    const body = await res.json().catch(() => ({})) as { error?: string; access_token?: string; scope?: string; username?: string };
+    if (res.ok && body.access_token) {
+      return { status: "ok", access_token: body.access_token, scope: body.scope ?? "", username: body.username ?? "" };
+    }
+    switch (body.error) {
+      case "authorization_pending":
+      case "slow_down":
+      case "expired_token":
+      case "access_denied":
+      case "invalid_grant":
+        return { status: body.error };
+      default:
+        throw new Error(body.error ?? `Registry returned HTTP ${res.status}`);
+    }
+  }
 }
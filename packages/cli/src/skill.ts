@@ -7,14 +7,14 @@ import {
 } from "node:fs";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
-import { loadConfig } from "./config.js";
+import { resolveTarget } from "./config.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
 const SKILL_DIR_NAME = "opensoul";
 
 function skillsDir(): string {
-  return loadConfig().skills_path;
+  return resolveTarget().skills_path;
 }
 
 function skillDir(): string {
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { cacheSoul, getCached } from "./cache.js";
+import { hashContent } from "./history.js";
+import { resolveSoulRef } from "./sources.js";
+import type { RegistrySoul } from "./registry-client.js";
+
+let tmpDir: string;
+let originalHome: string;
+
+function fakeRegistry(souls: Record<string, string>) {
+  return {
+    async getMeta(id: string) {
+      if (!(id in souls)) throw new Error(`Soul '${id}' not found in registry`);
+      return { label: id, name: id.toUpperCase() } as RegistrySoul;
+    },
+    async getContent(id: string) {
+      if (!(id in souls)) throw new Error(`Soul '${id}' not found in registry`);
+      return souls[id];
+    },
+    async getVersionContent(id: string, version: number) {
+      if (version !== 1) throw new Error(`Version ${version} not found`);
+      return `${souls[id]} v1`;
+    },
+  };
+}
+
+beforeEach(() => {
+  tmpDir = mkdtempSync(join(tmpdir(), "opensoul-sources-test-"));
+  originalHome = process.env.HOME!;
+  process.env.HOME = tmpDir;
+});
+
+afterEach(() => {
+  process.env.HOME = originalHome;
+  rmSync(tmpDir, { recursive: true });
+});
+
+describe("resolveSoulRef", () => {
+  it("reads files", async () => {
+    const file = join(tmpDir, "mine.soul.md");
+    writeFileSync(file, "# file");
+
+    const soul = await resolveSoulRef(file, fakeRegistry({}));
+    expect(soul).toMatchObject({ source: "file", name: "mine.soul.md", content: "# file" });
+  });
+
+  it("reads cached souls by name or label", async () => {
+    cacheSoul("Pirate", "# arr", hashContent("# arr"), "pirate");
+
+    const soul = await resolveSoulRef("pirate", fakeRegistry({ pirate: "# newer" }));
+    expect(soul).toMatchObject({ source: "cache", name: "Pirate", label: "pirate", content: "# arr" });
+  });
+
+  it("summons registry souls into the cache", async () => {
+    const soul = await resolveSoulRef("Stoic Monk", fakeRegistry({ "stoic-monk": "# calm" }));
+
+    expect(soul).toMatchObject({ source: "registry", name: "STOIC-MONK", label: "stoic-monk", content: "# calm" });
+    expect(getCached("stoic-monk")?.content).toBe("# calm");
+  });
+
+  it("reads a registry version with label@version", async () => {
+    const registry = fakeRegistry({ pirate: "# arr" });
+
+    const soul = await resolveSoulRef("pirate@1", registry);
+    expect(soul).toMatchObject({ source: "registry", name: "PIRATE v1", content: "# arr v1" });
+    expect(getCached("pirate")).toBeNull();
+    await expect(resolveSoulRef("pirate@2", registry)).rejects.toThrow("Version 2 not found");
+  });
+
+  it("fails when the soul is nowhere", async () => {
+    await expect(resolveSoulRef("ghost", fakeRegistry({}))).rejects.toThrow("Soul 'ghost' not found");
+  });
+});
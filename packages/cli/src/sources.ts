@@ -0,0 +1,61 @@
+import { readFileSync, existsSync } from "node:fs";
+import { resolve, basename } from "node:path";
+import { getCached, cacheSoul } from "./cache.js";
+import { extractSoul } from "./swap.js";
+import { hashContent } from "./history.js";
+import type { RegistryClient } from "./registry-client.js";
+
+/** Reference to whatever soul the active target is running. */
+export const CURRENT_REF = "@current";
+
+export interface ResolvedSoul {
+  /** The reference as given */
+  ref: string;
+  name: string;
+  content: string;
+  source: "current" | "file" | "cache" | "registry";
+  label?: string;
+}
+
+type SourceClient = Pick<RegistryClient, "getMeta" | "getContent" | "getVersionContent">;
+
+/**
+ * Turn a soul reference into its content, trying in order: `@current` (the
+ * active target's SOUL.md), a file path, a cached soul, then a registry
+ * label. Registry souls are cached on the way, like `soul summon`.
+ * `label@3` reads version 3 from the registry's history without caching it.
+ */
+export async function resolveSoulRef(ref: string, client: SourceClient): Promise<ResolvedSoul> {
+  if (ref === CURRENT_REF) {
+    const content = extractSoul();
+    if (content === null) throw new Error("The active target has no SOUL.md yet");
+    return { ref, name: "current", content, source: "current" };
+  }
+
+  const filePath = resolve(ref);
+  if (existsSync(filePath)) {
+    return { ref, name: basename(filePath), content: readFileSync(filePath, "utf-8"), source: "file" };
+  }
+
+  const cached = getCached(ref);
+  if (cached) {
+    return { ref, name: cached.entry.name, content: cached.content, source: "cache", label: cached.entry.label };
+  }
+
+  const pinned = ref.match(/^(.+)@(\d+)$/);
+  if (pinned) {
+    const [, id, version] = pinned;
+    const [meta, content] = await Promise.all([
+      client.getMeta(id),
+      client.getVersionContent(id, Number(version)),
+    ]);
+    return { ref, name: `${meta.name} v${version}`, content, source: "registry", label: meta.label };
+  }
+
+  const label = ref.trim().toLowerCase().replace(/\s+/g, "-");
+  const [meta, content] = await Promise.all([client.getMeta(label), client.getContent(label)]).catch(() => {
+    throw new Error(`Soul '${ref}' not found as a local file, in cache, or in the registry`);
+  });
+  cacheSoul(meta.name, content, hashContent(content), meta.label);
+  return { ref, name: meta.name, content, source: "registry", label: meta.label };
+}
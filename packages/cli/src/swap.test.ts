@@ -1,11 +1,22 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { mkdtempSync, rmSync, writeFileSync, readFileSync, mkdirSync } from "node:fs";
+import { mkdtempSync, rmSync, writeFileSync, readFileSync, mkdirSync, existsSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 
 // We need to mock the paths before importing swap module
 // The swap module uses hardcoded paths based on homedir, so we test the logic directly
-import { swapSoul, rollbackSoul, isSwapped, hasBackup, getSoulPath } from "./swap.js";
+import {
+  swapSoul,
+  rollbackSoul,
+  rollbackToHistory,
+  currentSoulHash,
+  getDrift,
+  isSwapped,
+  hasBackup,
+  getSoulPath,
+} from "./swap.js";
+import { listHistory } from "./history.js";
+import { addTarget, setActiveTarget } from "./config.js";
 
 // Since swap.ts uses hardcoded paths, we test integration with real files
 // by creating a temporary workspace and setting HOME
@@ -23,6 +34,7 @@ beforeEach(() => {
 });
 
 afterEach(() => {
+  setActiveTarget(undefined);
   process.env.HOME = originalHome;
   rmSync(tmpDir, { recursive: true });
 });
@@ -119,3 +131,180 @@ describe("hasBackup", () => {
     expect(hasBackup()).toBe(true);
   });
 });
+
+describe("possession history", () => {
+  it("records each possession with name and hash", () => {
+    swapSoul("# First", { name: "first" });
+    swapSoul("# Second", { name: "second" });
+
+    const entries = listHistory();
+    expect(entries.map((e) => e.soul.name)).toEqual(["second", "first"]);
+    expect(entries[0].action).toBe("swap");
+    expect(entries[0].soul.hash).toHaveLength(64);
+    expect(currentSoulHash()).toBe(entries[0].soul.hash);
+  });
+
+  it("rolls back to an earlier entry by position", () => {
+    swapSoul("# First", { name: "first" });
+    swapSoul("# Second", { name: "second" });
+
+    const entry = rollbackToHistory(1);
+
+    expect(entry?.soul.name).toBe("first");
+    const written = readFileSync(join(tmpDir, ".openclaw", "workspace", "SOUL.md"), "utf-8");
+    expect(written).toBe("<!-- opensoul:swapped -->\n# First");
+    expect(listHistory()[0].action).toBe("rollback");
+  });
+
+  it("rolls back by hash prefix", () => {
+    swapSoul("# First", { name: "first" });
+    swapSoul("# Second", { name: "second" });
+    const hash = listHistory()[1].soul.hash;
+
+    expect(rollbackToHistory(hash.slice(0, 8))?.soul.name).toBe("first");
+    expect(rollbackToHistory("zzzz")).toBeNull();
+  });
+
+  it("keeps a separate history per target", () => {
+    const stagingDir = join(tmpDir, "staging");
+    mkdirSync(stagingDir, { recursive: true });
+    addTarget("staging", { soul_path: stagingDir, skills_path: join(tmpDir, "staging", "skills") });
+
+    swapSoul("# First", { name: "first" });
+    setActiveTarget("staging");
+    swapSoul("# Staging", { name: "staging" });
+    swapSoul("# Second staging", { name: "second staging" });
+
+    expect(listHistory("staging").map((e) => e.soul.name)).toEqual(["second staging", "staging"]);
+    expect(listHistory("default").map((e) => e.soul.name)).toEqual(["first"]);
+    expect(rollbackToHistory(1)?.soul.name).toBe("staging");
+    expect(readFileSync(join(stagingDir, "SOUL.md"), "utf-8")).toBe("<!-- opensoul:swapped -->\n# Staging");
+    expect(readFileSync(join(tmpDir, ".openclaw", "workspace", "SOUL.md"), "utf-8")).toBe(
+      "<!-- opensoul:swapped -->\n# First",
+    );
+  });
+
+  it("keeps exorcise restoring the original after rollbacks", () => {
+    writeFileSync(join(tmpDir, ".openclaw", "workspace", "SOUL.md"), "# Original");
+    swapSoul("# First", { name: "first" });
+    swapSoul("# Second", { name: "second" });
+    rollbackToHistory(1);
+
+    expect(rollbackSoul()).toBe(true);
+    const content = readFileSync(join(tmpDir, ".openclaw", "workspace", "SOUL.md"), "utf-8");
+    expect(content).toBe("# Original");
+  });
+});
+
+describe("drift detection", () => {
+  const soulFile = () => join(tmpDir, ".openclaw", "workspace", "SOUL.md");
+
+  it("reports no drift for a freshly possessed soul", () => {
+    swapSoul("# Possessed", { name: "possessed" });
+    expect(getDrift()).toBeNull();
+  });
+
+  it("detects edits made after possessing", () => {
+    swapSoul("# Possessed", { name: "possessed" });
+    writeFileSync(soulFile(), "<!-- opensoul:swapped -->\n# Possessed\n\nA hand edit.");
+
+    const drift = getDrift();
+    expect(drift?.name).toBe("possessed");
+    expect(drift?.content).toBe("# Possessed\n\nA hand edit.");
+    expect(drift?.written).toBe("# Possessed");
+  });
+
+  it("does not treat a rewritten file without the marker as the original", () => {
+    writeFileSync(soulFile(), "# Original");
+    swapSoul("# Possessed", { name: "possessed" });
+    writeFileSync(soulFile(), "# Rewritten by the agent");
+
+    expect(getDrift()?.content).toBe("# Rewritten by the agent");
+    swapSoul("# Next", { name: "next" });
+    const backup = readFileSync(join(tmpDir, ".soul", "backup", "SOUL.md.original"), "utf-8");
+    expect(backup).toBe("# Original");
+  });
+
+  it("clears drift tracking after exorcise", () => {
+    writeFileSync(soulFile(), "# Original");
+    swapSoul("# Possessed", { name: "possessed" });
+    rollbackSoul();
+    writeFileSync(soulFile(), "# Original, edited by hand");
+    expect(getDrift()).toBeNull();
+  });
+});
+
+describe("targets", () => {
+  it("keeps a separate original backup per target", () => {
+    const stagingDir = join(tmpDir, "staging", "workspace");
+    mkdirSync(stagingDir, { recursive: true });
+    writeFileSync(join(stagingDir, "SOUL.md"), "# Staging original");
+    writeFileSync(join(tmpDir, ".openclaw", "workspace", "SOUL.md"), "# Default original");
+    addTarget("staging", { soul_path: stagingDir, skills_path: join(tmpDir, "staging", "skills") });
+
+    swapSoul("# Possessed", { name: "possessed" });
+    setActiveTarget("staging");
+    swapSoul("# Possessed", { name: "possessed" });
+
+    expect(getSoulPath()).toBe(join(stagingDir, "SOUL.md"));
+    expect(rollbackSoul()).toBe(true);
+    expect(readFileSync(join(stagingDir, "SOUL.md"), "utf-8")).toBe("# Staging original");
+
+    setActiveTarget(undefined);
+    expect(rollbackSoul()).toBe(true);
+    const restored = readFileSync(join(tmpDir, ".openclaw", "workspace", "SOUL.md"), "utf-8");
+    expect(restored).toBe("# Default original");
+  });
+});
+
+describe("adapters", () => {
+  it("possesses and exorcises a CLAUDE.md through a managed block", () => {
+    const claudeMd = join(tmpDir, "repo", "CLAUDE.md");
+    mkdirSync(join(tmpDir, "repo"));
+    writeFileSync(claudeMd, "# Repo notes\n");
+    addTarget("repo", { soul_path: claudeMd, skills_path: join(tmpDir, "repo", "skills") });
+    setActiveTarget("repo");
+
+    swapSoul("# Pirate\n\nArr.", { name: "pirate" });
+    expect(isSwapped()).toBe(true);
+    expect(readFileSync(claudeMd, "utf-8")).toContain("# Repo notes");
+    expect(getDrift()).toBeNull();
+
+    writeFileSync(claudeMd, `${readFileSync(claudeMd, "utf-8")}A note added while possessed\n`);
+    expect(getDrift()).toBeNull();
+
+    expect(rollbackSoul()).toBe(true);
+    expect(readFileSync(claudeMd, "utf-8")).toBe("# Repo notes\nA note added while possessed\n");
+  });
+
+  it("removes a Cursor rule it created on exorcise", () => {
+    const rulesDir = join(tmpDir, "repo", ".cursor", "rules");
+    mkdirSync(rulesDir, { recursive: true });
+    addTarget("cursor", { soul_path: rulesDir, skills_path: join(tmpDir, "repo", "skills") });
+    setActiveTarget("cursor");
+
+    swapSoul("# Pirate", { name: "pirate" });
+    expect(getSoulPath()).toBe(join(rulesDir, "soul.mdc"));
+    expect(hasBackup()).toBe(true);
+
+    expect(rollbackSoul()).toBe(true);
+    expect(existsSync(join(rulesDir, "soul.mdc"))).toBe(false);
+  });
+
+  it("tracks possession of marker-less text files", () => {
+    const prompt = join(tmpDir, "bot", "prompt.txt");
+    mkdirSync(join(tmpDir, "bot"));
+    writeFileSync(prompt, "You are a helpful bot.\n");
+    addTarget("bot", { soul_path: prompt, skills_path: join(tmpDir, "bot", "skills") });
+    setActiveTarget("bot");
+
+    swapSoul("# Pirate", { name: "pirate" });
+    expect(isSwapped()).toBe(true);
+    writeFileSync(prompt, "Edited\n");
+    expect(getDrift()?.content).toBe("Edited");
+
+    rollbackSoul();
+    expect(readFileSync(prompt, "utf-8")).toBe("You are a helpful bot.\n");
+    expect(isSwapped()).toBe(false);
+  });
+});
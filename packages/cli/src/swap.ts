@@ -1,35 +1,97 @@
-import { readFileSync, writeFileSync, mkdirSync, existsSync, copyFileSync, statSync } from "node:fs";
-import { join, dirname } from "node:path";
-import { homedir } from "node:os";
-import { loadConfig } from "./config.js";
+import { readFileSync, writeFileSync, mkdirSync, existsSync, copyFileSync, statSync, rmSync } from "node:fs";
+import { join, dirname, basename } from "node:path";
+import { resolveTarget } from "./config.js";
+import {
+  ADAPTERS,
+  inferAdapter,
+  inferDirectoryAdapter,
+  type AdapterKind,
+  type AdapterOptions,
+  type TargetAdapter,
+} from "./adapters.js";
+import {
+  recordHistory,
+  findHistoryEntry,
+  readSnapshot,
+  hashContent,
+  type HistoryRecord,
+} from "./history.js";
 
-const SWAP_MARKER = "<!-- opensoul:swapped -->";
+interface TargetFile {
+  path: string;
+  /** Null when no adapter is configured and none can be inferred from the file name */
+  kind: AdapterKind | null;
+  options: AdapterOptions;
+}
 
-function soulPath(): string {
-  const p = loadConfig().soul_path;
+function targetFile(): TargetFile {
+  const target = resolveTarget();
+  const options = { json_key: target.json_key };
+  const p = target.soul_path;
   if (existsSync(p) && statSync(p).isDirectory()) {
-    return join(p, "SOUL.md");
+    const kind = target.adapter ?? inferDirectoryAdapter(p);
+    return { path: join(p, ADAPTERS[kind].defaultFile), kind, options };
   }
-  return p;
+  return { path: p, kind: target.adapter ?? inferAdapter(p), options };
+}
+
+function soulPath(): string {
+  return targetFile().path;
+}
+
+// Unknown file types are handled as SOUL.md; possess refuses them up front
+function adapter(): TargetAdapter {
+  return ADAPTERS[targetFile().kind ?? "soul"];
 }
 
+// Per target, so possessing a second agent never overwrites another's original
 function backupDir(): string {
-  return join(homedir(), ".soul", "backup");
+  return resolveTarget().backup_dir;
 }
 
 function backupPath(): string {
-  return join(backupDir(), "SOUL.md.original");
+  return join(backupDir(), `${basename(soulPath())}.original`);
+}
+
+// What the CLI last wrote to the target, so later writes can tell if it was edited since
+interface WrittenRecord {
+  path: string;
+  name: string;
+  /** History hash of the possessed soul */
+  hash: string;
+  /** Hash of the soul text as the adapter wrote it into the file */
+  written_hash: string;
+  /** True when the file didn't exist before the first possess */
+  created: boolean;
+  writtenAt: string;
+}
+
+function writtenRecordPath(): string {
+  return join(backupDir(), "written.json");
+}
+
+function loadWrittenRecord(): WrittenRecord | null {
+  const path = writtenRecordPath();
+  if (!existsSync(path)) return null;
+  const record = JSON.parse(readFileSync(path, "utf-8")) as WrittenRecord;
+  return record.path === soulPath() ? record : null;
 }
 
 export function getSoulPath(): string {
   return soulPath();
 }
 
+/** The adapter configured or inferred for the current target, or null if it can't be determined. */
+export function getAdapterKind(): AdapterKind | null {
+  return targetFile().kind;
+}
+
 export function isSwapped(): boolean {
   const p = soulPath();
   if (!existsSync(p)) return false;
-  const content = readFileSync(p, "utf-8");
-  return content.startsWith(SWAP_MARKER);
+  const marked = adapter().hasMarker(readFileSync(p, "utf-8"));
+  // Formats without a marker are possessed for as long as we have a record of writing them
+  return marked ?? loadWrittenRecord() !== null;
 }
 
 export function readCurrentSoul(): string | null {
@@ -38,32 +100,119 @@ export function readCurrentSoul(): string | null {
   return readFileSync(p, "utf-8");
 }
 
+/** The soul text as the adapter sees it in the target file, or null if there is none. */
+export function extractSoul(): string | null {
+  const current = readCurrentSoul();
+  if (current === null) return null;
+  const { options } = targetFile();
+  try {
+    return adapter().extract(current, options);
+  } catch {
+    // e.g. a JSON target that no longer parses
+    return current;
+  }
+}
+
+// History hash of the possessing soul, or null if it was edited since or isn't ours
+export function currentSoulHash(): string | null {
+  const record = loadWrittenRecord();
+  if (record) return getDrift() ? null : record.hash;
+  // Possessions from before the CLI kept written records
+  if (!isSwapped()) return null;
+  const soul = extractSoul();
+  return soul === null ? null : hashContent(soul);
+}
+
+/**
+ * Detect edits made to a possessed target since the CLI wrote it, by hand
+ * or by the agent itself. Returns the edited soul text, what was originally
+ * written and the name it was possessed as, or null when the file is as
+ * written.
+ */
+export function getDrift(): { name: string; content: string; written: string | null } | null {
+  const record = loadWrittenRecord();
+  if (!record || !existsSync(record.path)) return null;
+
+  const content = extractSoul() ?? "";
+  if (hashContent(content) === record.written_hash) return null;
+
+  const entry = findHistoryEntry(record.hash);
+  const snapshot = entry ? readSnapshot(entry) : null;
+  const { options } = targetFile();
+  const written = snapshot === null ? null : adapter().extract(adapter().inject(null, snapshot, options), options);
+  return { name: record.name, content, written };
+}
+
 export function hasBackup(): boolean {
-  return existsSync(backupPath());
+  return existsSync(backupPath()) || loadWrittenRecord()?.created === true;
 }
 
-export function swapSoul(newContent: string): { backedUp: boolean } {
+export function swapSoul(
+  newContent: string,
+  opts: { name?: string; action?: HistoryRecord["action"] } = {},
+): { backedUp: boolean } {
   let backedUp = false;
   const p = soulPath();
+  const { options } = targetFile();
+  const previous = loadWrittenRecord();
+  const existed = existsSync(p);
 
-  // If current SOUL.md is NOT already a swapped one, back it up
-  if (!isSwapped() && existsSync(p)) {
+  // Back up the current file only if it's the user's own. A file we wrote
+  // that lost its marker (e.g. rewritten by the agent) is not the original.
+  if (!isSwapped() && existed && !previous) {
     mkdirSync(backupDir(), { recursive: true });
     copyFileSync(p, backupPath());
     backedUp = true;
   }
 
-  // Write the new soul with the swap marker
   mkdirSync(dirname(p), { recursive: true });
-  const marked = `${SWAP_MARKER}\n${newContent}`;
-  writeFileSync(p, marked, "utf-8");
+  const written = adapter().inject(existed ? readFileSync(p, "utf-8") : null, newContent, options);
+  writeFileSync(p, written, "utf-8");
+
+  const entry = recordHistory(newContent, opts.name ?? "unnamed", opts.action ?? "swap", resolveTarget().name);
+  const record: WrittenRecord = {
+    path: p,
+    name: entry.soul.name,
+    hash: entry.soul.hash,
+    written_hash: hashContent(adapter().extract(written, options) ?? ""),
+    created: previous ? previous.created : !existed,
+    writtenAt: entry.timestamp,
+  };
+  mkdirSync(backupDir(), { recursive: true });
+  writeFileSync(writtenRecordPath(), JSON.stringify(record, null, 2), "utf-8");
 
   return { backedUp };
 }
 
 export function rollbackSoul(): boolean {
-  if (!existsSync(backupPath())) return false;
+  if (!hasBackup()) return false;
 
-  copyFileSync(backupPath(), soulPath());
+  const p = soulPath();
+  const { options } = targetFile();
+  // A file we created has no original; any backup on disk is from an earlier possession
+  const created = loadWrittenRecord()?.created === true;
+  const original = !created && existsSync(backupPath()) ? readFileSync(backupPath(), "utf-8") : null;
+  const restored = adapter().restore(readCurrentSoul(), original, options);
+  if (restored === null) {
+    rmSync(p, { force: true });
+  } else {
+    writeFileSync(p, restored, "utf-8");
+  }
+  rmSync(writtenRecordPath(), { force: true });
   return true;
 }
+
+/**
+ * Possess with an earlier entry from the target's possession history.
+ * Unlike `rollbackSoul()`, which restores the pre-possession original, this
+ * can return to any soul that was possessed before.
+ */
+export function rollbackToHistory(ref: string | number): HistoryRecord | null {
+  const entry = findHistoryEntry(ref, resolveTarget().name);
+  if (!entry) return null;
+  const content = readSnapshot(entry);
+  if (content === null) return null;
+
+  swapSoul(content, { name: entry.soul.name, action: "rollback" });
+  return entry;
+}
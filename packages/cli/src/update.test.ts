@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { createHash } from "node:crypto";
+import { cacheSoul, getCached, isStale, listCached } from "./cache.js";
+import { checkCached, updateCached, needsCheck, FRESHNESS_TTL_MS } from "./update.js";
+import type { RegistrySoul } from "./registry-client.js";
+
+let tmpDir: string;
+let originalHome: string;
+
+function sha(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+// Stands in for the registry: one soul per label, with its current content
+function fakeRegistry(souls: Record<string, string>) {
+  return {
+    async getMeta(id: string) {
+      if (!(id in souls)) throw new Error(`Soul '${id}' not found in registry`);
+      return { label: id, hash: sha(souls[id]) } as RegistrySoul;
+    },
+    async getContentIfChanged(id: string, hash: string) {
+      return sha(souls[id]) === hash ? null : souls[id];
+    },
+  };
+}
+
+beforeEach(() => {
+  tmpDir = mkdtempSync(join(tmpdir(), "opensoul-update-test-"));
+  originalHome = process.env.HOME!;
+  process.env.HOME = tmpDir;
+});
+
+afterEach(() => {
+  process.env.HOME = originalHome;
+  rmSync(tmpDir, { recursive: true });
+});
+
+describe("checkCached", () => {
+  it("flags souls whose registry content changed and remembers it", async () => {
+    cacheSoul("Pirate", "# v1", sha("# v1"), "pirate");
+    cacheSoul("Monk", "# calm", sha("# calm"), "monk");
+    cacheSoul("Local", "# mine", sha("# mine"));
+
+    const results = await checkCached(fakeRegistry({ pirate: "# v2", monk: "# calm" }), listCached());
+    expect(results.map((r) => [r.entry.label, r.stale])).toEqual([
+      ["pirate", true],
+      ["monk", false],
+    ]);
+    expect(isStale(getCached("pirate")!.entry)).toBe(true);
+    expect(isStale(getCached("monk")!.entry)).toBe(false);
+  });
+
+  it("reports registry errors without failing the other checks", async () => {
+    cacheSoul("Gone", "# old", sha("# old"), "gone");
+    cacheSoul("Pirate", "# v1", sha("# v1"), "pirate");
+
+    const results = await checkCached(fakeRegistry({ pirate: "# v1" }), listCached());
+    expect(results[0].error).toContain("not found");
+    expect(results[1].stale).toBe(false);
+  });
+});
+
+describe("updateCached", () => {
+  it("replaces stale content and keeps the local name", async () => {
+    cacheSoul("My Pirate", "# v1", sha("# v1"), "pirate");
+    const entry = getCached("pirate")!.entry;
+
+    const updated = await updateCached(fakeRegistry({ pirate: "# v2" }), { ...entry, label: "pirate" });
+    expect(updated?.hash).toBe(sha("# v2"));
+
+    const cached = getCached("My Pirate")!;
+    expect(cached.content).toBe("# v2");
+    expect(isStale(cached.entry)).toBe(false);
+  });
+
+  it("returns null when the cached copy is current", async () => {
+    cacheSoul("Pirate", "# v1", sha("# v1"), "pirate");
+    const entry = getCached("pirate")!.entry;
+    expect(await updateCached(fakeRegistry({ pirate: "# v1" }), { ...entry, label: "pirate" })).toBeNull();
+  });
+});
+
+describe("needsCheck", () => {
+  it("rechecks registry souls once the last check is older than the TTL", () => {
+    cacheSoul("Pirate", "# v1", sha("# v1"), "pirate");
+    cacheSoul("Local", "# mine", sha("# mine"));
+    const [pirate, local] = listCached();
+
+    expect(needsCheck(pirate)).toBe(false);
+    expect(needsCheck(pirate, Date.now() + FRESHNESS_TTL_MS + 1000)).toBe(true);
+    expect(needsCheck(local)).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+import { createHash } from "node:crypto";
+import { cacheSoul, recordRemoteHash, type CacheEntry } from "./cache.js";
+import type { RegistryClient } from "./registry-client.js";
+
+// How long `soul list` trusts the last freshness check before asking the registry again
+export const FRESHNESS_TTL_MS = 60 * 60 * 1000;
+
+export interface FreshnessResult {
+  entry: CacheEntry;
+  /** Registry hash, or null if the check failed */
+  remoteHash: string | null;
+  stale: boolean;
+  error?: string;
+}
+
+/** Whether a registry soul's freshness is unknown or older than the TTL. */
+export function needsCheck(entry: CacheEntry, now: number = Date.now()): boolean {
+  if (!entry.label) return false;
+  if (!entry.checkedAt) return true;
+  return now - Date.parse(entry.checkedAt) > FRESHNESS_TTL_MS;
+}
+
+/**
+ * Compare cached souls against the registry and remember the result.
+ * Souls that weren't summoned from the registry are skipped.
+ */
+export async function checkCached(
+  client: Pick<RegistryClient, "getMeta">,
+  entries: CacheEntry[],
+): Promise<FreshnessResult[]> {
+  const fromRegistry = entries.filter((e): e is CacheEntry & { label: string } => e.label != null);
+  return Promise.all(
+    fromRegistry.map(async (entry): Promise<FreshnessResult> => {
+      try {
+        const meta = await client.getMeta(entry.label);
+        if (!meta.hash) {
+          return { entry, remoteHash: null, stale: false, error: "Registry did not report a content hash" };
+        }
+        recordRemoteHash(entry.label, meta.hash);
+        return { entry, remoteHash: meta.hash, stale: meta.hash !== entry.hash };
+      } catch (err) {
+        return { entry, remoteHash: null, stale: false, error: (err as Error).message };
+      }
+    }),
+  );
+}
+
+/**
+ * Download a cached soul's latest content into the cache. Returns the new
+ * content and hash, or null if the cached copy was already current.
+ */
+export async function updateCached(
+  client: Pick<RegistryClient, "getContentIfChanged">,
+  entry: CacheEntry & { label: string },
+): Promise<{ content: string; hash: string } | null> {
+  const content = await client.getContentIfChanged(entry.label, entry.hash);
+  if (content === null) {
+    recordRemoteHash(entry.label, entry.hash);
+    return null;
+  }
+  const hash = createHash("sha256").update(content).digest("hex");
+  // Keep the local name so `soul possess <name>` keeps working after a rename
+  cacheSoul(entry.name, content, hash, entry.label);
+  return { content, hash };
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { composeSoul, ComposeError } from "./compose.js";
+import { parseSoulFile } from "./parser.js";
+import { lintSoul } from "./lint.js";
+
+const pirate = parseSoulFile(`---
+name: Pirate
+author: alice
+tags: [fun, roleplay]
+license: MIT
+---
+# SOUL.md — Pirate
+
+*Arr.*
+
+## Voice
+
+Talks like a pirate.
+
+## Boundaries
+
+Never walks the plank.
+`);
+
+const mentor = parseSoulFile(`---
+name: Mentor
+author: bob
+tags: [Teaching, fun]
+license: CC-BY-4.0
+compatible-skills: [code-review]
+---
+# SOUL.md — Mentor
+
+## Voice
+
+Patient and clear.
+
+## Teaching Style
+
+Socratic questions first.
+`);
+
+const sources = { pirate, mentor };
+
+describe("composeSoul", () => {
+  it("keeps the base and swaps in picked sections by heading", () => {
+    const result = composeSoul(sources, {
+      name: "Pirate Mentor",
+      base: "pirate",
+      sections: [{ heading: "voice", from: "mentor" }],
+    });
+    const soul = parseSoulFile(result.content);
+
+    expect(soul.frontmatter.name).toBe("Pirate Mentor");
+    expect(soul.sections.map((s) => s.heading)).toEqual(["Voice", "Boundaries"]);
+    expect(soul.sections[0].content).toBe("Patient and clear.");
+    expect(result.content).toContain("# SOUL.md - Pirate Mentor");
+    expect(result.content).toContain("*Arr.*");
+    expect(result.provenance).toEqual([
+      { heading: "Voice", source: "mentor" },
+      { heading: "Boundaries", source: "pirate" },
+    ]);
+  });
+
+  it("appends sections the base does not have and renames with as", () => {
+    const result = composeSoul(sources, {
+      name: "Blend",
+      base: "pirate",
+      sections: [{ heading: "Teaching Style", from: "mentor", as: "How You Teach" }],
+    });
+
+    expect(result.provenance.at(-1)).toEqual({ heading: "How You Teach", source: "mentor", original: "Teaching Style" });
+    expect(parseSoulFile(result.content).sections.map((s) => s.heading)).toEqual(["Voice", "Boundaries", "How You Teach"]);
+  });
+
+  it("merges frontmatter of contributing sources", () => {
+    const result = composeSoul(sources, {
+      name: "Blend",
+      base: "pirate",
+      sections: [{ heading: "Teaching Style", from: "mentor" }],
+    });
+
+    expect(result.frontmatter.author).toBe("alice, bob");
+    expect(result.frontmatter.tags).toEqual(["fun", "roleplay", "teaching"]);
+    expect(result.frontmatter.license).toBe("MIT AND CC-BY-4.0");
+    expect(result.frontmatter["compatible-skills"]).toEqual(["code-review"]);
+    expect(result.warnings[0]).toContain("different licenses");
+  });
+
+  it("only credits sources that contributed a section", () => {
+    const result = composeSoul(sources, {
+      name: "Blend",
+      sections: [{ heading: "Boundaries", from: "pirate" }],
+    });
+
+    expect(result.frontmatter.author).toBe("alice");
+    expect(result.frontmatter.license).toBe("MIT");
+    expect(result.frontmatter.tags).toEqual(["fun", "roleplay"]);
+    expect(result.warnings).toEqual([]);
+    expect(composeSoul({ bare: parseSoulFile("## Voice\n\nQuiet.") }, { name: "X", base: "bare" }).warnings[0]).toContain("No source declares an author");
+    expect(composeSoul(sources, { name: "Blend", base: "pirate", author: "carol" }).frontmatter.author).toBe("carol");
+  });
+
+  it("rejects duplicate headings unless conflicts is suffix", () => {
+    const spec = {
+      name: "Blend",
+      sections: [
+        { heading: "Voice", from: "pirate" },
+        { heading: "Voice", from: "mentor" },
+      ],
+    };
+
+    expect(() => composeSoul(sources, spec)).toThrow(ComposeError);
+    const result = composeSoul(sources, { ...spec, conflicts: "suffix" });
+    expect(result.provenance.map((p) => p.heading)).toEqual(["Voice", "Voice (mentor)"]);
+  });
+
+  it("blends lint-clean souls into a lint-clean soul", () => {
+    const fixturesDir = resolve(import.meta.dirname, "../../../fixtures");
+    const fixture = (file: string) =>
+      parseSoulFile(`---\nauthor: alice\n---\n${readFileSync(resolve(fixturesDir, file), "utf-8")}`);
+    const result = composeSoul(
+      { friend: fixture("ride-or-die.soul.md"), goblin: fixture("chaos-goblin.soul.md") },
+      { name: "Chaotic Friend", base: "friend", sections: [{ heading: "Vibe", from: "goblin" }] },
+    );
+    expect(lintSoul(result.content)).toEqual([]);
+  });
+
+  it("reports unknown sources and sections", () => {
+    expect(() => composeSoul(sources, { name: "X", base: "nope" })).toThrow("Unknown source 'nope'");
+    expect(() => composeSoul(sources, { name: "X", sections: [{ heading: "Tone", from: "pirate" }] }))
+      .toThrow("'pirate' has no section 'Tone' (it has 'Voice', 'Boundaries')");
+  });
+});
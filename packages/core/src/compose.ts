@@ -0,0 +1,168 @@
+import { normalizeTags, MAX_TAGS } from "./tags.js";
+import { serializeSoulFile } from "./serialize.js";
+import type { SoulFile, SoulFrontmatter, SoulSection } from "./types.js";
+
+export interface SectionPick {
+  /** Heading of the section in the source soul */
+  heading: string;
+  /** Key of the source in the `sources` passed to composeSoul */
+  from: string;
+  /** Heading to use in the blend; a base section with this heading is replaced */
+  as?: string;
+}
+
+export interface BlendSpec {
+  /** Name of the new soul */
+  name: string;
+  /** Source providing every section not picked, plus the tagline and epilogue */
+  base?: string;
+  sections?: SectionPick[];
+  author?: string;
+  description?: string;
+  /**
+   * What to do when two picks end up with the same heading: "error" refuses,
+   * "suffix" keeps both and renames the later one to "Heading (source)".
+   */
+  conflicts?: "error" | "suffix";
+}
+
+export interface ProvenanceEntry {
+  heading: string;
+  source: string;
+  /** The heading in the source, when it was renamed with `as` */
+  original?: string;
+}
+
+export interface ComposedSoul {
+  content: string;
+  frontmatter: SoulFrontmatter;
+  provenance: ProvenanceEntry[];
+  /** Non-fatal problems, e.g. sources with different licenses */
+  warnings: string[];
+}
+
+export class ComposeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ComposeError";
+  }
+}
+
+/** Compare headings the way a reader would: ignoring case, punctuation and spacing. */
+export function headingKey(heading: string): string {
+  return heading.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+function findSection(soul: SoulFile, heading: string): SoulSection | undefined {
+  const key = headingKey(heading);
+  return soul.sections.find((s) => headingKey(s.heading) === key);
+}
+
+function stringList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === "string");
+  if (typeof value === "string") return value.split(",").map((v) => v.trim()).filter(Boolean);
+  return [];
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+/**
+ * Build a new soul from sections of several others.
+ *
+ * Sections come from `base` in its order, with picked sections swapped in
+ * where a base section has the same heading and appended otherwise. The
+ * frontmatter merges authors, tags, licenses and compatible skills of
+ * every source that contributed a section, and records where each section
+ * came from under `provenance`.
+ */
+export function composeSoul(sources: Record<string, SoulFile>, spec: BlendSpec): ComposedSoul {
+  const source = (key: string): SoulFile => {
+    const soul = sources[key];
+    if (!soul) throw new ComposeError(`Unknown source '${key}'`);
+    return soul;
+  };
+
+  const base = spec.base !== undefined ? source(spec.base) : null;
+  const picks = spec.sections ?? [];
+  if (!base && picks.length === 0) {
+    throw new ComposeError("Nothing to blend: give a base soul or at least one section");
+  }
+
+  const sections: SoulSection[] = [];
+  const provenance: ProvenanceEntry[] = [];
+  for (const section of base?.sections ?? []) {
+    sections.push({ heading: section.heading, content: section.content });
+    provenance.push({ heading: section.heading, source: spec.base! });
+  }
+
+  const picked = new Set<string>();
+  for (const pick of picks) {
+    const section = findSection(source(pick.from), pick.heading);
+    if (!section) {
+      const available = source(pick.from).sections.map((s) => `'${s.heading}'`).join(", ");
+      throw new ComposeError(`'${pick.from}' has no section '${pick.heading}' (it has ${available || "no sections"})`);
+    }
+
+    let heading = pick.as ?? section.heading;
+    if (picked.has(headingKey(heading))) {
+      if (spec.conflicts !== "suffix") {
+        throw new ComposeError(`Two sections would be called '${heading}'; pick one or use the suffix conflict rule`);
+      }
+      heading = `${heading} (${pick.from})`;
+    }
+    picked.add(headingKey(heading));
+
+    const entry: ProvenanceEntry = { heading, source: pick.from };
+    if (heading !== section.heading) entry.original = section.heading;
+    const index = sections.findIndex((s) => headingKey(s.heading) === headingKey(heading));
+    if (index === -1) {
+      sections.push({ heading, content: section.content });
+      provenance.push(entry);
+    } else {
+      sections[index] = { heading, content: section.content };
+      provenance[index] = entry;
+    }
+  }
+
+  const contributors = unique(provenance.map((p) => p.source));
+  const contributing = contributors.map(source);
+  const warnings: string[] = [];
+
+  const authors = unique(contributing.map((s) => s.frontmatter.author).filter((a): a is string => typeof a === "string" && a.trim() !== ""));
+  const licenses = unique(contributing.map((s) => s.frontmatter.license).filter((l): l is string => typeof l === "string" && l.trim() !== ""));
+  if (licenses.length > 1) {
+    warnings.push(`Sources have different licenses (${licenses.join(", ")}); check they allow combining`);
+  }
+  const unlicensed = contributors.filter((key) => !source(key).frontmatter.license);
+  if (licenses.length > 0 && unlicensed.length > 0) {
+    warnings.push(`No license declared by ${unlicensed.join(", ")}`);
+  }
+
+  if (!spec.author && authors.length === 0) {
+    warnings.push("No source declares an author; set one for the blend before publishing it");
+  }
+
+  const frontmatter: SoulFrontmatter = {
+    name: spec.name,
+    author: spec.author ?? authors.join(", "),
+  };
+  if (spec.description) frontmatter.description = spec.description;
+  const tags = normalizeTags(contributing.flatMap((s) => stringList(s.frontmatter.tags))).slice(0, MAX_TAGS);
+  if (tags.length > 0) frontmatter.tags = tags;
+  if (licenses.length > 0) frontmatter.license = licenses.join(" AND ");
+  const skills = unique(contributing.flatMap((s) => stringList(s.frontmatter["compatible-skills"])));
+  if (skills.length > 0) frontmatter["compatible-skills"] = skills;
+  frontmatter.provenance = provenance.map((p) => ({ ...p }));
+
+  const content = serializeSoulFile({
+    frontmatter,
+    title: `SOUL.md - ${spec.name}`,
+    tagline: base?.tagline,
+    sections,
+    epilogue: base?.epilogue,
+  });
+
+  return { content, frontmatter, provenance, warnings };
+}
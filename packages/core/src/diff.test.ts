@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { diffSouls, diffHunks } from "./diff.js";
+import { parseSoulFile } from "./parser.js";
+
+const before = parseSoulFile(`---
+name: Pirate
+author: alice
+tags: [fun]
+---
+# SOUL.md — Pirate
+
+*Arr.*
+
+## Voice
+
+Talks like a pirate.
+Says arr a lot.
+Loves the sea.
+
+## Boundaries
+
+Never walks the plank.
+
+## Treasure
+
+Buried on an island.
+`);
+
+const after = parseSoulFile(`---
+name: Pirate
+author: alice
+tags: [fun, sea]
+license: MIT
+---
+# SOUL.md — Pirate
+
+*Arr!*
+
+## Voice
+
+Talks like a pirate.
+Says ahoy a lot.
+Loves the sea.
+
+## What You Won't Do
+
+Never walks the plank.
+
+## Continuity
+
+Remembers every port.
+`);
+
+describe("diffSouls", () => {
+  it("reports added, removed, renamed and modified sections", () => {
+    const diff = diffSouls(before, after);
+
+    expect(diff.identical).toBe(false);
+    expect(diff.sections.map((s) => s.type)).toEqual(["modified", "renamed", "added", "removed"]);
+    expect(diff.sections[1]).toEqual({ type: "renamed", from: "Boundaries", to: "What You Won't Do", hunks: [] });
+    expect(diff.sections[2]).toMatchObject({ heading: "Continuity", content: "Remembers every port." });
+    expect(diff.sections[3]).toMatchObject({ heading: "Treasure" });
+  });
+
+  it("gives line-level hunks for modified sections", () => {
+    const voice = diffSouls(before, after).sections[0];
+
+    expect(voice.type === "modified" && voice.hunks).toEqual([
+      {
+        oldStart: 1,
+        oldLines: 3,
+        newStart: 1,
+        newLines: 3,
+        lines: [
+          { type: "same", text: "Talks like a pirate." },
+          { type: "remove", text: "Says arr a lot." },
+          { type: "add", text: "Says ahoy a lot." },
+          { type: "same", text: "Loves the sea." },
+        ],
+      },
+    ]);
+  });
+
+  it("reports frontmatter and preamble changes", () => {
+    const diff = diffSouls(before, after);
+
+    expect(diff.frontmatter).toEqual([
+      { key: "tags", type: "changed", before: ["fun"], after: ["fun", "sea"] },
+      { key: "license", type: "added", after: "MIT" },
+    ]);
+    expect(diff.preamble[0].lines.filter((l) => l.type !== "same")).toEqual([
+      { type: "remove", text: "*Arr.*" },
+      { type: "add", text: "*Arr!*" },
+    ]);
+  });
+
+  it("matches headings ignoring case and reports identical souls", () => {
+    const lower = parseSoulFile(before.raw.replace("## Voice", "## voice"));
+
+    expect(diffSouls(before, lower).sections).toEqual([{ type: "renamed", from: "Voice", to: "voice", hunks: [] }]);
+    expect(diffSouls(before, before).identical).toBe(true);
+  });
+});
+
+describe("diffHunks", () => {
+  it("splits distant changes into separate hunks", () => {
+    const a = Array.from({ length: 12 }, (_, i) => `line ${i + 1}`).join("\n");
+    const b = a.replace("line 1\n", "line one\n").replace("line 12", "line twelve");
+
+    const hunks = diffHunks(a, b, 2);
+    expect(hunks.map((h) => [h.oldStart, h.oldLines, h.newStart, h.newLines])).toEqual([
+      [1, 3, 1, 3],
+      [10, 3, 10, 3],
+    ]);
+  });
+});
@@ -0,0 +1,196 @@
+import { headingKey } from "./compose.js";
+import type { SoulFile } from "./types.js";
+
+export interface DiffLine {
+  type: "same" | "add" | "remove";
+  text: string;
+}
+
+/** A run of changed lines with surrounding context; line numbers are 1-based. */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface FrontmatterChange {
+  key: string;
+  type: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+}
+
+export type SectionChange =
+  | { type: "added"; heading: string; content: string }
+  | { type: "removed"; heading: string; content: string }
+  | { type: "modified"; heading: string; hunks: DiffHunk[] }
+  /** Same section under a new heading; `hunks` is empty if the text is unchanged */
+  | { type: "renamed"; from: string; to: string; hunks: DiffHunk[] };
+
+export interface SoulDiff {
+  identical: boolean;
+  frontmatter: FrontmatterChange[];
+  /** Changes to the title and tagline before the first section */
+  preamble: DiffHunk[];
+  sections: SectionChange[];
+  /** Changes to the closing line after the last section */
+  epilogue: DiffHunk[];
+}
+
+/** How alike two texts must be for a removed and an added section to count as a rename. */
+const RENAME_SIMILARITY = 0.6;
+
+/** Line-level diff via longest common subsequence. Souls are small enough for O(n·m). */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: "remove", text: a[i++] });
+    } else {
+      lines.push({ type: "add", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "remove", text: a[i++] });
+  while (j < b.length) lines.push({ type: "add", text: b[j++] });
+  return lines;
+}
+
+/** Group a line diff into hunks with `context` unchanged lines around each change. */
+export function diffHunks(before: string, after: string, context = 3): DiffHunk[] {
+  const lines = diffLines(before, after);
+  const keep = lines.map((_, i) =>
+    lines.slice(Math.max(0, i - context), i + context + 1).some((l) => l.type !== "same"),
+  );
+
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let oldLine = 1;
+  let newLine = 1;
+  lines.forEach((line, i) => {
+    if (!keep[i]) {
+      current = null;
+    } else {
+      if (!current) {
+        current = { oldStart: oldLine, oldLines: 0, newStart: newLine, newLines: 0, lines: [] };
+        hunks.push(current);
+      }
+      current.lines.push(line);
+      if (line.type !== "add") current.oldLines++;
+      if (line.type !== "remove") current.newLines++;
+    }
+    if (line.type !== "add") oldLine++;
+    if (line.type !== "remove") newLine++;
+  });
+  return hunks;
+}
+
+// Share of lines two texts have in common, from 0 to 1
+function similarity(a: string, b: string): number {
+  const lines = diffLines(a, b);
+  const same = lines.filter((l) => l.type === "same").length;
+  const total = a.split("\n").length + b.split("\n").length;
+  return total === 0 ? 1 : (2 * same) / total;
+}
+
+function preambleText(soul: SoulFile): string {
+  return [soul.title !== undefined ? `# ${soul.title}` : "", soul.tagline ?? ""].filter(Boolean).join("\n\n");
+}
+
+function diffFrontmatter(a: Record<string, unknown>, b: Record<string, unknown>): FrontmatterChange[] {
+  const changes: FrontmatterChange[] = [];
+  for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    if (!(key in b)) changes.push({ key, type: "removed", before: a[key] });
+    else if (!(key in a)) changes.push({ key, type: "added", after: b[key] });
+    else if (JSON.stringify(a[key]) !== JSON.stringify(b[key])) {
+      changes.push({ key, type: "changed", before: a[key], after: b[key] });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Compare two souls section by section. Sections are matched by heading
+ * (ignoring case and punctuation); a removed and an added section with
+ * mostly the same text are reported as a rename. Changes are listed in
+ * the order of `b`, with removed sections after.
+ */
+export function diffSouls(a: SoulFile, b: SoulFile): SoulDiff {
+  const remaining = new Map(a.sections.map((s, i) => [i, s]));
+  const matched = new Map<number, number>();
+  b.sections.forEach((section, j) => {
+    for (const [i, old] of remaining) {
+      if (headingKey(old.heading) === headingKey(section.heading)) {
+        matched.set(j, i);
+        remaining.delete(i);
+        break;
+      }
+    }
+  });
+
+  // Pair leftover sections as renames, most similar first
+  const candidates: { i: number; j: number; score: number }[] = [];
+  b.sections.forEach((section, j) => {
+    if (matched.has(j)) return;
+    for (const [i, old] of remaining) {
+      const score = similarity(old.content, section.content);
+      if (score >= RENAME_SIMILARITY) candidates.push({ i, j, score });
+    }
+  });
+  const renamed = new Set<number>();
+  for (const { i, j } of candidates.sort((x, y) => y.score - x.score)) {
+    if (!remaining.has(i) || matched.has(j)) continue;
+    matched.set(j, i);
+    renamed.add(j);
+    remaining.delete(i);
+  }
+
+  const sections: SectionChange[] = [];
+  b.sections.forEach((section, j) => {
+    const i = matched.get(j);
+    if (i === undefined) {
+      sections.push({ type: "added", heading: section.heading, content: section.content });
+      return;
+    }
+    const old = a.sections[i];
+    const hunks = old.content === section.content ? [] : diffHunks(old.content, section.content);
+    if (renamed.has(j) || old.heading !== section.heading) {
+      sections.push({ type: "renamed", from: old.heading, to: section.heading, hunks });
+    } else if (hunks.length > 0) {
+      sections.push({ type: "modified", heading: section.heading, hunks });
+    }
+  });
+  for (const old of remaining.values()) {
+    sections.push({ type: "removed", heading: old.heading, content: old.content });
+  }
+
+  const before = preambleText(a);
+  const after = preambleText(b);
+  const preamble = before === after ? [] : diffHunks(before, after);
+  const epilogue = (a.epilogue ?? "") === (b.epilogue ?? "") ? [] : diffHunks(a.epilogue ?? "", b.epilogue ?? "");
+  const frontmatter = diffFrontmatter(a.frontmatter, b.frontmatter);
+
+  return {
+    identical: frontmatter.length === 0 && preamble.length === 0 && sections.length === 0 && epilogue.length === 0,
+    frontmatter,
+    preamble,
+    sections,
+    epilogue,
+  };
+}
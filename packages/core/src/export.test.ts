@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { exportSoul, isExportFormat, EXPORT_FORMATS, type ExportFormat } from "./export.js";
+import { parseSoulFile } from "./parser.js";
+
+const soul = parseSoulFile(`---
+name: Pirate
+author: alice
+description: Talks like a pirate
+tags: [fun, roleplay]
+license: MIT
+---
+# SOUL.md — Pirate
+
+*Arr.*
+
+## Voice
+
+Loud and salty.
+
+---
+
+_Yo ho._
+`);
+
+const prompt = "# SOUL.md — Pirate\n\n*Arr.*\n\n## Voice\n\nLoud and salty.\n\n---\n\n_Yo ho._";
+
+describe("exportSoul", () => {
+  it("writes the soul without frontmatter as a system prompt", () => {
+    expect(exportSoul(soul, "system-prompt")).toBe(`${prompt}\n`);
+  });
+
+  it("wraps the prompt for chat APIs", () => {
+    expect(JSON.parse(exportSoul(soul, "openai-messages"))).toEqual({
+      messages: [{ role: "system", content: prompt }],
+    });
+    expect(JSON.parse(exportSoul(soul, "anthropic-messages"))).toEqual({ system: prompt, messages: [] });
+  });
+
+  it("titles AGENTS.md with the soul's name and credits the author", () => {
+    const out = exportSoul(soul, "agents-md");
+    expect(out.split("\n").slice(0, 2)).toEqual([
+      '<!-- Personality "Pirate" by alice, exported from SOUL.md -->',
+      "# Pirate personality",
+    ]);
+    expect(out).toContain("## Voice\n\nLoud and salty.");
+  });
+
+  it("writes an always-applied Cursor rule", () => {
+    const rule = parseSoulFile(exportSoul(soul, "cursor-rule"));
+    expect(rule.frontmatter).toEqual({ description: "Pirate: Talks like a pirate", alwaysApply: true });
+    expect(rule.sections.map((s) => s.heading)).toEqual(["Voice"]);
+  });
+
+  it("maps metadata onto a character card", () => {
+    const card = JSON.parse(exportSoul(soul, "character-card"));
+    expect(card.spec).toBe("chara_card_v2");
+    expect(card.data).toMatchObject({
+      name: "Pirate",
+      description: "Talks like a pirate",
+      personality: "*Arr.*",
+      system_prompt: prompt,
+      tags: ["fun", "roleplay"],
+      creator: "alice",
+    });
+  });
+
+  it("falls back to the title when there is no frontmatter", () => {
+    const bare = parseSoulFile("# SOUL.md - Monk\n\n## Calm\n\nBreathe.");
+    expect(JSON.parse(exportSoul(bare, "character-card")).data.name).toBe("Monk");
+    expect(exportSoul(bare, "agents-md")).toContain("# Monk personality");
+  });
+
+  it("knows its formats", () => {
+    for (const format of Object.keys(EXPORT_FORMATS)) {
+      expect(isExportFormat(format)).toBe(true);
+      expect(exportSoul(soul, format as ExportFormat).length).toBeGreaterThan(0);
+    }
+    expect(isExportFormat("toString")).toBe(false);
+  });
+});
@@ -0,0 +1,139 @@
+import matter from "gray-matter";
+import { titleName } from "./parser.js";
+import { serializeSoulFile } from "./serialize.js";
+import type { SoulFile } from "./types.js";
+
+export type ExportFormat =
+  | "system-prompt"
+  | "openai-messages"
+  | "anthropic-messages"
+  | "agents-md"
+  | "cursor-rule"
+  | "character-card";
+
+export interface ExportFormatInfo {
+  description: string;
+  /** File extension for `soul export -o`, including the dot */
+  extension: string;
+  contentType: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  "system-prompt": {
+    description: "Plain system prompt text",
+    extension: ".txt",
+    contentType: "text/plain; charset=utf-8",
+  },
+  "openai-messages": {
+    description: "OpenAI chat completions messages array with a system message",
+    extension: ".json",
+    contentType: "application/json",
+  },
+  "anthropic-messages": {
+    description: "Anthropic Messages API request body with a system prompt",
+    extension: ".json",
+    contentType: "application/json",
+  },
+  "agents-md": {
+    description: "AGENTS.md for coding agents",
+    extension: ".md",
+    contentType: "text/markdown; charset=utf-8",
+  },
+  "cursor-rule": {
+    description: "Cursor project rule (.mdc), always applied",
+    extension: ".mdc",
+    contentType: "text/markdown; charset=utf-8",
+  },
+  "character-card": {
+    description: "Character Card V2 JSON (SillyTavern and compatible apps)",
+    extension: ".json",
+    contentType: "application/json",
+  },
+};
+
+export function isExportFormat(format: string): format is ExportFormat {
+  return Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, format);
+}
+
+function frontmatterString(soul: SoulFile, key: string): string | undefined {
+  const value = soul.frontmatter[key];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function soulName(soul: SoulFile): string {
+  return frontmatterString(soul, "name") ?? titleName(soul) ?? "Soul";
+}
+
+function tags(soul: SoulFile): string[] {
+  return Array.isArray(soul.frontmatter.tags)
+    ? soul.frontmatter.tags.filter((t): t is string => typeof t === "string")
+    : [];
+}
+
+/** The soul as prose for a model: everything but the frontmatter, which is registry metadata. */
+function systemPrompt(soul: SoulFile): string {
+  return serializeSoulFile({ ...soul, frontmatter: {} as SoulFile["frontmatter"] }).trim();
+}
+
+function json(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
+/** Turn a soul into another tool's prompt format. */
+export function exportSoul(soul: SoulFile, format: ExportFormat): string {
+  const prompt = systemPrompt(soul);
+  const name = soulName(soul);
+  const description = frontmatterString(soul, "description");
+
+  switch (format) {
+    case "system-prompt":
+      return `${prompt}\n`;
+
+    case "openai-messages":
+      return json({ messages: [{ role: "system", content: prompt }] });
+
+    case "anthropic-messages":
+      return json({ system: prompt, messages: [] });
+
+    case "agents-md": {
+      const author = frontmatterString(soul, "author");
+      const credit = `<!-- Personality "${name}"${author ? ` by ${author}` : ""}, exported from SOUL.md -->`;
+      const body = serializeSoulFile({
+        ...soul,
+        frontmatter: {} as SoulFile["frontmatter"],
+        title: `${name} personality`,
+      }).trim();
+      return `${credit}\n${body}\n`;
+    }
+
+    case "cursor-rule":
+      return matter.stringify(`${prompt}\n`, {
+        description: description ? `${name}: ${description}` : `${name} personality`,
+        alwaysApply: true,
+      });
+
+    case "character-card": {
+      const license = frontmatterString(soul, "license");
+      return json({
+        spec: "chara_card_v2",
+        spec_version: "2.0",
+        data: {
+          name,
+          description: description ?? soul.tagline ?? "",
+          personality: soul.tagline ?? "",
+          scenario: "",
+          first_mes: "",
+          mes_example: "",
+          creator_notes: license ? `Exported from SOUL.md. License: ${license}` : "Exported from SOUL.md",
+          system_prompt: prompt,
+          post_history_instructions: "",
+          alternate_greetings: [],
+          tags: tags(soul),
+          creator: frontmatterString(soul, "author") ?? "",
+          character_version: String(soul.frontmatter.version ?? ""),
+          extensions: {},
+        },
+      });
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { importSoul, detectImportFormat, isImportFormat, ImportError } from "./import.js";
+import { exportSoul } from "./export.js";
+import { validateSoulFile } from "./lint.js";
+import { parseSoulFile } from "./parser.js";
+
+const importDir = resolve(import.meta.dirname, "../../../fixtures/import");
+const fixture = (file: string) => readFileSync(resolve(importDir, file), "utf-8");
+const headings = (content: string) => parseSoulFile(content).sections.map((s) => s.heading);
+
+describe("importSoul", () => {
+  describe("character-card", () => {
+    it("turns a V2 card's fields into frontmatter and sections", () => {
+      const { content, soul, warnings } = importSoul(fixture("captain-redbeard.card.json"), "character-card");
+      expect(soul.frontmatter).toEqual({
+        name: "Captain Redbeard",
+        author: "seadog",
+        description: "Gruff, loyal and secretly sentimental.",
+        tags: ["pirate", "roleplay", "tavern-keeper"],
+      });
+      expect(soul.title).toBe("SOUL.md - Captain Redbeard");
+      expect(headings(content)).toEqual([
+        "Who You Are",
+        "Vibe",
+        "Scenario",
+        "Reminders",
+        "First Message",
+        "Example Dialogue",
+      ]);
+      expect(warnings).toEqual([]);
+    });
+
+    it("fills in the {{char}} and {{user}} placeholders", () => {
+      const { content } = importSoul(fixture("captain-redbeard.card.json"), "character-card");
+      expect(content).not.toMatch(/\{\{(char|user)\}\}/);
+      expect(content).toContain("Captain Redbeard is a retired pirate captain");
+      expect(content).toContain("Your human walks into the Salty Kraken");
+      expect(content).toContain("Ye look like ye've seen a ghost, your human.");
+    });
+
+    it("reads V1 cards and skips empty fields", () => {
+      const { soul, warnings } = importSoul(fixture("the-librarian.card.json"), "character-card");
+      expect(soul.frontmatter.name).toBe("The Librarian");
+      expect(soul.sections.map((s) => s.heading)).toEqual(["Who You Are", "Vibe", "First Message"]);
+      expect(soul.sections[2].content).toBe("Welcome back, your human. The book you were looking for has moved again.");
+      expect(warnings).toEqual(["Couldn't find an author for this persona"]);
+    });
+
+    it("imports an exported card back to the same soul", () => {
+      const original = parseSoulFile(readFileSync(resolve(importDir, "../ride-or-die.soul.md"), "utf-8"));
+      const { soul } = importSoul(exportSoul(original, "character-card"), "character-card");
+      expect(soul.tagline).toBe(original.tagline);
+      expect(soul.sections.map((s) => [s.heading, s.content])).toEqual(
+        original.sections.map((s) => [s.heading, s.content]),
+      );
+      expect(soul.epilogue).toBe(original.epilogue);
+    });
+
+    it("rejects JSON that isn't a card", () => {
+      expect(() => importSoul("{ nope", "character-card")).toThrow(ImportError);
+      expect(() => importSoul('{"description": "no name"}', "character-card")).toThrow("Character card has no name");
+    });
+  });
+
+  describe("system-prompt", () => {
+    it("sorts a heading-less prompt into themed sections", () => {
+      const { soul } = importSoul(fixture("code-reviewer.prompt.txt"), "system-prompt");
+      expect(soul.frontmatter.name).toBe("Ada");
+      expect(soul.tagline).toBe("You are Ada, a senior engineer who reviews pull requests.");
+      expect(soul.sections.map((s) => s.heading)).toEqual(["Who You Are", "Vibe", "What You Won't Do", "Continuity"]);
+      const byHeading = Object.fromEntries(soul.sections.map((s) => [s.heading, s.content]));
+      expect(byHeading["Vibe"]).toContain("Keep your tone dry and brief.");
+      expect(byHeading["What You Won't Do"]).toContain("Never approve a change you haven't understood.");
+      expect(byHeading["What You Won't Do"]).toContain("- don't guess at intent");
+      expect(byHeading["Continuity"]).toContain("Remember the conventions");
+    });
+
+    it("keeps a prompt's own headings, moving them to ## level", () => {
+      const { soul } = importSoul("# Tone\n\nDry.\n\n### Jokes\n\nRarely.\n\n# Limits\n\nNo legal advice.\n", "system-prompt", {
+        name: "Dry Wit",
+      });
+      expect(soul.title).toBe("SOUL.md - Dry Wit");
+      expect(soul.sections.map((s) => [s.heading, s.content])).toEqual([
+        ["Tone", "Dry.\n\n#### Jokes\n\nRarely."],
+        ["Limits", "No legal advice."],
+      ]);
+    });
+
+    it("leaves the name out when the prompt doesn't give one", () => {
+      const { soul, warnings } = importSoul("You are a helpful assistant.\nBe concise.", "system-prompt");
+      expect(soul.frontmatter.name).toBeUndefined();
+      expect(soul.title).toBeUndefined();
+      expect(warnings).toContain("Couldn't find a name for this persona");
+    });
+
+    it("lets options override the name and author", () => {
+      const { soul, warnings } = importSoul(fixture("code-reviewer.prompt.txt"), "system-prompt", {
+        name: "Reviewer",
+        author: "ada",
+      });
+      expect(soul.frontmatter).toMatchObject({ name: "Reviewer", author: "ada" });
+      expect(warnings).toEqual([]);
+    });
+
+    it("throws for an empty prompt", () => {
+      expect(() => importSoul("  \n", "system-prompt")).toThrow("Found nothing to turn into a section");
+    });
+  });
+
+  describe("agents-md", () => {
+    it("converts the whole file when there is no managed block", () => {
+      const { soul } = importSoul(fixture("AGENTS.md"), "agents-md");
+      expect(soul.frontmatter.name).toBe("Harbor API");
+      expect(soul.tagline).toBe("Guidance for coding agents working in this repository.");
+      expect(soul.sections.map((s) => s.heading)).toEqual(["Personality", "Code Style", "Testing"]);
+      expect(soul.sections[1].children?.map((s) => s.heading)).toEqual(["Naming"]);
+    });
+
+    it("takes only the soul from an opensoul managed block", () => {
+      const { soul, content } = importSoul(fixture("CLAUDE.md"), "agents-md");
+      expect(soul.frontmatter.name).toBe("Night Owl");
+      expect(soul.sections.map((s) => s.heading)).toEqual(["Who You Are", "What You Won't Do", "Continuity"]);
+      expect(soul.epilogue).toBe("_The quiet hours are yours._");
+      expect(content).not.toContain("opensoul:");
+      expect(content).not.toContain("make ship");
+    });
+
+    it("reports malformed frontmatter as an import error", () => {
+      expect(() => importSoul(fixture("broken-frontmatter.md"), "agents-md")).toThrow(ImportError);
+      expect(() => importSoul(fixture("broken-frontmatter.md"), "agents-md")).toThrow(/^Invalid frontmatter: /);
+      const card = JSON.stringify({ name: "Harbor", system_prompt: fixture("broken-frontmatter.md") });
+      expect(() => importSoul(card, "character-card")).toThrow("Invalid frontmatter in system_prompt");
+    });
+
+    it("reads the name and author back from an agents-md export", () => {
+      const goblin = parseSoulFile(readFileSync(resolve(importDir, "../chaos-goblin.soul.md"), "utf-8"));
+      const original = { ...goblin, frontmatter: { name: "Chaos Goblin", author: "gremlin" } };
+      const { soul } = importSoul(exportSoul(original, "agents-md"), "agents-md");
+      expect(soul.frontmatter).toMatchObject({ name: "Chaos Goblin", author: "gremlin" });
+      expect(soul.sections.map((s) => s.heading)).toEqual(original.sections.map((s) => s.heading));
+    });
+  });
+
+  it("produces a valid soul from every fixture", () => {
+    for (const file of ["captain-redbeard.card.json", "the-librarian.card.json", "code-reviewer.prompt.txt", "AGENTS.md", "CLAUDE.md"]) {
+      const raw = fixture(file);
+      const { content } = importSoul(raw, detectImportFormat(file, raw));
+      expect(validateSoulFile(content).valid, file).toBe(true);
+    }
+  });
+});
+
+describe("detectImportFormat", () => {
+  it("goes by file name, then content", () => {
+    expect(detectImportFormat("card.json", "")).toBe("character-card");
+    expect(detectImportFormat("persona.png.txt", '  {"name": "x"}')).toBe("character-card");
+    expect(detectImportFormat("CLAUDE.md", "# Notes")).toBe("agents-md");
+    expect(detectImportFormat("prompt.txt", "You are Ada.")).toBe("system-prompt");
+  });
+});
+
+describe("isImportFormat", () => {
+  it("accepts known formats only", () => {
+    expect(isImportFormat("agents-md")).toBe(true);
+    expect(isImportFormat("soul")).toBe(false);
+  });
+});
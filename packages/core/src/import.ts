@@ -0,0 +1,370 @@
+import matter from "gray-matter";
+import { fromMarkdown } from "mdast-util-from-markdown";
+import type { Heading, List, RootContent } from "mdast";
+import { headingKey } from "./compose.js";
+import { parseSoulFile, titleName } from "./parser.js";
+import { serializeSoulFile } from "./serialize.js";
+import { MAX_TAGS, normalizeTags } from "./tags.js";
+import type { SoulFile, SoulFrontmatter, SoulSection } from "./types.js";
+
+export type ImportFormat = "character-card" | "system-prompt" | "agents-md";
+
+export interface ImportFormatInfo {
+  description: string;
+}
+
+export const IMPORT_FORMATS: Record<ImportFormat, ImportFormatInfo> = {
+  "character-card": {
+    description: "Character Card V1 or V2 JSON (SillyTavern and compatible apps)",
+  },
+  "system-prompt": {
+    description: "Plain system prompt text, with or without markdown headings",
+  },
+  "agents-md": {
+    description: "AGENTS.md or CLAUDE.md, including a soul in an opensoul managed block",
+  },
+};
+
+export function isImportFormat(format: string): format is ImportFormat {
+  return Object.prototype.hasOwnProperty.call(IMPORT_FORMATS, format);
+}
+
+/** Guess the format of a persona file from its name, falling back to its content. */
+export function detectImportFormat(filename: string, raw: string): ImportFormat {
+  const name = filename.toLowerCase();
+  if (name.endsWith(".json") || raw.trimStart().startsWith("{")) return "character-card";
+  if (name.endsWith(".md")) return "agents-md";
+  return "system-prompt";
+}
+
+export interface ImportOptions {
+  /** Overrides the name found in the file */
+  name?: string;
+  /** Overrides the author found in the file */
+  author?: string;
+}
+
+export interface ImportedSoul {
+  /** The converted SOUL.md */
+  content: string;
+  soul: SoulFile;
+  /** Things the importer couldn't find or had to drop */
+  warnings: string[];
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+/** What an importer found, before names and sections are settled. */
+interface Draft {
+  name?: string;
+  author?: string;
+  description?: string;
+  tags?: string[];
+  title?: string;
+  tagline?: string;
+  sections: SoulSection[];
+}
+
+type MarkdownParts = Pick<Draft, "title" | "tagline" | "sections">;
+
+const BLOCK_PATTERN = /<!-- opensoul:begin -->\n?([\s\S]*?)\n?<!-- opensoul:end -->/;
+const EXPORT_CREDIT = /<!-- Personality "(.+?)"(?: by (.+?))?, exported from SOUL\.md -->/;
+const GENERIC_TITLES = /^(agents|claude)(\.md)?$/i;
+
+// Sections a heading-less prompt is sorted into, in the order they are
+// written. The first theme whose pattern matches a block wins; blocks that
+// match nothing describe who the persona is.
+const DEFAULT_SECTION = "Who You Are";
+const THEMES: [heading: string, pattern: RegExp][] = [
+  ["What You Won't Do", /\b(never|don'?t|do not|avoid|refuse|won'?t|must not|shouldn'?t)\b/i],
+  ["Continuity", /\b(remember|memor(y|ies)|sessions?|continuity)\b/i],
+  ["Vibe", /\b(tone|voice|style|humou?r|concise|brief|casual|formal|emoji|jokes?|sound)\b/i],
+];
+const SECTION_ORDER = [DEFAULT_SECTION, "Vibe", "What You Won't Do", "Continuity"];
+
+/** "Ada" from "You are Ada, a code reviewer", but nothing from "You are a helpful assistant". */
+const YOU_ARE = /^\s*(?:you are|you're)\s+(?:called\s+|named\s+)?(?!(?:A|An|The)\b)([A-Z][\w'-]*(?:\s+[A-Z][\w'-]*){0,3})/i;
+
+const MAX_SUMMARY = 200;
+
+function start(node: RootContent): number {
+  return node.position!.start.offset!;
+}
+
+function end(node: RootContent): number {
+  return node.position!.end.offset!;
+}
+
+function isHeading(node: RootContent): node is Heading {
+  return node.type === "heading";
+}
+
+/** First sentence of some prose, if it is short enough for a frontmatter description. */
+function summary(text: string | undefined): string | undefined {
+  const flat = text?.replace(/[_*]/g, "").replace(/\s+/g, " ").trim();
+  const sentence = flat?.match(/^.+?[.!?](?=\s|$)/)?.[0] ?? flat;
+  return sentence && sentence.length <= MAX_SUMMARY ? sentence : undefined;
+}
+
+function nameFromPrompt(text: string): string | undefined {
+  const match = text.match(YOU_ARE);
+  // The capitalised-word check is case-sensitive even though "you are" isn't
+  return match && /^[A-Z]/.test(match[1]) ? match[1] : undefined;
+}
+
+/**
+ * Split a heading-less prompt into themed sections. Each paragraph, list
+ * item and other block is sorted on its own; a paragraph whose lines are
+ * all whole sentences counts as one block per line, since plain-text
+ * prompts often put one rule on each line without blank lines between.
+ */
+function classify(text: string, nodes: RootContent[]): Pick<Draft, "tagline" | "sections"> {
+  const blocks: string[] = [];
+  for (const node of nodes) {
+    if (node.type === "list") {
+      blocks.push(...(node as List).children.map((item) => text.slice(start(item), end(item)).trim()));
+    } else if (node.type === "paragraph") {
+      const source = text.slice(start(node), end(node));
+      const lines = source.split("\n").map((line) => line.trim()).filter(Boolean);
+      blocks.push(...(lines.every((line) => /[.!?)"']$/.test(line)) ? lines : [source.trim()]));
+    } else {
+      blocks.push(text.slice(start(node), end(node)).trim());
+    }
+  }
+
+  let tagline: string | undefined;
+  if (blocks.length > 1 && /^(you are|you're)\b/i.test(blocks[0]) && blocks[0].length <= MAX_SUMMARY) {
+    tagline = blocks.shift();
+  }
+
+  const grouped = new Map<string, string[]>(SECTION_ORDER.map((heading) => [heading, []]));
+  let previous: string | undefined;
+  for (const block of blocks) {
+    const heading = THEMES.find(([, pattern]) => pattern.test(block))?.[0] ?? DEFAULT_SECTION;
+    // Consecutive list items in one section stay one list
+    const bucket = grouped.get(heading)!;
+    const isItem = /^([-*+]|\d+[.)])\s/.test(block);
+    if (isItem && previous === heading && bucket.length > 0 && /^([-*+]|\d+[.)])\s/.test(bucket.at(-1)!)) {
+      bucket[bucket.length - 1] += `\n${block}`;
+    } else {
+      bucket.push(block);
+    }
+    previous = heading;
+  }
+
+  const sections = [...grouped]
+    .filter(([, parts]) => parts.length > 0)
+    .map(([heading, parts]) => ({ heading, content: parts.join("\n\n") }));
+  return { tagline, sections };
+}
+
+/**
+ * Turn markdown into title, tagline and sections. A leading `#` heading is
+ * the title unless other `#` headings follow it; the shallowest remaining
+ * heading level becomes the `##` sections, and deeper headings move up or
+ * down with it so they stay subsections. Markdown without headings is
+ * sorted into themed sections by `classify`.
+ */
+function splitMarkdown(text: string): MarkdownParts {
+  const nodes = fromMarkdown(text).children;
+  const headingText = (node: Heading) =>
+    node.children.length === 0 ? "" : text.slice(start(node.children[0] as RootContent), end(node.children.at(-1) as RootContent)).trim();
+
+  let title: string | undefined;
+  let rest = nodes;
+  const first = nodes[0];
+  if (first && isHeading(first) && first.depth === 1 && nodes.filter((n) => isHeading(n) && n.depth === 1).length === 1) {
+    title = headingText(first);
+    rest = nodes.slice(1);
+  }
+
+  const headings = rest.filter(isHeading);
+  if (headings.length === 0) return { title, ...classify(text, rest) };
+
+  const depth = Math.min(...headings.map((h) => h.depth));
+  const shift = 2 - depth;
+  const render = (part: RootContent[]) => {
+    if (part.length === 0) return "";
+    let out = "";
+    let pos = start(part[0]);
+    for (const node of part) {
+      if (!isHeading(node)) continue;
+      out += `${text.slice(pos, start(node))}${"#".repeat(Math.min(6, node.depth + shift))} ${headingText(node)}`;
+      pos = end(node);
+    }
+    return (out + text.slice(pos, end(part.at(-1)!))).trim();
+  };
+
+  const splits = rest.flatMap((node, index) => (isHeading(node) && node.depth === depth ? [index] : []));
+  const tagline = render(rest.slice(0, splits[0])) || undefined;
+  const sections = splits.map((index, i) => ({
+    heading: headingText(rest[index] as Heading),
+    content: render(rest.slice(index + 1, splits[i + 1])),
+  }));
+  return { title, tagline, sections };
+}
+
+// Cards write `{{char}}` and `{{user}}` (or `<BOT>` and `<USER>`) for the two
+// sides of the chat; souls talk about "your human"
+function fillPlaceholders(text: string, name: string): string {
+  return text
+    .replace(/\{\{char\}\}|<BOT>/gi, name)
+    .replace(/(^|[.!?]\s+)(?:\{\{user\}\}|<USER>)/gim, "$1Your human")
+    .replace(/\{\{user\}\}|<USER>/gi, "your human");
+}
+
+/**
+ * Character cards describe the persona in separate fields. Each non-empty
+ * field becomes a section. A `system_prompt` that is itself a soul (as
+ * `soul export --format character-card` writes) is used as the body, and
+ * fields already in it are skipped so an export imports back unchanged.
+ */
+// gray-matter throws js-yaml errors for malformed frontmatter, or for a
+// file that opens with a `---` rule; the first line says what went wrong
+function frontmatterError(err: unknown, where = ""): ImportError {
+  return new ImportError(`Invalid frontmatter${where}: ${(err as Error).message.split("\n")[0]}`);
+}
+
+function fromCharacterCard(raw: string): Draft {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    throw new ImportError(`Character card is not valid JSON: ${(err as Error).message}`);
+  }
+  if (!parsed || typeof parsed !== "object") throw new ImportError("Character card must be a JSON object");
+  const card = parsed as Record<string, unknown>;
+  const data = (typeof card.spec === "string" && card.spec.startsWith("chara_card_") && card.data && typeof card.data === "object"
+    ? card.data
+    : card) as Record<string, unknown>;
+
+  const name = typeof data.name === "string" ? data.name.trim() : "";
+  if (!name) throw new ImportError("Character card has no name");
+  const field = (key: string) => {
+    const value = data[key];
+    return typeof value === "string" && value.trim() ? fillPlaceholders(value.trim(), name) : undefined;
+  };
+
+  const prompt = field("system_prompt");
+  let promptSoul: SoulFile | undefined;
+  try {
+    promptSoul = prompt ? parseSoulFile(prompt) : undefined;
+  } catch (err) {
+    throw frontmatterError(err, " in system_prompt");
+  }
+  const embedded = promptSoul && promptSoul.sections.length > 0 ? splitMarkdown(prompt!) : undefined;
+  const fields: [heading: string, text: string | undefined][] = [
+    ["Who You Are", embedded ? undefined : field("description")],
+    ["Vibe", field("personality")],
+    ["Scenario", field("scenario")],
+    ["Instructions", embedded ? undefined : prompt],
+    ["Reminders", field("post_history_instructions")],
+    ["First Message", field("first_mes")],
+    ["Example Dialogue", field("mes_example")],
+  ];
+  const extra = fields
+    .filter((entry): entry is [string, string] => !!entry[1] && !(embedded && prompt!.includes(entry[1])))
+    .map(([heading, content]) => ({ heading, content }));
+
+  return {
+    name,
+    author: field("creator"),
+    description: summary(embedded ? field("description") : (field("personality") ?? field("description"))),
+    tags: Array.isArray(data.tags) ? data.tags.filter((t): t is string => typeof t === "string") : undefined,
+    title: embedded?.title,
+    tagline: embedded?.tagline,
+    sections: [...(embedded?.sections ?? []), ...extra],
+  };
+}
+
+function fromSystemPrompt(raw: string): Draft {
+  const parts = splitMarkdown(raw.trim());
+  return { ...parts, name: nameFromPrompt(raw), description: summary(parts.tagline) };
+}
+
+/**
+ * AGENTS.md and CLAUDE.md mix personality with project instructions. A soul
+ * in an opensoul managed block is taken on its own; otherwise the whole
+ * file is converted, keeping its headings as sections.
+ */
+function fromAgentsMd(raw: string): Draft {
+  let parsed: matter.GrayMatterFile<string>;
+  try {
+    // Uncached, like parseSoulFile, so a malformed file fails every time
+    parsed = matter(raw, {});
+  } catch (err) {
+    throw frontmatterError(err);
+  }
+  const { data, content } = parsed;
+  const string = (key: string) => (typeof data[key] === "string" && data[key].trim() ? data[key].trim() : undefined);
+  const credit = content.match(EXPORT_CREDIT);
+  const body = (content.match(BLOCK_PATTERN)?.[1] ?? content).replace(/<!--[\s\S]*?-->/g, "");
+
+  const parts = splitMarkdown(body.trim());
+  const titled = parts.title && !GENERIC_TITLES.test(parts.title) ? titleName(parts) : undefined;
+  return {
+    ...parts,
+    name: string("name") ?? credit?.[1] ?? titled,
+    author: string("author") ?? credit?.[2],
+    description: string("description") ?? summary(parts.tagline),
+    tags: Array.isArray(data.tags) ? data.tags.filter((t): t is string => typeof t === "string") : undefined,
+  };
+}
+
+/** Drop empty sections and merge ones whose headings only differ in case or punctuation. */
+function tidySections(sections: SoulSection[], warnings: string[]): SoulSection[] {
+  const byKey = new Map<string, SoulSection>();
+  for (const { heading, content } of sections) {
+    if (!heading || !content.trim()) {
+      warnings.push(`Skipped empty section "${heading}"`);
+      continue;
+    }
+    const existing = byKey.get(headingKey(heading));
+    if (existing) existing.content = `${existing.content}\n\n${content}`;
+    else byKey.set(headingKey(heading), { heading, content });
+  }
+  return [...byKey.values()];
+}
+
+/**
+ * Convert a persona written for another tool into a SOUL.md. The result
+ * has frontmatter for whatever name, author, description and tags could be
+ * found, a `# SOUL.md - Name` title and one section per part of the
+ * persona. It is not linted; run validateSoulFile on `content` for that.
+ */
+export function importSoul(raw: string, format: ImportFormat, options: ImportOptions = {}): ImportedSoul {
+  const draft =
+    format === "character-card" ? fromCharacterCard(raw)
+    : format === "system-prompt" ? fromSystemPrompt(raw)
+    : fromAgentsMd(raw);
+
+  const warnings: string[] = [];
+  const sections = tidySections(draft.sections, warnings);
+  if (sections.length === 0) throw new ImportError("Found nothing to turn into a section");
+
+  const name = options.name?.trim() || draft.name;
+  const author = options.author?.trim() || draft.author;
+  const tags = normalizeTags(draft.tags ?? []).slice(0, MAX_TAGS);
+  if (!name) warnings.push("Couldn't find a name for this persona");
+  if (!author) warnings.push("Couldn't find an author for this persona");
+
+  const frontmatter = {
+    ...(name && { name }),
+    ...(author && { author }),
+    ...(draft.description && { description: draft.description }),
+    ...(tags.length > 0 && { tags }),
+  } as SoulFrontmatter;
+
+  const content = serializeSoulFile({
+    frontmatter,
+    title: name ? `SOUL.md - ${name}` : draft.title,
+    tagline: draft.tagline,
+    sections,
+  });
+  return { content, soul: parseSoulFile(content), warnings };
+}
@@ -1,2 +1,9 @@
 export * from "./types.js";
 export * from "./parser.js";
+export * from "./lint.js";
+export * from "./tags.js";
+export * from "./compose.js";
+export * from "./diff.js";
+export * from "./serialize.js";
+export * from "./export.js";
+export * from "./import.js";
@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync, readdirSync } from "node:fs";
+import { resolve } from "node:path";
+import { lintSoul, validateSoulFile } from "./lint.js";
+
+const fixturesDir = resolve(import.meta.dirname, "../../../fixtures");
+
+const wellFormed = `---
+name: Test Soul
+author: testuser
+---
+
+# SOUL.md - Test Soul
+
+## Who You Are
+
+Someone specific.
+
+## Boundaries
+
+- Private things stay private.
+
+## Continuity
+
+Each session starts fresh. Read your files.
+`;
+
+describe("lintSoul", () => {
+  it("reports nothing for a well-formed soul", () => {
+    expect(lintSoul(wellFormed)).toEqual([]);
+  });
+
+  it("finds no errors in any fixture", () => {
+    for (const file of readdirSync(fixturesDir).filter((f) => f.endsWith(".soul.md"))) {
+      const raw = readFileSync(resolve(fixturesDir, file), "utf-8");
+      const errors = lintSoul(raw).filter((d) => d.severity === "error");
+      expect(errors, file).toEqual([]);
+    }
+  });
+
+  it("reports missing frontmatter keys", () => {
+    const diagnostics = lintSoul(wellFormed.replace("author: testuser\n", ""));
+    expect(diagnostics).toEqual([
+      {
+        rule: "frontmatter-required",
+        severity: "warning",
+        message: "Missing required frontmatter key 'author'",
+        line: 1,
+        column: 1,
+      },
+    ]);
+  });
+
+  it("reports invalid frontmatter with its position", () => {
+    const diagnostics = lintSoul("---\nname: [oops\n---\n## A\nText");
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].rule).toBe("frontmatter-syntax");
+    expect(diagnostics[0].severity).toBe("error");
+  });
+
+  it("reports a file with no sections", () => {
+    const diagnostics = lintSoul("Just some text with no headings.");
+    expect(diagnostics.map((d) => d.rule)).toContain("require-sections");
+  });
+
+  it("reports empty sections and duplicate headings on the right lines", () => {
+    const raw = `${wellFormed}\n## Who you are\n\n## Empty\n`;
+    const diagnostics = lintSoul(raw);
+
+    const duplicate = diagnostics.find((d) => d.rule === "duplicate-heading");
+    expect(duplicate?.line).toBe(raw.split("\n").indexOf("## Who you are") + 1);
+    expect(duplicate?.message).toContain("first defined on line 8");
+
+    const empty = diagnostics.filter((d) => d.rule === "empty-section");
+    expect(empty.map((d) => d.line)).toEqual([
+      raw.split("\n").indexOf("## Who you are") + 1,
+      raw.split("\n").indexOf("## Empty") + 1,
+    ]);
+  });
+
+  it("reports every em dash with its column", () => {
+    const raw = wellFormed.replace("Someone specific.", "Someone — specific — really.");
+    const dashes = lintSoul(raw).filter((d) => d.rule === "no-em-dash");
+    expect(dashes.map((d) => [d.line, d.column])).toEqual([
+      [10, 9],
+      [10, 20],
+    ]);
+  });
+
+  it("reports missing required themes", () => {
+    const raw = wellFormed.replace(/## Boundaries[\s\S]*?## Continuity/, "## Continuity");
+    const diagnostics = lintSoul(raw);
+    expect(diagnostics.map((d) => d.message)).toEqual(["No section covers the 'boundaries' theme"]);
+  });
+
+  it("reports files over the maximum length", () => {
+    const raw = `${wellFormed}\n${"x".repeat(20000)}`;
+    expect(lintSoul(raw).map((d) => d.rule)).toContain("max-length");
+  });
+});
+
+describe("rule configuration", () => {
+  it("turns rules off", () => {
+    const diagnostics = lintSoul("Just text", { rules: { "require-sections": "off" } });
+    expect(diagnostics.map((d) => d.rule)).not.toContain("require-sections");
+  });
+
+  it("overrides severity", () => {
+    const raw = wellFormed.replace("Someone specific.", "Someone — specific.");
+    const [dash] = lintSoul(raw, { rules: { "no-em-dash": "error" } });
+    expect(dash.severity).toBe("error");
+  });
+
+  it("accepts rule options", () => {
+    const raw = wellFormed.replace("author: testuser\n", "");
+    const diagnostics = lintSoul(raw, {
+      rules: {
+        "frontmatter-required": { severity: "error", keys: ["name", "author", "license"] },
+        "max-length": { max: 50 },
+        "required-themes": { themes: { depth: "underneath|deeper" } },
+      },
+    });
+    expect(diagnostics.map((d) => [d.rule, d.severity, d.message])).toEqual([
+      ["frontmatter-required", "error", "Missing required frontmatter key 'author'"],
+      ["frontmatter-required", "error", "Missing required frontmatter key 'license'"],
+      ["max-length", "warning", `File is ${raw.length} characters, over the limit of 50`],
+      ["required-themes", "warning", "No section covers the 'depth' theme"],
+    ]);
+  });
+
+  it("reports invalid theme patterns instead of throwing", () => {
+    const themes = { broken: "(", odd: 42, boundaries: "boundar" } as unknown as Record<string, string>;
+    const diagnostics = lintSoul(wellFormed, { rules: { "required-themes": { themes } } });
+    expect(diagnostics.map((d) => [d.rule, d.message])).toEqual([
+      ["required-themes", expect.stringContaining("Theme 'broken' has an invalid pattern")],
+      ["required-themes", "Theme 'odd' needs a pattern string"],
+    ]);
+  });
+});
+
+describe("validateSoulFile", () => {
+  it("returns the parsed soul when valid", () => {
+    const result = validateSoulFile(wellFormed);
+    expect(result.valid).toBe(true);
+    expect(result.soul?.frontmatter.name).toBe("Test Soul");
+  });
+
+  it("is invalid when any diagnostic is an error", () => {
+    const result = validateSoulFile("No sections here");
+    expect(result.valid).toBe(false);
+  });
+
+  it("is valid with only warnings", () => {
+    const result = validateSoulFile(wellFormed.replace("author: testuser\n", ""));
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics).toHaveLength(1);
+  });
+});
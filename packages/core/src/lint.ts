@@ -0,0 +1,230 @@
+import matter from "gray-matter";
+import { parseSoulFile } from "./parser.js";
+import type {
+  LintOptions,
+  LintRuleOptions,
+  LintSeverity,
+  SoulDiagnostic,
+  SoulFile,
+  SoulValidation,
+} from "./types.js";
+
+export interface LintRule {
+  id: string;
+  description: string;
+  severity: LintSeverity;
+  options?: Record<string, unknown>;
+}
+
+// Default themes mirror the generator prompt: every soul should say what it
+// won't do and how it copes with waking up fresh each session. Patterns are
+// regex sources so they can be overridden from YAML config.
+const DEFAULT_THEMES: Record<string, string> = {
+  boundaries: "boundar|won'?t do|lines? (in the sand|you don'?t cross)|limits|the art of no",
+  continuity: "continuity|memor(y|ies)|sessions?\\b|wak(e|ing) up|remember|permanence",
+};
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: "frontmatter-syntax",
+    description: "Frontmatter must be valid YAML",
+    severity: "error",
+  },
+  {
+    id: "frontmatter-required",
+    description: "Frontmatter must define the required keys",
+    severity: "warning",
+    options: { keys: ["name", "author"] },
+  },
+  {
+    id: "require-sections",
+    description: "A soul must have at least one ## section",
+    severity: "error",
+  },
+  {
+    id: "empty-section",
+    description: "Sections must have content",
+    severity: "error",
+  },
+  {
+    id: "duplicate-heading",
+    description: "Section headings must be unique",
+    severity: "error",
+  },
+  {
+    id: "max-length",
+    description: "Soul files should stay under a maximum length",
+    severity: "warning",
+    options: { max: 20000 },
+  },
+  {
+    id: "no-em-dash",
+    description: "Em dashes are banned; use periods, commas, or separate sentences",
+    severity: "warning",
+  },
+  {
+    id: "required-themes",
+    description: "A soul must cover the required themes",
+    severity: "warning",
+    options: { themes: DEFAULT_THEMES },
+  },
+];
+
+interface ResolvedRule {
+  severity: LintSeverity;
+  options: Record<string, unknown>;
+}
+
+function resolveRule(rule: LintRule, options?: LintOptions): ResolvedRule | null {
+  const setting = options?.rules?.[rule.id];
+  if (setting === "off") return null;
+  if (typeof setting === "string") {
+    return { severity: setting, options: { ...rule.options } };
+  }
+  const { severity, ...overrides } = (setting ?? {}) as LintRuleOptions;
+  if (severity === "off") return null;
+  return { severity: severity ?? rule.severity, options: { ...rule.options, ...overrides } };
+}
+
+function compileThemes(themes: unknown, invalid: (message: string) => void): [string, RegExp][] {
+  if (themes === undefined || themes === null) return [];
+  if (typeof themes !== "object" || Array.isArray(themes)) {
+    invalid("The 'themes' option must map theme names to patterns");
+    return [];
+  }
+  const compiled: [string, RegExp][] = [];
+  for (const [theme, pattern] of Object.entries(themes)) {
+    if (typeof pattern !== "string") {
+      invalid(`Theme '${theme}' needs a pattern string`);
+      continue;
+    }
+    try {
+      compiled.push([theme, new RegExp(pattern, "i")]);
+    } catch (err) {
+      invalid(`Theme '${theme}' has an invalid pattern: ${(err as Error).message}`);
+    }
+  }
+  return compiled;
+}
+
+/**
+ * Lint a raw SOUL.md file and return diagnostics sorted by position.
+ * Lines and columns are 1-based and refer to the raw file, frontmatter included.
+ */
+export function lintSoul(raw: string, options?: LintOptions): SoulDiagnostic[] {
+  return validateSoulFile(raw, options).diagnostics;
+}
+
+/**
+ * Parse and lint a raw SOUL.md file. A file is valid when no diagnostic has
+ * severity "error"; `soul` is null when the file could not be parsed at all.
+ */
+export function validateSoulFile(raw: string, options?: LintOptions): SoulValidation {
+  const diagnostics: SoulDiagnostic[] = [];
+  const rules = new Map<string, ResolvedRule>();
+  for (const rule of LINT_RULES) {
+    const resolved = resolveRule(rule, options);
+    if (resolved) rules.set(rule.id, resolved);
+  }
+
+  const report = (rule: string, message: string, line = 1, column = 1) => {
+    const resolved = rules.get(rule);
+    if (!resolved) return;
+    diagnostics.push({ rule, severity: resolved.severity, message, line, column });
+  };
+
+  let soul: SoulFile;
+  try {
+    soul = parseSoulFile(raw);
+  } catch (err) {
+    const mark = (err as { mark?: { line: number; column: number } }).mark;
+    report(
+      "frontmatter-syntax",
+      `Invalid frontmatter: ${(err as { reason?: string }).reason ?? (err as Error).message}`,
+      mark ? mark.line + 2 : 1,
+      mark ? mark.column + 1 : 1,
+    );
+    // Without a parseable frontmatter block the body rules would only report noise
+    return { valid: !diagnostics.some((d) => d.severity === "error"), soul: null, diagnostics };
+  }
+
+  const rawLines = raw.split("\n");
+  // Frontmatter is stripped by gray-matter, so the body starts however many
+  // lines the frontmatter block took up.
+  const firstBodyLine = rawLines.length - matter(raw).content.split("\n").length + 1;
+  const sections = soul.sections;
+
+  const frontmatterRule = rules.get("frontmatter-required");
+  if (frontmatterRule) {
+    const keys = (frontmatterRule.options.keys as string[] | undefined) ?? [];
+    for (const key of keys) {
+      const value = soul.frontmatter[key];
+      if (value === undefined || value === null || value === "") {
+        report("frontmatter-required", `Missing required frontmatter key '${key}'`);
+      }
+    }
+  }
+
+  if (sections.length === 0) {
+    report("require-sections", "No '## ' sections found", firstBodyLine);
+  }
+
+  const seen = new Map<string, number>();
+  for (const section of sections) {
+    const line = section.line ?? firstBodyLine;
+    if (!section.content) {
+      report("empty-section", `Section '${section.heading}' is empty`, line);
+    }
+    const key = section.heading.toLowerCase();
+    const firstSeen = seen.get(key);
+    if (firstSeen !== undefined) {
+      report(
+        "duplicate-heading",
+        `Duplicate heading '${section.heading}' (first defined on line ${firstSeen})`,
+        line,
+      );
+    } else {
+      seen.set(key, line);
+    }
+  }
+
+  const lengthRule = rules.get("max-length");
+  if (lengthRule) {
+    const max = Number(lengthRule.options.max);
+    if (raw.length > max) {
+      report("max-length", `File is ${raw.length} characters, over the limit of ${max}`);
+    }
+  }
+
+  if (rules.has("no-em-dash")) {
+    rawLines.forEach((line, i) => {
+      let col = line.indexOf("—");
+      while (col !== -1) {
+        report("no-em-dash", "Em dash found; use a period, comma, or separate sentence", i + 1, col + 1);
+        col = line.indexOf("—", col + 1);
+      }
+    });
+  }
+
+  const themeRule = rules.get("required-themes");
+  if (themeRule) {
+    // Patterns come from user config, so a bad one is reported rather than thrown
+    const themes = compileThemes(themeRule.options.themes, (message) => report("required-themes", message));
+    if (sections.length > 0) {
+      for (const [theme, re] of themes) {
+        const covered = sections.some((s) => re.test(s.heading) || re.test(s.content));
+        if (!covered) {
+          report("required-themes", `No section covers the '${theme}' theme`, firstBodyLine);
+        }
+      }
+    }
+  }
+
+  diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+
+  return {
+    valid: !diagnostics.some((d) => d.severity === "error"),
+    soul,
+    diagnostics,
+  };
+}
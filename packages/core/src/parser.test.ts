@@ -1,7 +1,7 @@
 import { describe, it, expect } from "vitest";
 import { readFileSync } from "node:fs";
 import { resolve } from "node:path";
-import { parseSoulFile } from "./parser.js";
+import { parseSoulFile, titleName } from "./parser.js";
 
 const fixturesDir = resolve(import.meta.dirname, "../../../fixtures");
 
@@ -23,6 +23,12 @@ describe("parseSoulFile", () => {
     expect(soul.sections).toHaveLength(0);
   });
 
+  it("throws for malformed frontmatter every time", () => {
+    const raw = "---\nname: [Pirate\n---\n# SOUL.md - Pirate\n";
+    expect(() => parseSoulFile(raw)).toThrow();
+    expect(() => parseSoulFile(raw)).toThrow();
+  });
+
   it("produces consistent hashes", () => {
     const raw = readFileSync(resolve(fixturesDir, "ride-or-die.soul.md"), "utf-8");
     const soul1 = parseSoulFile(raw);
@@ -39,4 +45,43 @@ describe("parseSoulFile", () => {
 
     expect(soul1.hash).not.toBe(soul2.hash);
   });
+
+  it("reads the title, tagline and closing line", () => {
+    const soul = parseSoulFile(readFileSync(resolve(fixturesDir, "chaos-goblin.soul.md"), "utf-8"));
+
+    expect(soul.title).toBe("SOUL.md - Chaos Goblin");
+    expect(soul.tagline).toBe("_Life's too short to be boring. Especially artificial life._");
+    expect(soul.epilogue).toBe("_Be the gremlin they didn't know they needed._");
+    expect(soul.sections.at(-1)?.content).not.toContain("---");
+    expect(titleName(soul)).toBe("Chaos Goblin");
+  });
+
+  it("nests subsections and records line ranges", () => {
+    const soul = parseSoulFile(
+      "---\nname: Nested\n---\n# Nested\n\n## Voice\n\nIntro.\n\n### Tone\n\nWarm.\n\n#### Examples\n\nHi!\n\n### Pace\n\nSlow.\n\n## Rules\n\nNone.\n",
+    );
+
+    expect(soul.sections.map((s) => [s.heading, s.line, s.endLine])).toEqual([
+      ["Voice", 6, 20],
+      ["Rules", 22, 24],
+    ]);
+    const [tone, pace] = soul.sections[0].children!;
+    expect([tone.heading, tone.depth, tone.line, tone.endLine]).toEqual(["Tone", 3, 10, 16]);
+    expect(tone.content).toBe("Warm.\n\n#### Examples\n\nHi!");
+    expect(tone.children!.map((c) => c.heading)).toEqual(["Examples"]);
+    expect(pace.content).toBe("Slow.");
+    expect(soul.sections[0].content).toContain("### Pace");
+  });
+
+  it("ignores headings inside code fences and block quotes", () => {
+    const soul = parseSoulFile("## Examples\n\n```md\n## Not a section\n```\n\n> ## Quoted\n\n## Real\n\nYes.");
+
+    expect(soul.sections.map((s) => s.heading)).toEqual(["Examples", "Real"]);
+    expect(soul.sections[0].content).toContain("## Not a section");
+  });
+
+  it("only treats a final --- and one paragraph as the epilogue", () => {
+    expect(parseSoulFile("## A\n\nOne.\n\n---\n\nTwo.\n\nThree.").epilogue).toBeUndefined();
+    expect(parseSoulFile("Tagline\n\n---\n\nNot closing.").epilogue).toBeUndefined();
+  });
 });
@@ -1,44 +1,108 @@
 import matter from "gray-matter";
 import { createHash } from "node:crypto";
+import { fromMarkdown } from "mdast-util-from-markdown";
+import type { Heading, RootContent } from "mdast";
 import type { SoulFile, SoulFrontmatter, SoulSection } from "./types.js";
 
+type SoulBody = Pick<SoulFile, "title" | "tagline" | "sections" | "epilogue">;
+
 export function parseSoulFile(raw: string): SoulFile {
-  const { data, content } = matter(raw);
+  // Any options skip gray-matter's cache, which keeps a malformed file after
+  // its first parse throws and hands it back as frontmatter-free next time
+  const { data, content } = matter(raw, {});
   const frontmatter = data as SoulFrontmatter;
-  const sections = parseSections(content);
+  // Frontmatter is stripped by gray-matter, so body lines are shifted by its length
+  const lineOffset = raw.split("\n").length - content.split("\n").length;
   const hash = createHash("sha256").update(raw).digest("hex");
 
-  return { frontmatter, sections, raw, hash };
+  return { frontmatter, ...parseBody(content, lineOffset), raw, hash };
+}
+
+/** "Pirate" from a "# SOUL.md — Pirate" title, or undefined if the soul has no title. */
+export function titleName(soul: Pick<SoulFile, "title">): string | undefined {
+  const name = soul.title?.replace(/^SOUL\.md\s*(?:[-–—:]\s*)?/i, "").trim();
+  return name || undefined;
+}
+
+function start(node: RootContent): number {
+  return node.position!.start.offset!;
+}
+
+function end(node: RootContent): number {
+  return node.position!.end.offset!;
 }
 
-function parseSections(content: string): SoulSection[] {
-  const sections: SoulSection[] = [];
-  const lines = content.split("\n");
-  let currentHeading: string | null = null;
-  let currentContent: string[] = [];
-
-  for (const line of lines) {
-    const headingMatch = line.match(/^## (.+)$/);
-    if (headingMatch) {
-      if (currentHeading !== null) {
-        sections.push({
-          heading: currentHeading,
-          content: currentContent.join("\n").trim(),
-        });
-      }
-      currentHeading = headingMatch[1].trim();
-      currentContent = [];
-    } else if (currentHeading !== null) {
-      currentContent.push(line);
+interface HeadingAt {
+  node: Heading;
+  /** Index among the document's top-level nodes */
+  index: number;
+}
+
+/**
+ * Split the body into title, tagline, section tree and epilogue using the
+ * markdown block structure, so `##` inside code fences or block quotes is
+ * left alone. Section text is sliced from the source, not re-rendered.
+ */
+function parseBody(content: string, lineOffset: number): SoulBody {
+  const nodes = fromMarkdown(content).children;
+  const text = (from: number, to: number) => content.slice(from, to).trim();
+  const headingText = (node: Heading) =>
+    node.children.length === 0 ? "" : text(start(node.children[0] as RootContent), end(node.children.at(-1) as RootContent));
+
+  const body: SoulBody = { sections: [] };
+  let first = 0;
+  if (nodes[0]?.type === "heading" && nodes[0].depth === 1) {
+    body.title = headingText(nodes[0]);
+    first = 1;
+  }
+
+  // `#` headings after the title are ordinary content, as they were for plain-text souls
+  const headings: HeadingAt[] = [];
+  nodes.forEach((node, index) => {
+    if (index >= first && node.type === "heading" && node.depth >= 2 && (headings.length > 0 || node.depth === 2)) {
+      headings.push({ node, index });
     }
+  });
+
+  // A closing `---` followed by a single paragraph, after at least one section
+  let last = nodes.length;
+  if (
+    headings.length > 0 &&
+    nodes.length - 2 > headings[0].index &&
+    nodes.at(-2)?.type === "thematicBreak" &&
+    nodes.at(-1)?.type === "paragraph"
+  ) {
+    body.epilogue = text(start(nodes.at(-1)!), end(nodes.at(-1)!));
+    last = nodes.length - 2;
   }
 
-  if (currentHeading !== null) {
-    sections.push({
-      heading: currentHeading,
-      content: currentContent.join("\n").trim(),
-    });
+  const introEnd = headings.length > 0 ? headings[0].index : last;
+  if (introEnd > first) {
+    const tagline = text(start(nodes[first]), end(nodes[introEnd - 1]));
+    if (tagline) body.tagline = tagline;
   }
 
-  return sections;
+  const build = (from: number, to: number): SoulSection[] => {
+    const sections: SoulSection[] = [];
+    let j = from;
+    while (j < to) {
+      const { node, index } = headings[j];
+      let k = j + 1;
+      while (k < to && headings[k].node.depth > node.depth) k++;
+      const lastNode = nodes[(k < headings.length ? headings[k].index : last) - 1];
+      sections.push({
+        heading: headingText(node),
+        content: lastNode === node ? "" : text(end(node), end(lastNode)),
+        depth: node.depth,
+        line: node.position!.start.line + lineOffset,
+        endLine: lastNode.position!.end.line + lineOffset,
+        children: build(j + 1, k),
+      });
+      j = k;
+    }
+    return sections;
+  };
+  body.sections = build(0, headings.length);
+
+  return body;
 }
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync, readdirSync } from "node:fs";
+import { resolve } from "node:path";
+import matter from "gray-matter";
+import { parseSoulFile } from "./parser.js";
+import { serializeSoulFile, normalizedHash } from "./serialize.js";
+import type { SoulFile, SoulSection } from "./types.js";
+
+const fixturesDir = resolve(import.meta.dirname, "../../../fixtures");
+const fixtures = readdirSync(fixturesDir)
+  .filter((f) => f.endsWith(".soul.md"))
+  .map((f) => [f, readFileSync(resolve(fixturesDir, f), "utf-8")] as const);
+
+// Small seeded PRNG so generated cases are the same on every run
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], rand: () => number): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+// Frontmatter with a random subset of keys in a random order
+function frontmatterFor(name: string, rand: () => number): Record<string, unknown> {
+  const pool: [string, unknown][] = [
+    ["name", name],
+    ["author", "someone"],
+    ["description", "A soul: with a colon, and \"quotes\""],
+    ["tags", ["one", "two-words", "three"]],
+    ["license", "MIT"],
+    ["compatible-skills", ["code-review"]],
+    ["version", 3],
+    ["nested", { deep: { list: [1, 2] }, flag: true }],
+  ];
+  return Object.fromEntries(shuffle(pool, rand).filter(() => rand() < 0.7));
+}
+
+// Everything but line numbers, which move when the frontmatter changes
+function shape(sections: SoulSection[] = []): unknown[] {
+  return sections.map((s) => ({ heading: s.heading, content: s.content, children: shape(s.children) }));
+}
+
+function content(soul: SoulFile) {
+  return {
+    frontmatter: soul.frontmatter,
+    title: soul.title,
+    tagline: soul.tagline,
+    sections: shape(soul.sections),
+    epilogue: soul.epilogue,
+  };
+}
+
+describe("serializeSoulFile", () => {
+  it("keeps the title and tagline", () => {
+    const soul = parseSoulFile("# SOUL.md — Pirate\n\n*Arr.*\n\n## Voice\n\nLoud.");
+
+    expect(soul.title).toBe("SOUL.md — Pirate");
+    expect(soul.tagline).toBe("*Arr.*");
+    expect(serializeSoulFile(soul)).toBe("# SOUL.md — Pirate\n\n*Arr.*\n\n## Voice\n\nLoud.\n");
+  });
+
+  it("writes frontmatter only when there is some", () => {
+    const out = serializeSoulFile({ frontmatter: { name: "P", author: "a" }, sections: [{ heading: "Voice", content: "" }] });
+    expect(out).toBe("---\nname: P\nauthor: a\n---\n## Voice\n");
+  });
+
+  it.each(fixtures)("round-trips %s", (_, raw) => {
+    const soul = parseSoulFile(raw);
+    const written = serializeSoulFile(soul);
+    const reparsed = parseSoulFile(written);
+
+    expect(content(reparsed)).toEqual(content(soul));
+    expect(serializeSoulFile(reparsed)).toBe(written);
+  });
+
+  it.each(fixtures)("round-trips %s with generated frontmatter", (name, raw) => {
+    const rand = random(name.length * 7919);
+    for (let run = 0; run < 5; run++) {
+      const soul = { ...parseSoulFile(raw), frontmatter: frontmatterFor(name, rand) as SoulFile["frontmatter"] };
+      const written = serializeSoulFile(soul);
+
+      expect(content(parseSoulFile(written))).toEqual(content(soul));
+    }
+  });
+});
+
+describe("normalizedHash", () => {
+  it.each(fixtures)("ignores whitespace and key order in %s", (name, raw) => {
+    const rand = random(name.length * 104729);
+    const frontmatter = frontmatterFor(name, rand);
+    const soul = { ...parseSoulFile(raw), frontmatter: frontmatter as SoulFile["frontmatter"] };
+    const reordered = Object.fromEntries(shuffle(Object.entries(frontmatter), rand));
+    // Whitespace noise goes in the body only; in the YAML it could change meaning
+    const body = serializeSoulFile({ ...soul, frontmatter: {} as SoulFile["frontmatter"] })
+      .replace(/ /g, () => (rand() < 0.1 ? "  " : " "))
+      .replace(/\n\n/g, () => (rand() < 0.3 ? "\n\n\n" : "\n\n"))
+      .replace(/\n/g, () => (rand() < 0.1 ? "   \n" : "\n"));
+    const spaced = matter.stringify(body, reordered);
+
+    expect(normalizedHash(parseSoulFile(spaced))).toBe(normalizedHash(soul));
+    expect(parseSoulFile(spaced).hash).not.toBe(parseSoulFile(serializeSoulFile(soul)).hash);
+  });
+
+  it("changes when the words change", () => {
+    const soul = parseSoulFile(fixtures[0][1]);
+    const edited = parseSoulFile(fixtures[0][1].replace(/\w+/, "Different"));
+    expect(normalizedHash(edited)).not.toBe(normalizedHash(soul));
+  });
+});
@@ -0,0 +1,60 @@
+import matter from "gray-matter";
+import { createHash } from "node:crypto";
+import type { SoulFile } from "./types.js";
+
+/** The parts of a soul that serializeSoulFile writes; `raw` and `hash` are ignored. */
+export type SoulContent = Pick<SoulFile, "frontmatter" | "title" | "tagline" | "sections" | "epilogue">;
+
+/**
+ * Write a soul back to markdown: YAML frontmatter (left out when empty),
+ * the `# ` title, the tagline, each section in order, then the epilogue
+ * after a `---`. Parsing the result gives back the same parts. Only each
+ * section's `heading` and `content` are written; `children` are already
+ * part of the content.
+ */
+export function serializeSoulFile(soul: SoulContent): string {
+  const parts: string[] = [];
+  if (soul.title !== undefined) parts.push(`# ${soul.title}`);
+  if (soul.tagline) parts.push(soul.tagline);
+  for (const section of soul.sections) {
+    parts.push(section.content ? `## ${section.heading}\n\n${section.content}` : `## ${section.heading}`);
+  }
+  if (soul.epilogue) parts.push("---", soul.epilogue);
+  const body = `${parts.join("\n\n")}\n`;
+
+  if (Object.keys(soul.frontmatter).length === 0) return body;
+  return matter.stringify(body, soul.frontmatter);
+}
+
+function collapse(text: string | undefined): string {
+  return (text ?? "").replace(/\s+/g, " ").trim();
+}
+
+function canonical(value: unknown): unknown {
+  if (typeof value === "string") return collapse(value);
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, canonical((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value;
+}
+
+/**
+ * SHA-256 of a soul's meaning rather than its bytes: the same for two files
+ * that differ only in whitespace or the order of frontmatter keys.
+ */
+export function normalizedHash(soul: SoulContent): string {
+  const form = {
+    frontmatter: canonical(soul.frontmatter),
+    title: collapse(soul.title),
+    tagline: collapse(soul.tagline),
+    sections: soul.sections.map((s) => [collapse(s.heading), collapse(s.content)]),
+    epilogue: collapse(soul.epilogue),
+  };
+  return createHash("sha256").update(JSON.stringify(form)).digest("hex");
+}
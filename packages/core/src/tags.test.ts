@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { normalizeTag, normalizeTags, MAX_TAG_LENGTH } from "./tags.js";
+
+describe("normalizeTag", () => {
+  it("lowercases and hyphenates", () => {
+    expect(normalizeTag("Dark Humor")).toBe("dark-humor");
+    expect(normalizeTag("  Sci_Fi!! ")).toBe("sci-fi");
+    expect(normalizeTag("--code--review--")).toBe("code-review");
+  });
+
+  it("caps the length without leaving a trailing hyphen", () => {
+    const tag = normalizeTag(`${"a".repeat(MAX_TAG_LENGTH - 1)} b`);
+    expect(tag).toBe("a".repeat(MAX_TAG_LENGTH - 1));
+  });
+
+  it("returns an empty string for tags without letters or digits", () => {
+    expect(normalizeTag("!!!")).toBe("");
+  });
+});
+
+describe("normalizeTags", () => {
+  it("drops empties and duplicates, keeping first-seen order", () => {
+    expect(normalizeTags(["Calm", "focused", "calm", "  ", "Focused!"])).toEqual(["calm", "focused"]);
+  });
+});
@@ -0,0 +1,22 @@
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 32;
+
+/** Lowercase a tag and collapse anything that isn't a letter or digit into single hyphens. */
+export function normalizeTag(tag: string): string {
+  return tag
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_TAG_LENGTH)
+    .replace(/-+$/, "");
+}
+
+/** Normalize a list of tags, dropping empties and duplicates while keeping order. */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  for (const tag of tags) {
+    const normalized = normalizeTag(tag);
+    if (normalized) seen.add(normalized);
+  }
+  return [...seen];
+}
@@ -10,12 +10,28 @@ export interface SoulFrontmatter {
 
 export interface SoulSection {
   heading: string;
+  /** Markdown under the heading, subsections included */
   content: string;
+  /** Heading level: 2 for sections, 3 or more for subsections */
+  depth?: number;
+  /** 1-based line of the heading in the raw file, frontmatter included */
+  line?: number;
+  /** 1-based line where the section's content ends */
+  endLine?: number;
+  /** Subsections with deeper headings, in order */
+  children?: SoulSection[];
 }
 
 export interface SoulFile {
   frontmatter: SoulFrontmatter;
+  /** Text of the `# ` heading before the first section, e.g. "SOUL.md — Pirate" */
+  title?: string;
+  /** Text between the title and the first section, usually an italic tagline */
+  tagline?: string;
+  /** Sections in order. Each `## ` heading starts one; deeper headings are its children */
   sections: SoulSection[];
+  /** Closing line after a final `---`, e.g. "_Be the gremlin they didn't know they needed._" */
+  epilogue?: string;
   raw: string;
   hash: string;
 }
@@ -57,3 +73,31 @@ export interface HistoryEntry {
   action: "swap" | "rollback";
   timestamp: string;
 }
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export interface SoulDiagnostic {
+  rule: string;
+  severity: LintSeverity;
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface LintRuleOptions {
+  severity?: LintSeverity | "off";
+  [option: string]: unknown;
+}
+
+/** A rule can be switched off, given a severity, or configured with options. */
+export type LintRuleSetting = LintSeverity | "off" | LintRuleOptions;
+
+export interface LintOptions {
+  rules?: Record<string, LintRuleSetting>;
+}
+
+export interface SoulValidation {
+  valid: boolean;
+  soul: SoulFile | null;
+  diagnostics: SoulDiagnostic[];
+}
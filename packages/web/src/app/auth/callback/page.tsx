@@ -22,7 +22,10 @@ function CallbackHandler() {
         username,
         avatar,
       });
-      router.push("/");
+      // Pages that send the user to sign in (e.g. device approval) ask to come back
+      const returnTo = sessionStorage.getItem("opensoul_return_to");
+      sessionStorage.removeItem("opensoul_return_to");
+      router.push(returnTo?.startsWith("/") ? returnTo : "/");
     }
   }, [searchParams, router, login]);
 
@@ -1,8 +1,8 @@
 "use client";
 
 import { useEffect, useState, useCallback } from "react";
-import { listSouls } from "@/lib/api";
-import type { Soul, Pagination as PaginationType } from "@/lib/types";
+import { listSouls, listTags } from "@/lib/api";
+import type { Soul, Pagination as PaginationType, TagCount } from "@/lib/types";
 import SoulCard from "@/components/SoulCard";
 import Pagination from "@/components/Pagination";
 
@@ -13,6 +13,9 @@ export default function BrowsePage() {
   const [sort, setSort] = useState("top");
   const [page, setPage] = useState(1);
   const [loading, setLoading] = useState(true);
+  const [topTags, setTopTags] = useState<TagCount[]>([]);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [match, setMatch] = useState<"all" | "any">("all");
 
   const fetchSouls = useCallback(async () => {
     setLoading(true);
@@ -22,13 +25,15 @@ export default function BrowsePage() {
         sort: sort === "recent" ? undefined : sort,
         page,
         limit: 12,
+        tags: selectedTags,
+        match,
       });
       setSouls(res.data);
       setPagination(res.pagination);
     } finally {
       setLoading(false);
     }
-  }, [search, sort, page]);
+  }, [search, sort, page, selectedTags, match]);
 
   useEffect(() => {
     fetchSouls();
@@ -36,7 +41,19 @@ export default function BrowsePage() {
 
   useEffect(() => {
     setPage(1);
-  }, [search, sort]);
+  }, [search, sort, selectedTags, match]);
+
+  useEffect(() => {
+    listTags({ limit: 15 })
+      .then((res) => setTopTags(res.data))
+      .catch(() => setTopTags([]));
+  }, []);
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags((prev) =>
+      prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag],
+    );
+  };
 
   const [searchInput, setSearchInput] = useState("");
   useEffect(() => {
@@ -44,6 +61,11 @@ export default function BrowsePage() {
     return () => clearTimeout(timer);
   }, [searchInput]);
 
+  // Searching switches to best-match ordering; clearing the search switches back
+  useEffect(() => {
+    setSort((prev) => (search ? "relevance" : prev === "relevance" ? "top" : prev));
+  }, [search]);
+
   return (
     <div>
       <h1 className="text-2xl font-bold mb-6">
@@ -63,12 +85,54 @@ export default function BrowsePage() {
           onChange={(e) => setSort(e.target.value)}
           className="bg-bg-input border border-border rounded-md px-4 py-2 text-text focus:outline-none focus:border-accent transition-colors"
         >
+          {search && <option value="relevance">Best Match</option>}
           <option value="recent">Recent</option>
           <option value="top">Top Rated</option>
           <option value="popular">Most Popular</option>
         </select>
       </div>
 
+      {topTags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5 mb-6">
+          {topTags.map(({ tag, count }) => {
+            const active = selectedTags.includes(tag);
+            return (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => toggleTag(tag)}
+                className={`text-xs px-2 py-0.5 rounded transition-colors ${
+                  active
+                    ? "bg-accent text-white"
+                    : "bg-accent/10 text-accent hover:bg-accent/20"
+                }`}
+              >
+                {tag} <span className="opacity-60">{count}</span>
+              </button>
+            );
+          })}
+          {selectedTags.length > 1 && (
+            <select
+              value={match}
+              onChange={(e) => setMatch(e.target.value as "all" | "any")}
+              className="text-xs bg-bg-input border border-border rounded px-2 py-0.5 text-text focus:outline-none focus:border-accent"
+            >
+              <option value="all">Match all</option>
+              <option value="any">Match any</option>
+            </select>
+          )}
+          {selectedTags.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setSelectedTags([])}
+              className="text-xs text-text-muted hover:text-text underline"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+
       {loading ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {Array.from({ length: 6 }).map((_, i) => (
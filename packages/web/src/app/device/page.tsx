@@ -0,0 +1,168 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { Terminal, Check, X } from "lucide-react";
+import { useAuth } from "@/lib/auth";
+import { getLoginUrl, getDeviceRequest, approveDevice } from "@/lib/api";
+import type { DeviceRequest } from "@/lib/types";
+
+const SCOPE_LABELS: Record<string, string> = {
+  read: "See your account",
+  publish: "Upload and edit your souls",
+  rate: "Rate souls as you",
+};
+
+function DeviceApproval() {
+  const searchParams = useSearchParams();
+  const { user, isLoading } = useAuth();
+  const [code, setCode] = useState(searchParams.get("code") ?? "");
+  const [request, setRequest] = useState<DeviceRequest | null>(null);
+  const [result, setResult] = useState<"approved" | "denied" | null>(null);
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const signIn = () => {
+    sessionStorage.setItem("opensoul_return_to", `/device${code ? `?code=${encodeURIComponent(code)}` : ""}`);
+    window.location.href = getLoginUrl();
+  };
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    setError("");
+    setBusy(true);
+    try {
+      setRequest(await getDeviceRequest(code.trim()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Code not found");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDecision = async (approve: boolean) => {
+    if (!request) return;
+    setBusy(true);
+    try {
+      await approveDevice(request.user_code, approve);
+      setResult(approve ? "approved" : "denied");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (isLoading) return null;
+
+  if (!user) {
+    return (
+      <div className="text-center py-16">
+        <Terminal className="mx-auto mb-4 text-accent" size={32} />
+        <h1 className="text-2xl font-bold mb-4">Connect a device</h1>
+        <p className="text-text-muted mb-8">Sign in to approve the login from your terminal.</p>
+        <button
+          onClick={signIn}
+          className="bg-accent hover:bg-accent-hover text-white px-6 py-3 rounded-md font-medium transition-colors"
+        >
+          Login with GitHub
+        </button>
+      </div>
+    );
+  }
+
+  if (result) {
+    return (
+      <div className="text-center py-16">
+        <h1 className="text-2xl font-bold mb-4">
+          {result === "approved" ? "Device connected" : "Login denied"}
+        </h1>
+        <p className="text-text-muted">
+          {result === "approved"
+            ? "You can close this tab and return to your terminal."
+            : "The device was not given access to your account."}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-md mx-auto py-16">
+      <Terminal className="mx-auto mb-4 text-accent" size={32} />
+      <h1 className="text-2xl font-bold mb-2 text-center">Connect a device</h1>
+      <p className="text-text-muted mb-8 text-center text-sm">
+        Enter the code shown by <code>soul login</code>.
+      </p>
+
+      {!request ? (
+        <form onSubmit={handleLookup} className="flex gap-2">
+          <input
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            placeholder="XXXX-XXXX"
+            maxLength={9}
+            autoFocus
+            className="flex-1 bg-bg-input border border-border rounded-md px-3 py-2 text-center font-mono tracking-widest focus:outline-none focus:border-accent"
+          />
+          <button
+            type="submit"
+            disabled={busy || !code.trim()}
+            className="bg-accent hover:bg-accent-hover text-white px-4 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50"
+          >
+            Continue
+          </button>
+        </form>
+      ) : (
+        <div className="bg-bg-card border border-border rounded-lg p-6">
+          <p className="text-sm mb-1">
+            <span className="font-medium">{request.name}</span> wants to access your account as{" "}
+            <span className="font-medium">{user.username}</span>.
+          </p>
+          <p className="text-xs text-text-muted mb-4 font-mono">{request.user_code}</p>
+          <ul className="text-sm space-y-1 mb-6">
+            {request.scopes.map((scope) => (
+              <li key={scope} className="flex items-center gap-2">
+                <Check size={14} className="text-accent" />
+                {SCOPE_LABELS[scope] ?? scope}
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleDecision(true)}
+              disabled={busy}
+              className="flex-1 bg-accent hover:bg-accent-hover text-white px-4 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50"
+            >
+              Approve
+            </button>
+            <button
+              onClick={() => handleDecision(false)}
+              disabled={busy}
+              className="flex items-center gap-1 border border-border hover:bg-bg-hover px-4 py-2 rounded-md text-sm transition-colors disabled:opacity-50"
+            >
+              <X size={14} />
+              Deny
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-error text-sm mt-4 text-center">{error}</p>}
+    </div>
+  );
+}
+
+export default function DevicePage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="text-center py-16">
+          <p className="text-text-muted">Loading...</p>
+        </div>
+      }
+    >
+      <DeviceApproval />
+    </Suspense>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Copy, Check, Trash2 } from "lucide-react";
+import { useAuth } from "@/lib/auth";
+import { listAccessTokens, createAccessToken, revokeAccessToken } from "@/lib/api";
+import type { AccessToken, TokenScope } from "@/lib/types";
+
+const ALL_SCOPES: TokenScope[] = ["read", "publish", "rate"];
+
+function formatDate(date: string | null): string {
+  if (!date) return "Never";
+  return new Date(`${date.replace(" ", "T")}Z`).toLocaleDateString();
+}
+
+export default function TokensPage() {
+  const { user, isLoading } = useAuth();
+  const router = useRouter();
+  const [tokens, setTokens] = useState<AccessToken[]>([]);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<TokenScope[]>(["read", "publish"]);
+  const [expiresInDays, setExpiresInDays] = useState("90");
+  const [created, setCreated] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.push("/login");
+      return;
+    }
+    if (user) {
+      listAccessTokens()
+        .then((res) => setTokens(res.data))
+        .catch((err) => setError(err instanceof Error ? err.message : "Failed to load tokens"));
+    }
+  }, [isLoading, user, router]);
+
+  if (!isLoading && !user) {
+    return null;
+  }
+
+  const toggleScope = (scope: TokenScope) => {
+    setScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setSubmitting(true);
+    try {
+      const res = await createAccessToken({
+        name: name.trim(),
+        scopes,
+        expires_in_days: expiresInDays ? Number(expiresInDays) : undefined,
+      });
+      setCreated(res.token);
+      setCopied(false);
+      setName("");
+      setTokens((await listAccessTokens()).data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create token");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (id: number) => {
+    if (!confirm("Revoke this token? Anything using it will stop working.")) return;
+    try {
+      await revokeAccessToken(id);
+      setTokens((prev) => prev.filter((t) => t.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke token");
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!created) return;
+    await navigator.clipboard.writeText(created);
+    setCopied(true);
+  };
+
+  return (
+    <div className="max-w-2xl">
+      <h1 className="text-2xl font-bold mb-2">Access tokens</h1>
+      <p className="text-text-muted text-sm mb-6">
+        Tokens let the <code>soul</code> CLI and CI publish and rate as you. Use{" "}
+        <code>soul login</code> to create one from your terminal, or create one here for CI and set it as{" "}
+        <code>SOUL_TOKEN</code>.
+      </p>
+
+      {created && (
+        <div className="bg-bg-card border border-accent/50 rounded-lg p-4 mb-6">
+          <p className="text-sm mb-2">Copy your new token now. It won&apos;t be shown again.</p>
+          <div className="flex gap-2">
+            <code className="flex-1 bg-bg-input border border-border rounded-md px-3 py-2 text-sm break-all">
+              {created}
+            </code>
+            <button
+              onClick={handleCopy}
+              className="text-text-muted hover:text-text transition-colors p-2 rounded-md hover:bg-bg-hover"
+              title="Copy token"
+            >
+              {copied ? <Check size={16} /> : <Copy size={16} />}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="bg-bg-card border border-border rounded-lg p-4 mb-8 space-y-3">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Token name, e.g. github-actions"
+          maxLength={100}
+          className="w-full bg-bg-input border border-border rounded-md px-3 py-2 text-sm focus:outline-none focus:border-accent"
+        />
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          {ALL_SCOPES.map((scope) => (
+            <label key={scope} className="flex items-center gap-1.5">
+              <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+              {scope}
+            </label>
+          ))}
+          <select
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(e.target.value)}
+            className="ml-auto bg-bg-input border border-border rounded-md px-2 py-1 text-sm"
+          >
+            <option value="30">Expires in 30 days</option>
+            <option value="90">Expires in 90 days</option>
+            <option value="365">Expires in 1 year</option>
+            <option value="">Never expires</option>
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={submitting || !name.trim() || scopes.length === 0}
+          className="bg-accent hover:bg-accent-hover text-white px-4 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50"
+        >
+          Create token
+        </button>
+      </form>
+
+      {error && <p className="text-error text-sm mb-4">{error}</p>}
+
+      {tokens.length === 0 ? (
+        <p className="text-text-muted text-sm">No active tokens.</p>
+      ) : (
+        <ul className="divide-y divide-border border border-border rounded-lg">
+          {tokens.map((token) => (
+            <li key={token.id} className="flex items-center gap-4 px-4 py-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium">
+                  {token.name} <code className="text-xs text-text-muted">{token.prefix}…</code>
+                </p>
+                <p className="text-xs text-text-muted">
+                  {token.scopes.join(", ")} · last used {formatDate(token.last_used_at)} ·{" "}
+                  {token.expires_at ? `expires ${formatDate(token.expires_at)}` : "no expiry"}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRevoke(token.id)}
+                className="text-text-muted hover:text-error transition-colors p-1.5 rounded-md hover:bg-bg-hover"
+                title="Revoke token"
+              >
+                <Trash2 size={16} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
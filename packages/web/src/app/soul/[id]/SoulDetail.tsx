@@ -1,18 +1,47 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import Image from "next/image";
-import { getSoulImageUrl, rateSoul, updateSoul, updateSoulContent, deleteSoul } from "@/lib/api";
+import {
+  getSoulImageUrl,
+  rateSoul,
+  updateSoul,
+  updateSoulContent,
+  deleteSoul,
+  listSoulVersions,
+  restoreSoulVersion,
+  getSoulVersionContent,
+  getSoulDiff,
+  getSoulExport,
+  forkSoul,
+  listSoulForks,
+  ApiError,
+} from "@/lib/api";
+import { revalidateHome } from "@/app/actions";
 import { useAuth } from "@/lib/auth";
-import type { SoulDetailResponse } from "@/lib/types";
+import type { Soul, SoulDetailResponse, SoulVersion, SoulDiagnostic, SoulDiffResponse, ExportFormat } from "@/lib/types";
 import MarkdownRenderer from "@/components/MarkdownRenderer";
 import MarkdownEditor from "@/components/MarkdownEditor";
 import StarRating from "@/components/StarRating";
-import { Pencil, Copy, Check, Download, Trash2, SquarePen } from "lucide-react";
+import { Pencil, Copy, Check, Download, Trash2, SquarePen, History, X, GitFork } from "lucide-react";
 import SoulAvatar from "@/components/SoulAvatar";
 import SoulImageManager from "@/components/SoulImageManager";
+import SoulDiagnostics from "@/components/SoulDiagnostics";
+import SoulDiff from "@/components/SoulDiff";
+import SoulRefiner from "@/components/SoulRefiner";
+import TagChip from "@/components/TagChip";
+
+const COPY_FORMATS: { value: ExportFormat | "soul"; label: string }[] = [
+  { value: "soul", label: "SOUL.md" },
+  { value: "system-prompt", label: "System prompt" },
+  { value: "openai-messages", label: "OpenAI messages" },
+  { value: "anthropic-messages", label: "Anthropic messages" },
+  { value: "agents-md", label: "AGENTS.md" },
+  { value: "cursor-rule", label: "Cursor rule" },
+  { value: "character-card", label: "Character card" },
+];
 
 interface Props {
   soul: SoulDetailResponse;
@@ -26,6 +55,7 @@ export default function SoulDetail({ soul: initialSoul, content: initialContent,
   const [soul, setSoul] = useState(initialSoul);
   const [content, setContent] = useState(initialContent);
   const [copied, setCopied] = useState(false);
+  const [copyFormat, setCopyFormat] = useState<ExportFormat | "soul">("soul");
   const [cliCopied, setCliCopied] = useState(false);
   const [ratingLoading, setRatingLoading] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
@@ -33,18 +63,67 @@ export default function SoulDetail({ soul: initialSoul, content: initialContent,
   const [editingContent, setEditingContent] = useState(false);
   const [contentDraft, setContentDraft] = useState("");
   const [savingContent, setSavingContent] = useState(false);
+  const [refiningContent, setRefiningContent] = useState(false);
+  const [changelogDraft, setChangelogDraft] = useState("");
+  const [contentError, setContentError] = useState("");
+  const [contentDiagnostics, setContentDiagnostics] = useState<SoulDiagnostic[]>([]);
+  const [versions, setVersions] = useState<SoulVersion[]>([]);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const [diff, setDiff] = useState<SoulDiffResponse | null>(null);
+  const [diffLoading, setDiffLoading] = useState<number | null>(null);
 
-  const [editing, setEditing] = useState<"name" | "label" | "desc" | null>(null);
+  const [editing, setEditing] = useState<"name" | "label" | "desc" | "tags" | null>(null);
   const [nameDraft, setNameDraft] = useState("");
   const [labelDraft, setLabelDraft] = useState("");
   const [descDraft, setDescDraft] = useState("");
+  const [tagsDraft, setTagsDraft] = useState("");
+  const [tagsError, setTagsError] = useState("");
   const [saving, setSaving] = useState(false);
   const [labelError, setLabelError] = useState("");
   const [imageVersion, setImageVersion] = useState(() => Date.now());
   const [showLightbox, setShowLightbox] = useState(false);
+  const [forking, setForking] = useState(false);
+  const [forkError, setForkError] = useState("");
+  const [forks, setForks] = useState<Soul[] | null>(null);
 
   const isOwner = !!(user && soul.user_id === user.id);
 
+  const refreshVersions = useCallback(async () => {
+    try {
+      const res = await listSoulVersions(id);
+      setVersions(res.data);
+    } catch {
+      setVersions([]);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    refreshVersions();
+  }, [refreshVersions]);
+
+  const handleRestore = async (version: number) => {
+    if (restoring !== null) return;
+    setRestoring(version);
+    try {
+      await restoreSoulVersion(id, version);
+      setContent(await getSoulVersionContent(id, version));
+      setDiff(null);
+      await refreshVersions();
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const handleShowChanges = async (version: number) => {
+    if (diffLoading !== null) return;
+    setDiffLoading(version);
+    try {
+      setDiff(await getSoulDiff(id, version - 1, version));
+    } finally {
+      setDiffLoading(null);
+    }
+  };
+
   const handleRate = async (rating: number) => {
     if (!user || ratingLoading) return;
     setRatingLoading(true);
@@ -56,6 +135,32 @@ export default function SoulDetail({ soul: initialSoul, content: initialContent,
     }
   };
 
+  const handleFork = async () => {
+    if (!user || forking) return;
+    setForking(true);
+    setForkError("");
+    try {
+      const res = await forkSoul(id);
+      await revalidateHome();
+      router.push(`/soul/${res.slug}`);
+    } catch (err) {
+      setForkError(err instanceof Error ? err.message : "Fork failed");
+      setForking(false);
+    }
+  };
+
+  const handleShowForks = async () => {
+    if (forks) {
+      setForks(null);
+      return;
+    }
+    try {
+      setForks((await listSoulForks(id)).data);
+    } catch {
+      setForks([]);
+    }
+  };
+
   const handleSaveName = async () => {
     if (saving || !nameDraft.trim()) return;
     setSaving(true);
@@ -96,6 +201,22 @@ export default function SoulDetail({ soul: initialSoul, content: initialContent,
     }
   };
 
+  const handleSaveTags = async () => {
+    if (saving) return;
+    setSaving(true);
+    setTagsError("");
+    try {
+      const tags = tagsDraft.split(",").map((t) => t.trim()).filter(Boolean);
+      const updated = await updateSoul(id, { tags });
+      setSoul((prev) => ({ ...prev, tags: updated.tags }));
+      setEditing(null);
+    } catch (err) {
+      setTagsError(err instanceof Error ? err.message : "Failed to save tags");
+    } finally {
+      setSaving(false);
+    }
+  };
+
   return (
     <div>
       <div className="flex flex-col lg:flex-row gap-8">
@@ -103,6 +224,21 @@ export default function SoulDetail({ soul: initialSoul, content: initialContent,
         <div className="flex-1 min-w-0">
           {content ? (
             <>
+              {soul.parent && (
+                <p className="flex items-center gap-1.5 text-sm text-text-muted mb-2 font-sans">
+                  <GitFork size={14} className="shrink-0" />
+                  <span>
+                    Remix of{" "}
+                    <Link href={`/soul/${soul.parent.label}`} className="text-accent hover:underline">
+                      {soul.parent.name}
+                    </Link>{" "}
+                    by{" "}
+                    <Link href={`/user/${soul.parent.author}`} className="hover:text-text hover:underline">
+                      {soul.parent.author}
+                    </Link>
+                  </span>
+                </p>
+              )}
               <div className="flex items-center gap-2 mb-2">
                 {editing === "name" ? (
                   <div className="flex items-center gap-2 flex-1 min-w-0">
@@ -148,10 +284,21 @@ export default function SoulDetail({ soul: initialSoul, content: initialContent,
                 )}
                 {!editingContent && (
                   <div className="flex gap-2 shrink-0 font-sans">
+                    <select
+                      value={copyFormat}
+                      onChange={(e) => setCopyFormat(e.target.value as ExportFormat | "soul")}
+                      className="text-sm bg-bg-input border border-border rounded-lg px-2 py-2 text-text"
+                      title="Format to copy"
+                    >
+                      {COPY_FORMATS.map((f) => (
+                        <option key={f.value} value={f.value}>{f.label}</option>
+                      ))}
+                    </select>
                     <button
                       type="button"
-                      onClick={() => {
-                        navigator.clipboard.writeText(content);
+                      onClick={async () => {
+                        const text = copyFormat === "soul" ? content : await getSoulExport(id, copyFormat);
+                        await navigator.clipboard.writeText(text);
                         setCopied(true);
                         setTimeout(() => setCopied(false), 2000);
                       }}
@@ -179,6 +326,18 @@ export default function SoulDetail({ soul: initialSoul, content: initialContent,
                       <Download size={14} />
                       <span className="hidden sm:inline">Download</span>
                     </button>
+                    {user && (
+                      <button
+                        type="button"
+                        onClick={handleFork}
+                        disabled={forking}
+                        className="text-sm px-3 sm:px-4 py-2 bg-accent text-white rounded-lg hover:bg-accent/90 transition-colors font-medium flex items-center gap-1.5 disabled:opacity-50"
+                        title="Copy this soul into a new one of your own"
+                      >
+                        <GitFork size={14} />
+                        <span className="hidden sm:inline">{forking ? "Forking…" : "Fork"}</span>
+                      </button>
+                    )}
                     {isOwner && (
                       <button
                         type="button"
@@ -202,35 +361,61 @@ export default function SoulDetail({ soul: initialSoul, content: initialContent,
                   </div>
                 )}
               </div>
+              {forkError && <p className="text-error text-sm mb-2 font-sans">{forkError}</p>}
               <hr className="border-border mb-4" />
               {editingContent ? (
                 <div className="flex flex-col" style={{ minHeight: "calc(100vh - 16rem)" }}>
                   <MarkdownEditor
                     value={contentDraft}
                     onChange={setContentDraft}
+                    readOnly={refiningContent}
                     className="flex-1"
                   />
+                  <SoulRefiner
+                    content={contentDraft}
+                    onChange={setContentDraft}
+                    onBusyChange={setRefiningContent}
+                    disabled={savingContent}
+                    className="mt-3"
+                  />
+                  <input
+                    type="text"
+                    value={changelogDraft}
+                    onChange={(e) => setChangelogDraft(e.target.value)}
+                    placeholder="Describe your changes (optional)"
+                    maxLength={200}
+                    className="mt-3 w-full text-sm bg-bg-input border border-border rounded-lg px-3 py-2 text-text placeholder:text-text-muted focus:outline-none focus:border-accent font-sans"
+                  />
+                  {contentError && <p className="text-error text-sm mt-3 font-sans">{contentError}</p>}
+                  <SoulDiagnostics diagnostics={contentDiagnostics} className="mt-2" />
                   <div className="flex gap-2 mt-3 font-sans">
                     <button
                       type="button"
                       onClick={async () => {
                         setSavingContent(true);
+                        setContentError("");
+                        setContentDiagnostics([]);
                         try {
-                          await updateSoulContent(id, contentDraft);
+                          await updateSoulContent(id, contentDraft, changelogDraft.trim() || undefined);
                           setContent(contentDraft);
+                          setChangelogDraft("");
                           setEditingContent(false);
+                          await refreshVersions();
+                        } catch (err) {
+                          setContentError(err instanceof Error ? err.message : "Save failed");
+                          if (err instanceof ApiError) setContentDiagnostics(err.diagnostics);
                         } finally {
                           setSavingContent(false);
                         }
                       }}
-                      disabled={savingContent}
+                      disabled={savingContent || refiningContent}
                       className="text-sm px-4 py-2 bg-accent text-white rounded-lg hover:bg-accent/90 transition-colors font-medium disabled:opacity-50"
                     >
                       {savingContent ? "Saving…" : "Save"}
                     </button>
                     <button
                       type="button"
-                      onClick={() => setEditingContent(false)}
+                      onClick={() => { setEditingContent(false); setContentError(""); setContentDiagnostics([]); }}
                       className="text-sm px-4 py-2 border border-border text-text rounded-lg hover:bg-bg-card transition-colors font-medium"
                     >
                       Cancel
@@ -238,7 +423,24 @@ export default function SoulDetail({ soul: initialSoul, content: initialContent,
                   </div>
                 </div>
               ) : (
-                <MarkdownRenderer content={content} />
+                diff ? (
+                  <div>
+                    <div className="flex items-center justify-between mb-4 font-sans">
+                      <h2 className="text-lg font-semibold">Changes in v{diff.to}</h2>
+                      <button
+                        type="button"
+                        onClick={() => setDiff(null)}
+                        className="text-text-muted hover:text-text transition-colors p-1.5 rounded-md hover:bg-bg-hover"
+                        title="Back to the soul"
+                      >
+                        <X size={16} />
+                      </button>
+                    </div>
+                    <SoulDiff diff={diff} />
+                  </div>
+                ) : (
+                  <MarkdownRenderer content={content} />
+                )
               )}
             </>
           ) : (
@@ -430,6 +632,35 @@ export default function SoulDetail({ soul: initialSoul, content: initialContent,
               </span>
               <p className="text-sm text-text mt-1">{soul.downloads_count.toLocaleString()}</p>
             </div>
+            <div>
+              <span className="text-xs text-text-muted uppercase tracking-wide font-sans">
+                Forks
+              </span>
+              {soul.forks_count > 0 ? (
+                <button
+                  type="button"
+                  onClick={handleShowForks}
+                  className="block text-sm text-text mt-1 hover:text-accent transition-colors"
+                  title={forks ? "Hide forks" : "Show forks"}
+                >
+                  {soul.forks_count.toLocaleString()}
+                </button>
+              ) : (
+                <p className="text-sm text-text mt-1">0</p>
+              )}
+              {forks && (
+                <ul className="mt-1 space-y-0.5">
+                  {forks.map((f) => (
+                    <li key={f.slug} className="text-sm">
+                      <Link href={`/soul/${f.label}`} className="text-accent hover:underline">
+                        {f.name}
+                      </Link>{" "}
+                      <span className="text-text-muted">by {f.author}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
             <div>
               <span className="text-xs text-text-muted uppercase tracking-wide font-sans">
                 Author
@@ -438,21 +669,114 @@ export default function SoulDetail({ soul: initialSoul, content: initialContent,
                 {soul.author}
               </Link>
             </div>
-            {soul.tags.length > 0 && (
-              <div>
+            {editing === "tags" ? (
+              <div className="space-y-2">
                 <span className="text-xs text-text-muted uppercase tracking-wide font-sans">
                   Tags
                 </span>
-                <div className="flex flex-wrap gap-1.5 mt-1">
-                  {soul.tags.map((tag) => (
-                    <span
-                      key={tag}
-                      className="text-xs bg-accent/10 text-accent px-2 py-0.5 rounded"
-                    >
-                      {tag}
+                <input
+                  type="text"
+                  value={tagsDraft}
+                  onChange={(e) => setTagsDraft(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === "Enter") handleSaveTags(); if (e.key === "Escape") setEditing(null); }}
+                  placeholder="comma, separated, tags"
+                  className="w-full text-sm text-text bg-bg-input border border-border rounded px-2 py-1"
+                  autoFocus
+                />
+                {tagsError && <p className="text-xs text-error">{tagsError}</p>}
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={handleSaveTags}
+                    disabled={saving}
+                    className="text-xs px-2 py-1 bg-accent text-white rounded hover:bg-accent/90 disabled:opacity-50"
+                  >
+                    {saving ? "Saving…" : "Save"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => { setEditing(null); setTagsError(""); }}
+                    className="text-xs px-2 py-1 text-text-muted hover:text-text"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              (soul.tags.length > 0 || isOwner) && (
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-text-muted uppercase tracking-wide font-sans">
+                      Tags
                     </span>
-                  ))}
+                    {isOwner && (
+                      <button
+                        type="button"
+                        onClick={() => { setTagsDraft(soul.tags.join(", ")); setEditing("tags"); }}
+                        className="text-text-muted hover:text-text transition-colors"
+                        title="Edit tags"
+                      >
+                        <Pencil size={14} />
+                      </button>
+                    )}
+                  </div>
+                  {soul.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5 mt-1">
+                      {soul.tags.map((tag) => (
+                        <TagChip key={tag} tag={tag} />
+                      ))}
+                    </div>
+                  )}
                 </div>
+              )
+            )}
+            {soul.license && (
+              <div>
+                <span className="text-xs text-text-muted uppercase tracking-wide font-sans">
+                  License
+                </span>
+                <p className="text-sm text-text mt-1">{soul.license}</p>
+              </div>
+            )}
+            {versions.length > 1 && (
+              <div>
+                <span className="text-xs text-text-muted uppercase tracking-wide font-sans flex items-center gap-1">
+                  <History size={12} />
+                  History
+                </span>
+                <ul className="mt-1 space-y-1.5 max-h-48 overflow-y-auto">
+                  {versions.map((v, i) => (
+                    <li key={v.version} className="text-xs">
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-accent">v{v.version}</span>
+                        <span className="text-text-muted">
+                          {new Date(v.created_at.endsWith("Z") ? v.created_at : v.created_at + "Z").toLocaleDateString(undefined, { dateStyle: "medium" })}
+                        </span>
+                        {v.version > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => handleShowChanges(v.version)}
+                            disabled={diffLoading !== null}
+                            className="ml-auto text-text-muted hover:text-text underline disabled:opacity-50"
+                          >
+                            {diffLoading === v.version ? "Loading…" : "Changes"}
+                          </button>
+                        )}
+                        {isOwner && i > 0 && (
+                          <button
+                            type="button"
+                            onClick={() => handleRestore(v.version)}
+                            disabled={restoring !== null}
+                            className={`${v.version > 1 ? "" : "ml-auto "}text-text-muted hover:text-text underline disabled:opacity-50`}
+                          >
+                            {restoring === v.version ? "Restoring…" : "Restore"}
+                          </button>
+                        )}
+                      </div>
+                      {v.changelog && <p className="text-text-muted truncate" title={v.changelog}>{v.changelog}</p>}
+                    </li>
+                  ))}
+                </ul>
               </div>
             )}
             <p className="text-xs text-text-muted">
@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { listSouls } from "@/lib/api";
+import type { Soul, Pagination as PaginationType } from "@/lib/types";
+import SoulCard from "@/components/SoulCard";
+import Pagination from "@/components/Pagination";
+
+export default function TagPage() {
+  const params = useParams<{ tag: string }>();
+  const tag = decodeURIComponent(params.tag ?? "");
+  const [souls, setSouls] = useState<Soul[]>([]);
+  const [pagination, setPagination] = useState<PaginationType | null>(null);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!tag) return;
+    setLoading(true);
+    listSouls({ tags: [tag], sort: "top", page, limit: 12 })
+      .then((res) => {
+        setSouls(res.data);
+        setPagination(res.pagination);
+      })
+      .finally(() => setLoading(false));
+  }, [tag, page]);
+
+  return (
+    <div>
+      <h1 className="text-2xl font-bold mb-1">
+        Souls tagged <span className="text-accent">{tag}</span>
+      </h1>
+      <p className="text-sm text-text-muted mb-6">
+        {pagination ? `${pagination.total} soul(s)` : " "} ·{" "}
+        <Link href="/browse" className="underline hover:text-text">
+          Browse all
+        </Link>
+      </p>
+
+      {loading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {Array.from({ length: 6 }).map((_, i) => (
+            <div
+              key={i}
+              className="bg-bg-card border border-border rounded-lg p-5 animate-pulse h-36"
+            />
+          ))}
+        </div>
+      ) : souls.length === 0 ? (
+        <p className="text-text-muted text-center py-12">No souls with this tag yet.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {souls.map((soul) => (
+              <SoulCard key={soul.id} soul={soul} />
+            ))}
+          </div>
+          {pagination && (
+            <Pagination
+              page={pagination.page}
+              totalPages={pagination.totalPages}
+              onPageChange={setPage}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,10 +2,24 @@
 
 import { useState, useCallback, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { uploadSoul, generateSoulFromPrompt } from "@/lib/api";
+import { X } from "lucide-react";
+import {
+  uploadSoul,
+  generateSoulFromPrompt,
+  validateSoulContent,
+  listDrafts,
+  getDraft,
+  updateDraft,
+  deleteDraft,
+  promoteDraft,
+  ApiError,
+} from "@/lib/api";
 import { useAuth } from "@/lib/auth";
 import { revalidateHome } from "@/app/actions";
 import MarkdownEditor from "@/components/MarkdownEditor";
+import SoulDiagnostics from "@/components/SoulDiagnostics";
+import SoulRefiner from "@/components/SoulRefiner";
+import type { DraftSummary, SoulDiagnostic } from "@/lib/types";
 
 export default function UploadPage() {
   const { user, isLoading } = useAuth();
@@ -17,9 +31,53 @@ export default function UploadPage() {
   const [dragging, setDragging] = useState(false);
   const [prompt, setPrompt] = useState("");
   const [generating, setGenerating] = useState(false);
+  const [refining, setRefining] = useState(false);
+  const [diagnostics, setDiagnostics] = useState<SoulDiagnostic[]>([]);
+  // The server-side draft being edited; generation creates one
+  const [draftId, setDraftId] = useState<number | null>(null);
+  const [drafts, setDrafts] = useState<DraftSummary[]>([]);
 
   const hasFile = fileName !== null;
 
+  // Keep the open draft in the URL so a refresh picks it back up
+  const openDraft = useCallback((id: number | null) => {
+    setDraftId(id);
+    window.history.replaceState(null, "", id === null ? "/upload" : `/upload?draft=${id}`);
+  }, []);
+
+  const refreshDrafts = useCallback(() => {
+    listDrafts()
+      .then((res) => setDrafts(res.data))
+      .catch(() => setDrafts([]));
+  }, []);
+
+  const resumeDraft = useCallback(
+    async (id: number) => {
+      try {
+        const draft = await getDraft(id);
+        setContent(draft.content);
+        setPrompt(draft.prompt ?? "");
+        setFileName(null);
+        setError("");
+        openDraft(draft.id);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Couldn't open that draft");
+        openDraft(null);
+      }
+    },
+    [openDraft],
+  );
+
+  const handleDeleteDraft = async (id: number) => {
+    try {
+      await deleteDraft(id);
+      if (id === draftId) openDraft(null);
+      setDrafts((prev) => prev.filter((d) => d.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't delete that draft");
+    }
+  };
+
   const handleFile = useCallback((file: File) => {
     const reader = new FileReader();
     reader.onload = (e) => {
@@ -27,9 +85,10 @@ export default function UploadPage() {
       setContent(text);
       setFileName(file.name);
       setError("");
+      openDraft(null);
     };
     reader.readAsText(file);
-  }, []);
+  }, [openDraft]);
 
   const clearFile = () => {
     setFileName(null);
@@ -40,11 +99,14 @@ export default function UploadPage() {
     if (!prompt.trim()) return;
     setError("");
     setContent("");
+    openDraft(null);
     setGenerating(true);
     try {
-      await generateSoulFromPrompt(prompt, (text) => {
+      const id = await generateSoulFromPrompt(prompt, (text) => {
         setContent((prev) => prev + text);
       });
+      openDraft(id);
+      refreshDrafts();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Generation failed");
     } finally {
@@ -72,6 +134,36 @@ export default function UploadPage() {
     setDragging(false);
   };
 
+  // Lint as the user types, using the same rules the API enforces on upload
+  useEffect(() => {
+    if (generating || refining || !content.trim()) {
+      setDiagnostics([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      validateSoulContent(content)
+        .then((res) => setDiagnostics(res.diagnostics))
+        .catch(() => setDiagnostics([]));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [content, generating, refining]);
+
+  // Save edits to the open draft as the user types
+  useEffect(() => {
+    if (draftId === null || generating || refining) return;
+    const timer = setTimeout(() => {
+      updateDraft(draftId, { content }).catch(() => {});
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [content, draftId, generating, refining]);
+
+  useEffect(() => {
+    if (!user) return;
+    refreshDrafts();
+    const id = Number(new URLSearchParams(window.location.search).get("draft"));
+    if (id) resumeDraft(id);
+  }, [user, refreshDrafts, resumeDraft]);
+
   useEffect(() => {
     if (!isLoading && !user) {
       router.push("/login");
@@ -91,11 +183,14 @@ export default function UploadPage() {
     setError("");
     setSubmitting(true);
     try {
-      const res = await uploadSoul(content);
+      const res = draftId === null ? await uploadSoul(content) : await promoteDraft(draftId, content);
       await revalidateHome();
       router.push(`/soul/${res.slug}`);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Upload failed");
+      if (err instanceof ApiError && err.diagnostics.length > 0) {
+        setDiagnostics(err.diagnostics);
+      }
     } finally {
       setSubmitting(false);
     }
@@ -108,6 +203,40 @@ export default function UploadPage() {
         <span className="text-accent">SOUL</span>.md
       </h1>
 
+      {drafts.length > 0 && (
+        <div className="mb-6 font-sans">
+          <h2 className="text-xs text-text-muted uppercase tracking-wide mb-2">Your drafts</h2>
+          <ul className="flex flex-wrap gap-2">
+            {drafts.map((draft) => (
+              <li
+                key={draft.id}
+                className={`flex items-center gap-1 text-sm border rounded-md pl-3 pr-1 py-1 ${
+                  draft.id === draftId ? "border-accent text-accent" : "border-border text-text"
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => resumeDraft(draft.id)}
+                  disabled={generating || refining}
+                  title={draft.prompt ?? undefined}
+                  className="hover:underline disabled:opacity-50"
+                >
+                  {draft.name ?? `Draft ${draft.id}`}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDeleteDraft(draft.id)}
+                  className="text-text-muted hover:text-error transition-colors p-1"
+                  title="Delete draft"
+                >
+                  <X size={12} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="flex flex-col" style={{ minHeight: "calc(100vh - 16rem)" }}>
         {/* Generate from prompt */}
         <div className="mb-4">
@@ -202,15 +331,21 @@ export default function UploadPage() {
           value={content}
           onChange={setContent}
           placeholder="Paste your SOUL.md content here..."
-          readOnly={hasFile || generating}
+          readOnly={hasFile || generating || refining}
           className={`flex-1 mb-4 ${hasFile || generating ? "opacity-40" : ""}`}
         />
 
+        {/* Refine what's there, whether it was summoned or pasted */}
+        {!hasFile && !generating && content.trim() && (
+          <SoulRefiner content={content} onChange={setContent} onBusyChange={setRefining} className="mb-4" />
+        )}
+
         {error && <p className="text-error text-sm mb-4">{error}</p>}
+        <SoulDiagnostics diagnostics={diagnostics} className="mb-4" />
 
         <button
           type="submit"
-          disabled={submitting || generating || !content.trim()}
+          disabled={submitting || generating || refining || !content.trim()}
           className="bg-accent hover:bg-accent-hover text-white px-6 py-2.5 rounded-md font-medium transition-colors disabled:opacity-50 font-sans"
         >
           {submitting ? (
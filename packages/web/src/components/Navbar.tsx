@@ -5,7 +5,7 @@ import Image from "next/image";
 import { useAuth } from "@/lib/auth";
 import { useTheme } from "@/lib/theme";
 import { getLoginUrl } from "@/lib/api";
-import { Sun, Moon, LogOut, Github, Home } from "lucide-react";
+import { Sun, Moon, LogOut, Github, Home, KeyRound } from "lucide-react";
 
 export default function Navbar() {
   const { user, logout, isLoading } = useAuth();
@@ -60,6 +60,13 @@ export default function Navbar() {
                 />
                 <span className="text-sm text-text-muted hidden sm:inline">{user.username}</span>
               </Link>
+              <Link
+                href="/settings/tokens"
+                className="text-text-muted hover:text-text transition-colors p-1.5 rounded-md hover:bg-bg-hover"
+                title="Access tokens"
+              >
+                <KeyRound size={16} />
+              </Link>
               <button
                 onClick={logout}
                 className="text-text-muted hover:text-text transition-colors p-1.5 rounded-md hover:bg-bg-hover"
@@ -0,0 +1,18 @@
+// Renders a search excerpt from the API. Only <mark> pairs are interpreted;
+// everything else is plain text, so soul content can't inject markup.
+export default function SearchSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.replace(/\s+/g, " ").trim().split(/<mark>(.*?)<\/mark>/g);
+  return (
+    <p className="text-xs text-text-muted mt-3 line-clamp-2">
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-accent/20 text-text rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        ),
+      )}
+    </p>
+  );
+}
@@ -0,0 +1,34 @@
+import { CircleAlert, TriangleAlert, Info } from "lucide-react";
+import type { SoulDiagnostic } from "@/lib/types";
+
+export default function SoulDiagnostics({
+  diagnostics,
+  className,
+}: {
+  diagnostics: SoulDiagnostic[];
+  className?: string;
+}) {
+  if (diagnostics.length === 0) return null;
+
+  return (
+    <ul className={`space-y-1 text-sm font-sans ${className ?? ""}`}>
+      {diagnostics.map((d, i) => (
+        <li key={`${d.rule}-${d.line}-${d.column}-${i}`} className="flex items-start gap-2">
+          {d.severity === "error" ? (
+            <CircleAlert size={14} className="text-error mt-0.5 shrink-0" />
+          ) : d.severity === "warning" ? (
+            <TriangleAlert size={14} className="text-star mt-0.5 shrink-0" />
+          ) : (
+            <Info size={14} className="text-text-muted mt-0.5 shrink-0" />
+          )}
+          <span className="text-text">
+            <span className="text-text-muted font-mono text-xs">
+              {d.line}:{d.column}
+            </span>{" "}
+            {d.message} <span className="text-text-muted text-xs">({d.rule})</span>
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
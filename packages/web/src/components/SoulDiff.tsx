@@ -0,0 +1,100 @@
+import type { DiffHunk, SoulDiffResponse } from "@/lib/types";
+
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function Hunks({ hunks }: { hunks: DiffHunk[] }) {
+  return (
+    <div className="font-mono text-xs border border-border rounded-md overflow-x-auto">
+      {hunks.map((hunk, i) => (
+        <div key={i} className={i > 0 ? "border-t border-border" : ""}>
+          <div className="px-3 py-1 text-text-muted bg-bg-card">
+            @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+          </div>
+          {hunk.lines.map((line, j) => (
+            <div
+              key={j}
+              className={`px-3 whitespace-pre-wrap ${
+                line.type === "add"
+                  ? "bg-success/10 text-success"
+                  : line.type === "remove"
+                    ? "bg-error/10 text-error"
+                    : "text-text-muted"
+              }`}
+            >
+              {line.type === "add" ? "+ " : line.type === "remove" ? "- " : "  "}
+              {line.text || " "}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function SoulDiff({ diff }: { diff: SoulDiffResponse }) {
+  if (diff.identical) {
+    return <p className="text-sm text-text-muted font-sans">No differences between v{diff.from} and v{diff.to}.</p>;
+  }
+
+  return (
+    <div className="space-y-4 font-sans">
+      {diff.frontmatter.length > 0 && (
+        <section>
+          <h3 className="text-sm font-semibold mb-1">Frontmatter</h3>
+          <ul className="text-xs font-mono space-y-0.5">
+            {diff.frontmatter.map((change) => (
+              <li key={change.key}>
+                {change.key}:{" "}
+                {change.type !== "added" && <span className="text-error line-through">{formatValue(change.before)}</span>}
+                {change.type === "changed" && " → "}
+                {change.type !== "removed" && <span className="text-success">{formatValue(change.after)}</span>}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+      {diff.preamble.length > 0 && (
+        <section>
+          <h3 className="text-sm font-semibold mb-1">Title</h3>
+          <Hunks hunks={diff.preamble} />
+        </section>
+      )}
+      {diff.sections.map((change, i) => (
+        <section key={i}>
+          {change.type === "added" && (
+            <>
+              <h3 className="text-sm font-semibold mb-1 text-success">Added: {change.heading}</h3>
+              <pre className="text-xs whitespace-pre-wrap bg-success/10 text-success rounded-md px-3 py-2">{change.content}</pre>
+            </>
+          )}
+          {change.type === "removed" && (
+            <h3 className="text-sm font-semibold text-error">Removed: {change.heading}</h3>
+          )}
+          {change.type === "renamed" && (
+            <>
+              <h3 className="text-sm font-semibold mb-1">
+                Renamed: <span className="text-error line-through">{change.from}</span> →{" "}
+                <span className="text-success">{change.to}</span>
+              </h3>
+              {change.hunks.length > 0 && <Hunks hunks={change.hunks} />}
+            </>
+          )}
+          {change.type === "modified" && (
+            <>
+              <h3 className="text-sm font-semibold mb-1">Changed: {change.heading}</h3>
+              <Hunks hunks={change.hunks} />
+            </>
+          )}
+        </section>
+      ))}
+      {diff.epilogue.length > 0 && (
+        <section>
+          <h3 className="text-sm font-semibold mb-1">Closing line</h3>
+          <Hunks hunks={diff.epilogue} />
+        </section>
+      )}
+    </div>
+  );
+}
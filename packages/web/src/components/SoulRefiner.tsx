@@ -0,0 +1,127 @@
+"use client";
+
+import { useState } from "react";
+import { Sparkles, Undo2 } from "lucide-react";
+import { refineSoulContent } from "@/lib/api";
+import type { RefineChange } from "@/lib/types";
+
+const CHANGE_STYLES: Record<RefineChange["type"], string> = {
+  added: "text-success",
+  removed: "text-error",
+  modified: "text-star",
+  renamed: "text-text-muted",
+};
+
+/**
+ * "Refine with AI" for an editor: streams a revision of `content` into
+ * `onChange`, then lists which sections changed with a way to undo.
+ */
+export default function SoulRefiner({
+  content,
+  onChange,
+  onBusyChange,
+  disabled,
+  className,
+}: {
+  content: string;
+  onChange: (content: string) => void;
+  onBusyChange?: (busy: boolean) => void;
+  disabled?: boolean;
+  className?: string;
+}) {
+  const [instruction, setInstruction] = useState("");
+  const [refining, setRefining] = useState(false);
+  const [error, setError] = useState("");
+  const [summary, setSummary] = useState<RefineChange[] | null>(null);
+  const [previous, setPrevious] = useState<string | null>(null);
+
+  const setBusy = (busy: boolean) => {
+    setRefining(busy);
+    onBusyChange?.(busy);
+  };
+
+  const handleRefine = async () => {
+    if (!instruction.trim() || !content.trim() || refining) return;
+    const original = content;
+    let revised = "";
+    setError("");
+    setSummary(null);
+    setBusy(true);
+    onChange("");
+    try {
+      const changes = await refineSoulContent(original, instruction, (text) => {
+        revised += text;
+        onChange(revised);
+      });
+      setPrevious(original);
+      setSummary(changes ?? []);
+      setInstruction("");
+    } catch (err) {
+      onChange(original);
+      setError(err instanceof Error ? err.message : "Refinement failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUndo = () => {
+    if (previous === null) return;
+    onChange(previous);
+    setPrevious(null);
+    setSummary(null);
+  };
+
+  return (
+    <div className={`font-sans ${className ?? ""}`}>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => { if (e.key === "Enter") { e.preventDefault(); handleRefine(); } }}
+          placeholder='Refine with AI, e.g. "make the voice drier" or "add a boundary about finance"'
+          maxLength={2000}
+          disabled={disabled || refining}
+          className="flex-1 text-sm bg-bg-input border border-border rounded-lg px-3 py-2 text-text placeholder:text-text-muted focus:outline-none focus:border-accent disabled:opacity-40"
+        />
+        <button
+          type="button"
+          onClick={handleRefine}
+          disabled={disabled || refining || !instruction.trim() || !content.trim()}
+          className="flex items-center gap-1.5 text-sm px-4 py-2 bg-accent text-white rounded-lg hover:bg-accent-hover transition-colors font-medium disabled:opacity-50"
+        >
+          <Sparkles size={14} />
+          {refining ? "Refining…" : "Refine"}
+        </button>
+      </div>
+      {error && <p className="text-error text-sm mt-2">{error}</p>}
+      {summary && (
+        <div className="flex items-start justify-between gap-3 mt-2 text-sm">
+          {summary.length === 0 ? (
+            <p className="text-text-muted">No sections changed.</p>
+          ) : (
+            <ul className="flex flex-wrap gap-x-3 gap-y-1">
+              {summary.map((change, i) => (
+                <li key={i}>
+                  <span className={CHANGE_STYLES[change.type]}>{change.type}</span>{" "}
+                  {change.from ? `${change.from} → ${change.heading}` : change.heading}
+                </li>
+              ))}
+            </ul>
+          )}
+          {previous !== null && (
+            <button
+              type="button"
+              onClick={handleUndo}
+              className="flex items-center gap-1 text-text-muted hover:text-text transition-colors shrink-0"
+              title="Go back to the content before this refinement"
+            >
+              <Undo2 size={14} />
+              Undo
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import Link from "next/link";
+
+export default function TagChip({ tag }: { tag: string }) {
+  return (
+    <Link
+      href={`/tag/${encodeURIComponent(tag)}`}
+      className="text-xs bg-accent/10 text-accent px-2 py-0.5 rounded hover:bg-accent/20 transition-colors"
+    >
+      {tag}
+    </Link>
+  );
+}
@@ -4,6 +4,21 @@ import type {
   SoulDetailResponse,
   RateResponse,
   UploadResponse,
+  ForkResponse,
+  SoulVersionListResponse,
+  SoulDiffResponse,
+  RefineChange,
+  Draft,
+  DraftSummary,
+  ExportFormat,
+  UpdateContentResponse,
+  SoulDiagnostic,
+  ValidateResponse,
+  TagListResponse,
+  AccessToken,
+  CreatedAccessToken,
+  DeviceRequest,
+  TokenScope,
 } from "./types";
 
 const API_URL =
@@ -11,9 +26,11 @@ const API_URL =
 
 export class ApiError extends Error {
   status: number;
-  constructor(message: string, status: number) {
+  diagnostics: SoulDiagnostic[];
+  constructor(message: string, status: number, diagnostics: SoulDiagnostic[] = []) {
     super(message);
     this.status = status;
+    this.diagnostics = diagnostics;
   }
 }
 
@@ -43,7 +60,7 @@ async function apiFetch<T>(
 
   if (!res.ok) {
     const err = await res.json().catch(() => ({ error: res.statusText }));
-    const error = new ApiError(err.error ?? `API error ${res.status}`, res.status);
+    const error = new ApiError(err.error ?? `API error ${res.status}`, res.status, err.diagnostics);
     throw error;
   }
 
@@ -59,14 +76,16 @@ export function listSouls(params: {
   sort?: string;
   page?: number;
   limit?: number;
-  tag?: string;
+  tags?: string[];
+  match?: "all" | "any";
 }): Promise<SoulListResponse> {
   const sp = new URLSearchParams();
   if (params.search) sp.set("search", params.search);
   if (params.sort) sp.set("sort", params.sort);
   if (params.page) sp.set("page", String(params.page));
   if (params.limit) sp.set("limit", String(params.limit));
-  if (params.tag) sp.set("tag", params.tag);
+  if (params.tags?.length) sp.set("tag", params.tags.join(","));
+  if (params.match === "any") sp.set("match", "any");
   const qs = sp.toString();
   return apiFetch<SoulListResponse>(`/souls${qs ? `?${qs}` : ""}`);
 }
@@ -79,6 +98,11 @@ export function getSoulContent(id: string): Promise<string> {
   return apiFetch<string>(`/souls/${id}/content`);
 }
 
+export async function getSoulExport(id: string, format: ExportFormat): Promise<string> {
+  const data = await apiFetch<unknown>(`/souls/${id}/content?format=${format}`);
+  return typeof data === "string" ? data : `${JSON.stringify(data, null, 2)}\n`;
+}
+
 export function rateSoul(
   id: string,
   rating: number
@@ -96,6 +120,21 @@ export function uploadSoul(content: string): Promise<UploadResponse> {
   });
 }
 
+export function validateSoulContent(content: string): Promise<ValidateResponse> {
+  return apiFetch<ValidateResponse>("/souls/validate", {
+    method: "POST",
+    body: JSON.stringify({ content }),
+  });
+}
+
+export function listTags(params: { q?: string; limit?: number } = {}): Promise<TagListResponse> {
+  const sp = new URLSearchParams();
+  if (params.q) sp.set("q", params.q);
+  if (params.limit) sp.set("limit", String(params.limit));
+  const qs = sp.toString();
+  return apiFetch<TagListResponse>(`/tags${qs ? `?${qs}` : ""}`);
+}
+
 export function getUser(username: string): Promise<{ id: number; username: string; avatar: string }> {
   return apiFetch<{ id: number; username: string; avatar: string }>(`/users/${username}`);
 }
@@ -116,7 +155,7 @@ export function getUserSouls(
 
 export function updateSoul(
   id: string,
-  fields: { name?: string; description?: string; label?: string }
+  fields: { name?: string; description?: string; label?: string; tags?: string[] }
 ): Promise<Soul> {
   return apiFetch<Soul>(`/souls/${id}`, {
     method: "PATCH",
@@ -124,13 +163,57 @@ export function updateSoul(
   });
 }
 
-export function updateSoulContent(id: string, content: string): Promise<{ ok: boolean }> {
-  return apiFetch<{ ok: boolean }>(`/souls/${id}/content`, {
+export function updateSoulContent(
+  id: string,
+  content: string,
+  changelog?: string,
+): Promise<UpdateContentResponse> {
+  return apiFetch<UpdateContentResponse>(`/souls/${id}/content`, {
     method: "PUT",
-    body: JSON.stringify({ content }),
+    body: JSON.stringify({ content, changelog }),
+  });
+}
+
+export function listSoulVersions(id: string, page?: number): Promise<SoulVersionListResponse> {
+  const qs = page ? `?page=${page}` : "";
+  return apiFetch<SoulVersionListResponse>(`/souls/${id}/versions${qs}`);
+}
+
+export function getSoulVersionContent(id: string, version: number): Promise<string> {
+  return apiFetch<string>(`/souls/${id}/versions/${version}/content`);
+}
+
+export function getSoulDiff(id: string, from?: number, to?: number): Promise<SoulDiffResponse> {
+  const params = new URLSearchParams();
+  if (from !== undefined) params.set("from", String(from));
+  if (to !== undefined) params.set("to", String(to));
+  const qs = params.toString();
+  return apiFetch<SoulDiffResponse>(`/souls/${id}/diff${qs ? `?${qs}` : ""}`);
+}
+
+export function restoreSoulVersion(
+  id: string,
+  version: number,
+): Promise<UpdateContentResponse & { restored: number }> {
+  return apiFetch<UpdateContentResponse & { restored: number }>(
+    `/souls/${id}/versions/${version}/restore`,
+    { method: "POST", body: JSON.stringify({}) },
+  );
+}
+
+/** Copy a soul into a new one owned by the current user. */
+export function forkSoul(id: string, name?: string): Promise<ForkResponse> {
+  return apiFetch<ForkResponse>(`/souls/${id}/fork`, {
+    method: "POST",
+    body: JSON.stringify({ name }),
   });
 }
 
+export function listSoulForks(id: string, page?: number): Promise<SoulListResponse> {
+  const qs = page ? `?page=${page}` : "";
+  return apiFetch<SoulListResponse>(`/souls/${id}/forks${qs}`);
+}
+
 export function deleteSoul(id: string): Promise<{ ok: boolean }> {
   return apiFetch<{ ok: boolean }>(`/souls/${id}`, { method: "DELETE" });
 }
@@ -169,18 +252,27 @@ export async function deleteSoulImage(slug: string): Promise<{ ok: boolean }> {
   return apiFetch<{ ok: boolean }>(`/souls/${slug}/image`, { method: "DELETE" });
 }
 
-export async function generateSoulFromPrompt(
-  prompt: string,
+// What a streaming soul endpoint sends after the text, before [DONE]
+interface SoulStreamResult {
+  summary?: RefineChange[];
+  draft?: { id: number };
+}
+
+// POST to a streaming soul endpoint and pass each text delta to onChunk.
+// Resolves with the final summary or draft event when the server sends one.
+async function streamSoul(
+  path: string,
+  body: unknown,
   onChunk: (text: string) => void,
-): Promise<void> {
+): Promise<SoulStreamResult> {
   const token = getToken();
   const headers: Record<string, string> = { "Content-Type": "application/json" };
   if (token) headers["Authorization"] = `Bearer ${token}`;
 
-  const res = await fetch(`${API_URL}/souls/generate`, {
+  const res = await fetch(`${API_URL}${path}`, {
     method: "POST",
     headers,
-    body: JSON.stringify({ prompt }),
+    body: JSON.stringify(body),
   });
 
   if (!res.ok) {
@@ -191,6 +283,7 @@ export async function generateSoulFromPrompt(
   const reader = res.body!.getReader();
   const decoder = new TextDecoder();
   let buffer = "";
+  const result: SoulStreamResult = {};
 
   while (true) {
     const { done, value } = await reader.read();
@@ -201,16 +294,102 @@ export async function generateSoulFromPrompt(
     for (const line of lines) {
       if (!line.startsWith("data: ")) continue;
       const data = line.slice(6);
-      if (data === "[DONE]") return;
+      if (data === "[DONE]") return result;
       try {
-        const parsed = JSON.parse(data) as { text?: string; error?: string };
+        const parsed = JSON.parse(data) as { text?: string; error?: string } & SoulStreamResult;
         if (parsed.error) throw new Error(parsed.error);
         if (parsed.text) onChunk(parsed.text);
+        if (parsed.summary) result.summary = parsed.summary;
+        if (parsed.draft) result.draft = parsed.draft;
       } catch (e) {
         if (e instanceof Error && e.message !== data) throw e;
       }
     }
   }
+  return result;
+}
+
+/** Stream a new soul from `prompt`. Resolves with the draft it was saved to. */
+export async function generateSoulFromPrompt(
+  prompt: string,
+  onChunk: (text: string) => void,
+): Promise<number | null> {
+  const { draft } = await streamSoul("/souls/generate", { prompt }, onChunk);
+  return draft?.id ?? null;
+}
+
+/** Stream a revision of `content` (saved or not) following `instruction`. */
+export async function refineSoulContent(
+  content: string,
+  instruction: string,
+  onChunk: (text: string) => void,
+): Promise<RefineChange[] | null> {
+  const { summary } = await streamSoul("/souls/refine", { content, instruction }, onChunk);
+  return summary ?? null;
+}
+
+export function listDrafts(): Promise<{ data: DraftSummary[] }> {
+  return apiFetch<{ data: DraftSummary[] }>("/drafts");
+}
+
+export function getDraft(id: number): Promise<Draft> {
+  return apiFetch<Draft>(`/drafts/${id}`);
+}
+
+export function createDraft(data: { content?: string; prompt?: string }): Promise<Draft> {
+  return apiFetch<Draft>("/drafts", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+export function updateDraft(id: number, data: { content?: string; prompt?: string | null }): Promise<Draft> {
+  return apiFetch<Draft>(`/drafts/${id}`, {
+    method: "PATCH",
+    body: JSON.stringify(data),
+  });
+}
+
+export function deleteDraft(id: number): Promise<{ ok: boolean }> {
+  return apiFetch<{ ok: boolean }>(`/drafts/${id}`, { method: "DELETE" });
+}
+
+/** Publish a draft as a new soul, saving `content` into it first. */
+export function promoteDraft(id: number, content?: string): Promise<UploadResponse> {
+  return apiFetch<UploadResponse>(`/drafts/${id}/promote`, {
+    method: "POST",
+    body: JSON.stringify({ content }),
+  });
+}
+
+export function listAccessTokens(): Promise<{ data: AccessToken[] }> {
+  return apiFetch<{ data: AccessToken[] }>("/tokens");
+}
+
+export function createAccessToken(data: {
+  name: string;
+  scopes: TokenScope[];
+  expires_in_days?: number;
+}): Promise<CreatedAccessToken> {
+  return apiFetch<CreatedAccessToken>("/tokens", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+export function revokeAccessToken(id: number): Promise<{ ok: boolean }> {
+  return apiFetch<{ ok: boolean }>(`/tokens/${id}`, { method: "DELETE" });
+}
+
+export function getDeviceRequest(userCode: string): Promise<DeviceRequest> {
+  return apiFetch<DeviceRequest>(`/auth/device/${encodeURIComponent(userCode)}`);
+}
+
+export function approveDevice(userCode: string, approve: boolean): Promise<{ ok: boolean; approved: boolean }> {
+  return apiFetch<{ ok: boolean; approved: boolean }>("/auth/device/approve", {
+    method: "POST",
+    body: JSON.stringify({ user_code: userCode, approve }),
+  });
 }
 
 export function getLoginUrl(): string {
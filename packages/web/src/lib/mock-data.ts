@@ -14,6 +14,8 @@ const MOCK_SOULS: Soul[] = [
     rating_avg: 4.8,
     rating_count: 42,
     image_url: null,
+    license: null,
+    forked_from: null,
     downloads_count: 128,
     created_at: "2025-12-01T10:00:00Z",
     updated_at: "2026-01-15T14:30:00Z",
@@ -31,6 +33,8 @@ const MOCK_SOULS: Soul[] = [
     rating_avg: 4.6,
     rating_count: 31,
     image_url: null,
+    license: null,
+    forked_from: null,
     downloads_count: 87,
     created_at: "2025-11-20T08:00:00Z",
     updated_at: "2026-01-10T09:00:00Z",
@@ -48,6 +52,8 @@ const MOCK_SOULS: Soul[] = [
     rating_avg: 4.3,
     rating_count: 18,
     image_url: null,
+    license: null,
+    forked_from: null,
     downloads_count: 34,
     created_at: "2026-01-05T12:00:00Z",
     updated_at: "2026-01-05T12:00:00Z",
@@ -65,6 +71,8 @@ const MOCK_SOULS: Soul[] = [
     rating_avg: 4.1,
     rating_count: 12,
     image_url: null,
+    license: null,
+    forked_from: null,
     downloads_count: 19,
     created_at: "2026-01-20T16:00:00Z",
     updated_at: "2026-02-01T11:00:00Z",
@@ -82,6 +90,8 @@ const MOCK_SOULS: Soul[] = [
     rating_avg: 4.9,
     rating_count: 55,
     image_url: null,
+    license: null,
+    forked_from: null,
     downloads_count: 203,
     created_at: "2025-10-15T09:00:00Z",
     updated_at: "2026-02-05T18:00:00Z",
@@ -99,6 +109,8 @@ const MOCK_SOULS: Soul[] = [
     rating_avg: 3.9,
     rating_count: 8,
     image_url: null,
+    license: null,
+    forked_from: null,
     downloads_count: 5,
     created_at: "2026-02-01T07:00:00Z",
     updated_at: "2026-02-10T10:00:00Z",
@@ -116,6 +128,8 @@ const MOCK_SOULS: Soul[] = [
     rating_avg: 4.4,
     rating_count: 22,
     image_url: null,
+    license: null,
+    forked_from: null,
     downloads_count: 61,
     created_at: "2026-01-12T13:00:00Z",
     updated_at: "2026-01-28T15:00:00Z",
@@ -133,6 +147,8 @@ const MOCK_SOULS: Soul[] = [
     rating_avg: 4.7,
     rating_count: 35,
     image_url: null,
+    license: null,
+    forked_from: null,
     downloads_count: 94,
     created_at: "2025-12-20T11:00:00Z",
     updated_at: "2026-01-22T08:00:00Z",
@@ -150,6 +166,8 @@ const MOCK_SOULS: Soul[] = [
     rating_avg: 4.5,
     rating_count: 27,
     image_url: null,
+    license: null,
+    forked_from: null,
     downloads_count: 72,
     created_at: "2025-11-01T14:00:00Z",
     updated_at: "2026-02-08T16:00:00Z",
@@ -167,6 +185,8 @@ const MOCK_SOULS: Soul[] = [
     rating_avg: 4.2,
     rating_count: 14,
     image_url: null,
+    license: null,
+    forked_from: null,
     downloads_count: 41,
     created_at: "2026-02-05T10:00:00Z",
     updated_at: "2026-02-12T09:00:00Z",
@@ -11,6 +11,11 @@ export interface Soul {
   rating_count: number;
   downloads_count: number;
   image_url: string | null;
+  license: string | null;
+  /** id of the soul this one was forked from */
+  forked_from: number | null;
+  /** Matching excerpt with terms wrapped in <mark>, only set on search results */
+  snippet?: string;
   created_at: string;
   updated_at: string;
 }
@@ -27,7 +32,19 @@ export interface SoulListResponse {
   pagination: Pagination;
 }
 
-export interface SoulDetailResponse extends Soul {}
+/** Enough of another soul to link to it */
+export interface SoulRef {
+  slug: string;
+  label: string;
+  name: string;
+  author: string;
+}
+
+export interface SoulDetailResponse extends Soul {
+  /** The soul this one was forked from, if it still exists */
+  parent: SoulRef | null;
+  forks_count: number;
+}
 
 export interface RateResponse {
   slug: string;
@@ -40,6 +57,110 @@ export interface UploadResponse {
   slug: string;
   name: string;
   hash: string;
+  version: number;
+}
+
+export interface ForkResponse extends UploadResponse {
+  label: string;
+  forked_from: { slug: string; label: string };
+}
+
+export type ExportFormat =
+  | "system-prompt"
+  | "openai-messages"
+  | "anthropic-messages"
+  | "agents-md"
+  | "cursor-rule"
+  | "character-card";
+
+export interface SoulVersion {
+  version: number;
+  hash: string;
+  author: string;
+  changelog: string | null;
+  created_at: string;
+}
+
+export interface DiffLine {
+  type: "same" | "add" | "remove";
+  text: string;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export type SectionChange =
+  | { type: "added"; heading: string; content: string }
+  | { type: "removed"; heading: string; content: string }
+  | { type: "modified"; heading: string; hunks: DiffHunk[] }
+  | { type: "renamed"; from: string; to: string; hunks: DiffHunk[] };
+
+export interface SoulDiffResponse {
+  from: number;
+  to: number;
+  identical: boolean;
+  frontmatter: { key: string; type: "added" | "removed" | "changed"; before?: unknown; after?: unknown }[];
+  preamble: DiffHunk[];
+  sections: SectionChange[];
+  epilogue: DiffHunk[];
+}
+
+/** One section a refinement touched; `from` is the old heading of a renamed section */
+export interface RefineChange {
+  type: "added" | "removed" | "modified" | "renamed";
+  heading: string;
+  from?: string;
+}
+
+/** An unpublished soul, private to its author. Lists leave out `content`. */
+export interface DraftSummary {
+  id: number;
+  name: string | null;
+  prompt: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Draft extends DraftSummary {
+  content: string;
+}
+
+export interface SoulVersionListResponse {
+  data: SoulVersion[];
+  pagination: Pagination;
+}
+
+export interface UpdateContentResponse {
+  ok: boolean;
+  version: number;
+  hash: string;
+}
+
+export interface SoulDiagnostic {
+  rule: string;
+  severity: "error" | "warning" | "info";
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface ValidateResponse {
+  valid: boolean;
+  diagnostics: SoulDiagnostic[];
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+export interface TagListResponse {
+  data: TagCount[];
 }
 
 export interface User {
@@ -47,3 +168,26 @@ export interface User {
   username: string;
   avatar: string;
 }
+
+export type TokenScope = "read" | "publish" | "rate";
+
+export interface AccessToken {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: TokenScope[];
+  created_at: string;
+  last_used_at: string | null;
+  expires_at: string | null;
+}
+
+export interface CreatedAccessToken extends AccessToken {
+  token: string;
+}
+
+export interface DeviceRequest {
+  user_code: string;
+  name: string;
+  scopes: TokenScope[];
+  expires_at: string;
+}